@@ -3,11 +3,33 @@ import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import { 
   Language, AppState, FarmerCrop, CropType, SoilType, 
   GrowthStage, InsightPriority, WeatherDay, UserProfile, SoilProfile, OfflineInsight,
-  DiagnosticCase
+  DiagnosticCase, StructuredDiagnosis, DiagnosticContext, CaseMessage, WeatherSourceId, IrrigationEvent, AreaUnit, SoilTest, GeoPoint, AssistantIntent, AssistantWrite, AIErrorKind, AppView
 } from './types';
-import { TRANSLATIONS, CROP_DATASETS, SOIL_PROFILES } from './constants';
-import { calculateGrowthStage, computeForwardInsights } from './services/AdvisoryEngine';
-import { getDiagnosticAdvice, transcribeAudio, generateSpeech, processCommandIntent } from './services/geminiService';
+import { TRANSLATIONS, CROP_DATASETS, SOIL_PROFILES, AREA_UNIT_HECTARES } from './constants';
+import { computeForwardInsights } from './services/AdvisoryEngine';
+import { calculateGrowthStage } from './services/StageModel';
+import { getDiagnosticAdvice, continueDiagnosticChat, transcribeAudio, generateSpeech } from './services/AIService';
+import { syncWeather } from './services/WeatherService';
+import { parseISODate, todayISO } from './services/Dates';
+import { loadState, saveState, flushState } from './services/StorageService';
+import { queueDiagnostic, flushOutbox, discardQueuedDiagnostics, deliveredOutcome, failedOutcome } from './services/DiagnosticOutbox';
+import { startCapture, AudioCaptureSession } from './services/AudioCapture';
+import { interpretCommand, matchConfirmation, isOnDeviceRecognitionAvailable, startOnDeviceRecognition } from './services/VoiceCommands';
+import { planAssistantAction, describeSavedWrite, cancelledWriteMessage } from './services/AssistantActions';
+import { detectCurrentLocation } from './services/RegionService';
+import { useHashRouter, parseRoute, HOME_ROUTE } from './services/Router';
+import { fieldsToGeoJSON, fieldsToKML } from './services/FieldGeometry';
+import CropDetail from './components/CropDetail';
+import DiagnosisReport from './components/DiagnosisReport';
+import CaseThread from './components/CaseThread';
+import SymptomKeyWizard from './components/SymptomKeyWizard';
+import FieldLocationInput from './components/FieldLocationInput';
+import OfflineMap from './components/OfflineMap';
+import { formatDiagnosis } from './services/DiagnosisSchema';
+import { tasksFromDiagnosis, hasTasksFromCase } from './services/FieldTasks';
+import { buildDiagnosticContext, GENERIC_CONTEXT } from './services/DiagnosticContext';
+
+const MAX_VOICE_NOTE_SECONDS = 30;
 
 const IMAGES = {
   onboarding: 'https://images.unsplash.com/photo-1500382017468-9049fed747ef?w=1200&q=80',
@@ -24,6 +46,36 @@ const CROP_ICONS: Record<CropType, string> = {
   [CropType.VEGETABLES]: '🥦'
 };
 
+// Soil test inputs named soil_n / soil_p / soil_k; blank fields are left out
+const readSoilTest = (f: FormData): SoilTest | undefined => {
+  const test: SoilTest = {};
+  (['n', 'p', 'k'] as const).forEach(nutrient => {
+    const raw = f.get(`soil_${nutrient}`) as string | null;
+    if (raw) test[nutrient] = Number(raw);
+  });
+  return Object.keys(test).length ? test : undefined;
+};
+
+// Saves generated text (field exports) through a temporary download link
+const downloadFile = (filename: string, mimeType: string, text: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// GPS fix posted by FieldLocationInput as lat / lng
+const readLocation = (f: FormData): GeoPoint | undefined => {
+  const lat = f.get('lat') as string | null, lng = f.get('lng') as string | null;
+  return lat && lng ? { lat: Number(lat), lng: Number(lng) } : undefined;
+};
+
+const WEATHER_SOURCE_LABELS: Record<WeatherSourceId, string> = {
+  'open-meteo': 'Open-Meteo', 'imd': 'IMD', 'fixture': 'Offline Fixture'
+};
+
 const Logo = ({ size = "md", light = false }: { size?: "sm" | "md" | "lg", light?: boolean }) => {
   const dimensions = { sm: "w-10 h-10", md: "w-20 h-20", lg: "w-32 h-32" }[size];
   return (
@@ -44,13 +96,25 @@ const Logo = ({ size = "md", light = false }: { size?: "sm" | "md" | "lg", light
 };
 
 const App: React.FC = () => {
-  const [view, setView] = useState<'home' | 'crops' | 'library' | 'diagnostics' | 'settings' | 'onboarding' | 'add' | 'detail' | 'privacy' | 'caseLog'>('home');
-  const [selectedCropId, setSelectedCropId] = useState<string | null>(null);
-  const [selectedCaseId, setSelectedCaseId] = useState<string | null>(null);
+  // Which screen, field and case are showing all come from the location hash
+  const mainRef = useRef<HTMLElement>(null);
+  const { route, navigate, back } = useHashRouter(mainRef);
+  const view = route.view;
+  const selectedCropId = view === 'detail' ? route.cropId : undefined;
+  const editingCropId = view === 'add' ? route.cropId : undefined;
+  const selectedCaseId = view === 'case' ? route.caseId : undefined;
+  const focusedCaseId = view === 'caseLog' ? route.caseId : undefined;
+  const diagCropId = view === 'diagnostics' ? route.cropId || '' : '';
+  const [notice, setNotice] = useState<string | null>(null);
   const [isThinking, setIsThinking] = useState(false);
-  const [diagResult, setDiagResult] = useState<string | null>(null);
+  const [diagResult, setDiagResult] = useState<StructuredDiagnosis | null>(null);
+  const [diagCaseId, setDiagCaseId] = useState<string | null>(null);
+  const [diagMessage, setDiagMessage] = useState<string | null>(null);
   const [diagText, setDiagText] = useState('');
   const [diagImage, setDiagImage] = useState<string | null>(null);
+  const [caseFilter, setCaseFilter] = useState<string | null>(null);
+  const [sendingCaseId, setSendingCaseId] = useState<string | null>(null);
+  const [isCheckingSymptoms, setIsCheckingSymptoms] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [isAppLocked, setIsAppLocked] = useState(true);
@@ -60,18 +124,25 @@ const App: React.FC = () => {
   const [isAssistantActive, setIsAssistantActive] = useState(false);
   const [assistantStatus, setAssistantStatus] = useState<'idle' | 'listening' | 'thinking' | 'speaking'>('idle');
   const [assistantText, setAssistantText] = useState('');
+  // A change the assistant has read back and is waiting for a yes or no on
+  const [pendingWrite, setPendingWrite] = useState<AssistantWrite | null>(null);
 
-  const recorderRef = useRef<MediaRecorder | null>(null);
-  const chunksRef = useRef<Blob[]>([]);
+  const captureRef = useRef<AudioCaptureSession | null>(null);
+  // Offline the assistant listens through the browser's recogniser instead of the cloud
+  const recognitionRef = useRef<ReturnType<typeof startOnDeviceRecognition> | null>(null);
+  // In-flight AI requests, so a second tap is ignored and the farmer can cancel
+  const consultAbortRef = useRef<AbortController | null>(null);
+  const caseRequestsRef = useRef(new Map<string, AbortController>());
 
+  const [isHydrated, setIsHydrated] = useState(false);
   const [state, setState] = useState<AppState>(() => {
-    const saved = localStorage.getItem('agrisynch_store_v12');
-    if (saved) return JSON.parse(saved);
     return {
       language: Language.ENGLISH,
       user: null,
       crops: [],
       weatherSnapshot: [],
+      weatherMeta: null,
+      weatherHistory: [],
       isOnline: navigator.onLine,
       lastSyncTime: null,
       cachedInsights: [],
@@ -86,8 +157,17 @@ const App: React.FC = () => {
 
   const isDarkMode = state.settings.theme === 'dark';
   const t = TRANSLATIONS[state.language];
+  const aiErrorMessage = (kind: AIErrorKind) => ({
+    'offline': t.aiErrorOffline,
+    'timeout': t.aiErrorTimeout,
+    'cancelled': t.aiErrorCancelled,
+    'quota': t.aiErrorQuota,
+    'safety-blocked': t.aiErrorSafety,
+    'invalid-response': t.aiErrorInvalid,
+    'unavailable': t.aiErrorUnavailable
+  })[kind];
 
-  useEffect(() => { if (!state.settings.pinLock) setIsAppLocked(false); }, [state.settings.pinLock]);
+  useEffect(() => { if (isHydrated && !state.settings.pinLock) setIsAppLocked(false); }, [isHydrated, state.settings.pinLock]);
 
   useEffect(() => {
     const onOnline = () => setState(p => ({ ...p, isOnline: true }));
@@ -100,25 +180,52 @@ const App: React.FC = () => {
     };
   }, []);
 
-  useEffect(() => { localStorage.setItem('agrisynch_store_v12', JSON.stringify(state)); }, [state]);
+  useEffect(() => {
+    loadState()
+      .then(saved => { if (saved) setState(p => ({ ...p, ...saved, isOnline: navigator.onLine })); })
+      .catch(e => console.error("Storage Load Failure:", e))
+      .finally(() => setIsHydrated(true));
+  }, []);
 
-  const handleSync = useCallback(() => {
-    const today = new Date();
-    const weather: WeatherDay[] = [0, 1, 2, 3].map(i => ({
-      date: new Date(today.getTime() + i * 86400000).toLocaleDateString(),
-      temp: 28 + Math.floor(Math.random() * 8),
-      condition: (['sunny', 'cloudy', 'rainy', 'storm'] as const)[Math.floor(Math.random() * 4)],
-      precipChance: Math.floor(Math.random() * 100)
-    }));
-    setState(p => ({ 
-      ...p, 
-      weatherSnapshot: weather, 
-      lastSyncTime: new Date().toLocaleString([], { hour: '2-digit', minute: '2-digit', day: '2-digit', month: 'short' }),
-      isOnline: navigator.onLine
-    }));
+  // Never persist before hydration, or the defaults would overwrite stored data
+  useEffect(() => { if (isHydrated) saveState(state); }, [state, isHydrated]);
+
+  useEffect(() => {
+    const onHide = () => { if (document.visibilityState === 'hidden') flushState(); };
+    document.addEventListener('visibilitychange', onHide);
+    return () => document.removeEventListener('visibilitychange', onHide);
   }, []);
 
-  useEffect(() => { if (!state.lastSyncTime) handleSync(); }, [handleSync]);
+  const handleSync = useCallback(async () => {
+    setState(p => ({ ...p, isOnline: navigator.onLine }));
+    try {
+      const { forecast, history } = await syncWeather(state.crops, state.weatherHistory);
+      setState(p => ({ 
+        ...p, 
+        weatherSnapshot: forecast.days, 
+        weatherHistory: history,
+        weatherMeta: {
+          source: forecast.source,
+          issuedAt: forecast.issuedAt,
+          fetchedAt: new Date().toISOString(),
+          locationName: forecast.locationName
+        },
+        lastSyncTime: new Date().toLocaleString([], { hour: '2-digit', minute: '2-digit', day: '2-digit', month: 'short' })
+      }));
+    } catch (e) {
+      // Keep the last good snapshot; insights keep running on it offline
+      console.error("Weather Sync Failure:", e);
+    }
+  }, [state.crops, state.weatherHistory]);
+
+  // First sync once the stored crops are loaded. Only once: handleSync changes with every crop
+  // or history update, and a failing sync must not restart GPS and fetch on each of them.
+  const initialSyncStarted = useRef(false);
+  useEffect(() => {
+    if (!isHydrated || initialSyncStarted.current) return;
+    initialSyncStarted.current = true;
+    if (!state.lastSyncTime) handleSync();
+  }, [isHydrated, handleSync, state.lastSyncTime]);
 
   const insights = useMemo(() => computeForwardInsights(state), [state]);
 
@@ -137,67 +244,180 @@ const App: React.FC = () => {
     [state.crops, selectedCropId]
   );
 
+  const activeCrops = useMemo(() => state.crops.filter(c => !c.archived), [state.crops]);
+  const archivedCrops = useMemo(() => state.crops.filter(c => c.archived), [state.crops]);
+
+  const selectedCase = useMemo(() =>
+    state.diagnosticHistory.find(c => c.id === selectedCaseId),
+    [state.diagnosticHistory, selectedCaseId]
+  );
+
+  const visibleCases = useMemo(() =>
+    caseFilter ? state.diagnosticHistory.filter(c => c.cropId === caseFilter) : state.diagnosticHistory,
+    [state.diagnosticHistory, caseFilter]
+  );
+
+  // Scroll a linked case into view once it is listed, not again on every re-render
+  const focusedCaseRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    focusedCaseRef.current?.scrollIntoView({ block: 'center' });
+  }, [focusedCaseId, visibleCases.length]);
+
+  const editingCrop = useMemo(() =>
+    state.crops.find(c => c.id === editingCropId),
+    [state.crops, editingCropId]
+  );
+
+  // The service worker asks an open window to show the case behind a tapped notification
+  useEffect(() => {
+    const onMessage = (e: MessageEvent) => {
+      const next = e.data?.type === 'open-route' ? parseRoute(e.data.hash) : null;
+      if (next) navigate(next);
+    };
+    navigator.serviceWorker?.addEventListener('message', onMessage);
+    return () => navigator.serviceWorker?.removeEventListener('message', onMessage);
+  }, [navigate]);
+
+  // Links to a field or case that isn't on this phone (deleted, or shared from another) land on its list
+  useEffect(() => {
+    if (!isHydrated) return;
+    if (view === 'detail' && !selectedCrop) navigate({ view: 'crops' }, { replace: true });
+    else if (view === 'add' && editingCropId && !editingCrop) navigate({ view: 'add' }, { replace: true });
+    else if (view === 'case' && !selectedCase) navigate({ view: 'caseLog' }, { replace: true });
+  }, [isHydrated, view, selectedCrop, editingCropId, editingCrop, selectedCase, navigate]);
+
+  const updateCrop = (cropId: string, changes: Partial<FarmerCrop>) => {
+    setState(p => ({ ...p, crops: p.crops.map(c => c.id === cropId ? { ...c, ...changes } : c) }));
+  };
+
+  // The field's cases go with it, along with any of their requests still waiting in the outbox
+  const deleteCrop = (cropId: string) => {
+    const caseIds = state.diagnosticHistory.filter(c => c.cropId === cropId).map(c => c.id);
+    setState(p => ({
+      ...p,
+      crops: p.crops.filter(c => c.id !== cropId),
+      diagnosticHistory: p.diagnosticHistory.filter(c => c.cropId !== cropId)
+    }));
+    if (caseFilter === cropId) setCaseFilter(null);
+    discardQueuedDiagnostics(caseIds).catch(e => console.error("Outbox Discard Failure:", e));
+    navigate({ view: 'crops' }, { replace: true });
+  };
+
+  const logIrrigation = (cropId: string, amountMm: number) => {
+    const event: IrrigationEvent = { date: todayISO(), amountMm };
+    setState(p => ({
+      ...p,
+      crops: p.crops.map(c => c.id === cropId ? { ...c, irrigationLog: [...(c.irrigationLog || []), event] } : c)
+    }));
+  };
+
   const startListening = async (target: 'diagnostics' | 'assistant') => {
+    if (captureRef.current || recognitionRef.current) return;
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      const recorder = new MediaRecorder(stream);
-      recorderRef.current = recorder;
-      chunksRef.current = [];
-      recorder.ondataavailable = (e) => chunksRef.current.push(e.data);
-      recorder.onstop = async () => {
-        const blob = new Blob(chunksRef.current, { type: 'audio/pcm;rate=16000' });
-        const reader = new FileReader();
-        reader.readAsDataURL(blob);
-        reader.onloadend = async () => {
-          const base64 = (reader.result as string).split(',')[1];
-          if (target === 'diagnostics') {
-            setIsThinking(true);
-            const transcript = await transcribeAudio(base64);
-            if (transcript) setDiagText(p => p + " " + transcript);
-            setIsThinking(false);
-          } else {
-            setAssistantStatus('thinking');
-            const transcript = await transcribeAudio(base64);
-            if (transcript) {
-              setAssistantText(transcript);
-              const result = await processCommandIntent(transcript);
-              handleAssistantAction(result);
-            } else {
-              setAssistantStatus('idle');
-            }
-          }
-        };
-      };
-      recorder.start();
+      if (target === 'assistant' && !navigator.onLine && isOnDeviceRecognitionAvailable()) {
+        recognitionRef.current = startOnDeviceRecognition(state.language);
+        setAssistantStatus('listening');
+        return;
+      }
+      captureRef.current = await startCapture({ maxSeconds: MAX_VOICE_NOTE_SECONDS, onLimit: () => stopListening(target) });
       if (target === 'diagnostics') setIsRecording(true);
       else setAssistantStatus('listening');
     } catch (e) { console.error("Mic Error", e); }
   };
 
-  const stopListening = (target: 'diagnostics' | 'assistant') => {
-    recorderRef.current?.stop();
+  const stopListening = async (target: 'diagnostics' | 'assistant') => {
+    const recognition = recognitionRef.current;
+    recognitionRef.current = null;
+    if (recognition) {
+      setAssistantStatus('thinking');
+      const heard = await recognition.stop();
+      if (heard) runAssistantCommand(heard);
+      else setAssistantStatus('idle');
+      return;
+    }
+    const session = captureRef.current;
+    captureRef.current = null;
     if (target === 'diagnostics') setIsRecording(false);
+    if (!session) return;
+    const audio = await session.stop();
+    if (!audio.durationSeconds) {
+      if (target === 'assistant') setAssistantStatus('idle');
+      return;
+    }
+    if (target === 'diagnostics') {
+      setIsThinking(true);
+      const transcript = await transcribeAudio(audio.base64);
+      if (transcript.ok) setDiagText(p => p + " " + transcript.value);
+      else setDiagMessage(aiErrorMessage(transcript.error));
+      setIsThinking(false);
+    } else {
+      setAssistantStatus('thinking');
+      const transcript = await transcribeAudio(audio.base64);
+      if (transcript.ok) runAssistantCommand(transcript.value);
+      else {
+        setAssistantText(aiErrorMessage(transcript.error));
+        setAssistantStatus('idle');
+      }
+    }
   };
 
-  const handleAssistantAction = async (result: any) => {
-    if (result.action === 'NAVIGATE') {
-      setView(result.target);
-      speakResult(result.message || `Navigating to ${result.target}`, true);
-    } else if (result.action === 'SPEAK') {
-      speakResult(result.message, true);
+  const runAssistantCommand = async (transcript: string) => {
+    setAssistantText(transcript);
+    if (pendingWrite) {
+      const confirmed = matchConfirmation(transcript);
+      if (confirmed !== null) return resolvePendingWrite(confirmed);
+      // Anything other than yes or no is a new command and drops the unconfirmed change
+      setPendingWrite(null);
+    }
+    const result = await interpretCommand(transcript, state.language);
+    if (result.ok) {
+      handleAssistantAction(result.value);
     } else {
-      speakResult("I understood your command but don't know how to execute that yet.", true);
+      setAssistantText(aiErrorMessage(result.error));
+      setAssistantStatus('idle');
     }
   };
 
-  const speakResult = async (text: string, isAssistant = false) => {
+  // Replies are shown as well as spoken, since speech needs the network unless it was cached
+  const handleAssistantAction = async (result: AssistantIntent) => {
+    // A field added by voice is placed by GPS like one added on the form; without a fix it falls back to the usual region
+    const location = result.action === 'ADD_CROP' && result.crop.type
+      ? await detectCurrentLocation().catch(e => { console.error("Location Failure:", e); return undefined; })
+      : undefined;
+    const plan = planAssistantAction(result, state, location);
+    if (plan.navigate) navigate({ view: plan.navigate });
+    setPendingWrite(plan.confirm || null);
+    setAssistantText(plan.reply);
+    speakResult(plan.reply, true, !!plan.confirm);
+  };
+
+  // Writes happen only here, after the farmer has heard the change and said yes
+  const resolvePendingWrite = (confirmed: boolean) => {
+    const write = pendingWrite;
+    setPendingWrite(null);
+    if (!write) return;
+    if (confirmed) {
+      if (write.kind === 'addCrop') {
+        setState(p => ({ ...p, crops: [...p.crops, write.crop] }));
+        navigate({ view: 'crops' });
+      } else {
+        logIrrigation(write.cropId, write.amountMm);
+      }
+    }
+    const reply = confirmed ? describeSavedWrite(write, state) : cancelledWriteMessage(state.language);
+    setAssistantText(reply);
+    speakResult(reply, true);
+  };
+
+  const speakResult = async (text: string, isAssistant = false, keepAssistantOpen = false) => {
     if (isSpeaking) return;
     setIsSpeaking(true);
     if (isAssistant) setAssistantStatus('speaking');
     
-    const audio64 = await generateSpeech(text);
-    if (audio64) {
-      const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+    const speech = await generateSpeech(text, state.language);
+    if (speech.ok) {
+      const audio64 = speech.value;
+      const audioCtx = new (window.AudioContext || window.webkitAudioContext)({ sampleRate: 24000 });
       const binary = atob(audio64);
       const bytes = new Uint8Array(binary.length);
       for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
@@ -212,7 +432,7 @@ const App: React.FC = () => {
         setIsSpeaking(false);
         if (isAssistant) {
           setAssistantStatus('idle');
-          setTimeout(() => setIsAssistantActive(false), 2000);
+          if (!keepAssistantOpen) setTimeout(() => setIsAssistantActive(false), 2000);
         }
       };
       src.start();
@@ -222,23 +442,184 @@ const App: React.FC = () => {
     }
   };
 
-  const saveDiagnostic = (nickname: string, description: string, result: string, image?: string) => {
+  const saveDiagnostic = (crop: FarmerCrop | undefined, context: DiagnosticContext, description: string, result: StructuredDiagnosis | null, image?: string, overrides: Partial<DiagnosticCase> = {}) => {
+    const now = new Date();
     const newCase: DiagnosticCase = {
-      id: Date.now().toString(),
-      timestamp: new Date().toLocaleString(),
-      cropNickname: nickname,
+      id: now.getTime().toString(),
+      timestamp: now.toLocaleString(),
+      createdAt: now.toISOString(),
+      cropId: crop?.id,
+      cropNickname: crop?.nickname || "Expert Consult",
       description,
-      diagnosis: result,
-      imageUrl: image
+      diagnosis: result ? formatDiagnosis(result, state.language) : '',
+      structured: result || undefined,
+      imageUrl: image,
+      status: 'complete',
+      context,
+      ...overrides
     };
     setState(p => ({ ...p, diagnosticHistory: [newCase, ...p.diagnosticHistory] }));
+    return newCase;
+  };
+
+  const diagCrop = useMemo(() => activeCrops.find(c => c.id === diagCropId), [activeCrops, diagCropId]);
+
+  const queueConsultation = async (context: DiagnosticContext) => {
+    const pendingCase = saveDiagnostic(diagCrop, context, diagText, null, diagImage || undefined, { status: 'pending' });
+    try {
+      await queueDiagnostic({ caseId: pendingCase.id, cropNickname: pendingCase.cropNickname, context, description: diagText, imageData: diagImage?.split(',')[1], language: state.language });
+      setDiagMessage(t.queuedOffline);
+    } catch (e) {
+      console.error("Outbox Queue Failure:", e);
+      setDiagMessage(t.queueFailed);
+    }
+  };
+
+  const deliverDiagnosis = useCallback((caseId: string, diagnosis: StructuredDiagnosis, language: Language) => {
+    setState(p => ({
+      ...p,
+      diagnosticHistory: p.diagnosticHistory.map(c => c.id === caseId ? { ...c, ...deliveredOutcome(diagnosis, language) } : c)
+    }));
+    setNotice(t.diagnosisArrived);
+  }, [t]);
+
+  // A queued request the outbox gave up on
+  const failDiagnosis = useCallback((caseId: string, error: AIErrorKind) => {
+    setState(p => ({
+      ...p,
+      diagnosticHistory: p.diagnosticHistory.map(c => c.id === caseId ? { ...c, ...failedOutcome(error) } : c)
+    }));
+    setNotice(aiErrorMessage(error));
+  }, [t]);
+
+  // Swap a provisional (symptom key) result for an AI diagnosis, via the outbox when offline
+  const confirmWithExpert = async (target: DiagnosticCase) => {
+    const context = target.context || GENERIC_CONTEXT;
+    const imageData = target.imageUrl?.split(',')[1];
+    if (!navigator.onLine) {
+      try {
+        await queueDiagnostic({ caseId: target.id, cropNickname: target.cropNickname, context, description: target.description, imageData, language: state.language });
+        updateCase(target.id, c => ({ ...c, status: 'pending', failure: undefined }));
+      } catch (e) {
+        console.error("Outbox Queue Failure:", e);
+        setNotice(t.caseQueueFailed);
+      }
+      return;
+    }
+    if (caseRequestsRef.current.has(target.id)) return;
+    const controller = new AbortController();
+    caseRequestsRef.current.set(target.id, controller);
+    setSendingCaseId(target.id);
+    const res = await getDiagnosticAdvice(context, target.description, imageData, state.language, controller.signal);
+    caseRequestsRef.current.delete(target.id);
+    setSendingCaseId(null);
+    if (res.ok) deliverDiagnosis(target.id, res.value, state.language);
+    else if (res.error === 'offline') confirmWithExpert(target);
+    else if (res.error !== 'cancelled') setNotice(aiErrorMessage(res.error));
+  };
+
+  // Treatments from a case become dated tasks on its field, once
+  const addTasksFromCase = (target: DiagnosticCase) => {
+    if (!target.cropId || !target.structured) return;
+    const tasks = tasksFromDiagnosis(target.id, target.structured, state.language);
+    setState(p => ({
+      ...p,
+      crops: p.crops.map(c => c.id === target.cropId && !hasTasksFromCase(c, target.id) ? { ...c, tasks: [...(c.tasks || []), ...tasks] } : c)
+    }));
+    setNotice(t.tasksAdded);
+  };
+
+  const taskProps = (target: DiagnosticCase | undefined) => target?.cropId && target.structured ? {
+    onCreateTasks: () => addTasksFromCase(target),
+    tasksAdded: hasTasksFromCase(state.crops.find(c => c.id === target.cropId), target.id)
+  } : {};
+
+  const updateCase = (caseId: string, update: (c: DiagnosticCase) => DiagnosticCase) => {
+    setState(p => ({ ...p, diagnosticHistory: p.diagnosticHistory.map(c => c.id === caseId ? update(c) : c) }));
+  };
+
+  // Sends the thread as it stands; farmer messages stay pending until the expert's reply lands
+  const replyToCase = useCallback(async (target: DiagnosticCase) => {
+    const thread = target.thread || [];
+    const sentIds = new Set(thread.filter(m => m.pending).map(m => m.id));
+    if (!sentIds.size || caseRequestsRef.current.has(target.id)) return;
+    const controller = new AbortController();
+    caseRequestsRef.current.set(target.id, controller);
+    setSendingCaseId(target.id);
+    const reply = await continueDiagnosticChat(target, thread, controller.signal);
+    caseRequestsRef.current.delete(target.id);
+    setSendingCaseId(null);
+    // Unsent messages stay pending and go out with the next reconnect; a failure while online is shown so it can be retried now
+    if (!reply.ok) {
+      if (reply.error === 'offline') return;
+      if (reply.error !== 'cancelled') setNotice(aiErrorMessage(reply.error));
+      setState(p => ({
+        ...p,
+        diagnosticHistory: p.diagnosticHistory.map(c => c.id === target.id ? {
+          ...c,
+          thread: (c.thread || []).map(m => sentIds.has(m.id) ? { ...m, failed: true } : m)
+        } : c)
+      }));
+      return;
+    }
+    const expertMessage: CaseMessage = { id: Date.now().toString(), role: 'expert', text: reply.value, timestamp: new Date().toLocaleString() };
+    setState(p => ({
+      ...p,
+      diagnosticHistory: p.diagnosticHistory.map(c => c.id === target.id ? {
+        ...c,
+        thread: [...(c.thread || []).map(m => sentIds.has(m.id) ? { ...m, pending: false, failed: false } : m), expertMessage]
+      } : c)
+    }));
+  }, []);
+
+  const retryFollowUps = (target: DiagnosticCase) => {
+    const updated = { ...target, thread: (target.thread || []).map(m => m.failed ? { ...m, failed: false } : m) };
+    updateCase(target.id, () => updated);
+    replyToCase(updated);
+  };
+
+  const sendFollowUp = (target: DiagnosticCase, text: string, imageUrl?: string) => {
+    const message: CaseMessage = { id: Date.now().toString(), role: 'farmer', text, imageUrl, timestamp: new Date().toLocaleString(), pending: true };
+    const updated = { ...target, thread: [...(target.thread || []), message] };
+    updateCase(target.id, () => updated);
+    if (navigator.onLine) replyToCase(updated);
   };
 
+  // Online handlers outlive renders; read the latest cases through a ref
+  const casesRef = useRef(state.diagnosticHistory);
+  casesRef.current = state.diagnosticHistory;
+
+  // Drain the outbox on reconnect, on startup, and whenever the service worker's background sync fires
+  useEffect(() => {
+    if (!isHydrated) return;
+    const flush = () => {
+      if (!navigator.onLine) return;
+      flushOutbox(deliverDiagnosis, failDiagnosis);
+      casesRef.current.filter(c => c.thread?.some(m => m.pending)).forEach(replyToCase);
+    };
+    const onMessage = (e: MessageEvent) => { if (e.data?.type === 'flush-outbox') flush(); };
+    flush();
+    window.addEventListener('online', flush);
+    navigator.serviceWorker?.addEventListener('message', onMessage);
+    return () => {
+      window.removeEventListener('online', flush);
+      navigator.serviceWorker?.removeEventListener('message', onMessage);
+    };
+  }, [isHydrated, deliverDiagnosis, failDiagnosis, replyToCase]);
+
   const themeClasses = isDarkMode ? 'dark bg-slate-900 text-slate-100' : 'bg-slate-50 text-slate-900';
   const cardClasses = isDarkMode ? 'bg-slate-800 border-slate-700 shadow-emerald-950/20' : 'bg-white border-slate-100 shadow-xl';
   const textClasses = isDarkMode ? 'text-slate-100' : 'text-slate-900';
   const subTextClasses = isDarkMode ? 'text-slate-400' : 'text-slate-500';
 
+  if (!isHydrated) {
+    return (
+      <div className="min-h-screen bg-emerald-950 flex items-center justify-center">
+        <div className="animate-pulse"><Logo size="lg" light /></div>
+      </div>
+    );
+  }
+
   if (isAppLocked && state.settings.pinLock) {
     return (
       <div className="min-h-screen bg-emerald-950 flex flex-col items-center justify-center p-8 text-white font-['Inter']">
@@ -296,7 +677,7 @@ const App: React.FC = () => {
       
       <header className={`${isDarkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-100'} px-6 py-5 flex justify-between items-center sticky top-0 z-[100] border-b pt-safe shadow-sm transition-colors duration-300`}>
         <div className="flex items-center gap-4">
-          <div onClick={() => setView('home')} className="cursor-pointer active:scale-95 hover:scale-105 transition-all">
+          <div onClick={() => navigate(HOME_ROUTE)} className="cursor-pointer active:scale-95 hover:scale-105 transition-all">
             <Logo size="sm" />
           </div>
           <div>
@@ -310,7 +691,7 @@ const App: React.FC = () => {
           </div>
         </div>
         <div className="flex gap-2">
-           <button onClick={() => setView('caseLog')} className={`${isDarkMode ? 'bg-slate-700' : 'bg-slate-50'} w-12 h-12 rounded-2xl flex items-center justify-center hover:scale-105 transition-all`}>
+           <button onClick={() => navigate({ view: 'caseLog' })} className={`${isDarkMode ? 'bg-slate-700' : 'bg-slate-50'} w-12 h-12 rounded-2xl flex items-center justify-center hover:scale-105 transition-all`}>
              <span className="text-xl">📋</span>
            </button>
            <button onClick={handleSync} className={`${isDarkMode ? 'bg-slate-700 text-slate-400' : 'bg-slate-50 text-slate-500'} w-12 h-12 border rounded-2xl flex items-center justify-center active:scale-95 transition-all`}>
@@ -319,7 +700,14 @@ const App: React.FC = () => {
         </div>
       </header>
 
-      <main className="flex-1 overflow-y-auto pb-40 relative">
+      <main ref={mainRef} className="flex-1 overflow-y-auto pb-40 relative">
+        {notice && (
+          <div onClick={() => { setNotice(null); navigate({ view: 'caseLog' }); }} className="mx-6 mt-6 p-5 rounded-[2rem] bg-emerald-600 text-white flex items-center gap-4 shadow-xl cursor-pointer animate-in slide-in-from-top duration-500">
+            <span className="text-2xl">🔔</span>
+            <p className="flex-1 text-xs font-black">{notice}</p>
+            <button onClick={(e) => { e.stopPropagation(); setNotice(null); }} className="text-white/70 font-black">✕</button>
+          </div>
+        )}
         <div className={`absolute top-0 right-0 -mr-40 -mt-40 w-96 h-96 rounded-full blur-3xl pointer-events-none ${isDarkMode ? 'bg-emerald-500/5' : 'bg-emerald-500/5'}`}></div>
 
         {view === 'home' && (
@@ -329,19 +717,41 @@ const App: React.FC = () => {
                <div className="flex justify-between items-start relative z-10">
                   <div>
                      <p className="text-[10px] font-black text-emerald-600 uppercase tracking-widest mb-1">Local Conditions</p>
-                     <h2 className="text-4xl font-black tracking-tight">{state.weatherSnapshot[0]?.temp}°C</h2>
+                     <h2 className="text-4xl font-black tracking-tight">{state.weatherSnapshot[0]?.tempMax}°C <span className={`text-lg ${subTextClasses}`}>/ {state.weatherSnapshot[0]?.tempMin}°</span></h2>
                      <p className={`text-sm font-bold ${subTextClasses} capitalize mt-1`}>{state.weatherSnapshot[0]?.condition} Sky</p>
+                     {state.weatherMeta && (
+                       <p className="text-[8px] font-black text-slate-400 uppercase tracking-widest mt-2">
+                         {WEATHER_SOURCE_LABELS[state.weatherMeta.source]} • Issued {new Date(state.weatherMeta.issuedAt).toLocaleString([], { hour: '2-digit', minute: '2-digit', day: '2-digit', month: 'short' })}
+                       </p>
+                     )}
                   </div>
                   <div className="text-6xl animate-bounce-slow">
                      {state.weatherSnapshot[0]?.condition === 'sunny' ? '☀️' : state.weatherSnapshot[0]?.condition === 'rainy' ? '🌧️' : '☁️'}
                   </div>
                </div>
+               {state.weatherSnapshot[0] && (
+                 <div className="grid grid-cols-4 gap-2 mt-8 relative z-10">
+                    {[
+                      { icon: '💧', value: `${state.weatherSnapshot[0].humidity}%`, label: 'Humidity' },
+                      { icon: '💨', value: `${state.weatherSnapshot[0].windSpeed}`, label: 'km/h' },
+                      { icon: '🌧️', value: `${state.weatherSnapshot[0].rainMm}`, label: 'mm' },
+                      { icon: '☀️', value: state.weatherSnapshot[0].sunshineHours !== undefined ? `${state.weatherSnapshot[0].sunshineHours}` : '–', label: 'Sun hrs' }
+                    ].map(m => (
+                      <div key={m.label} className={`${isDarkMode ? 'bg-slate-700' : 'bg-slate-50'} rounded-2xl py-3 text-center`}>
+                         <span className="text-sm block">{m.icon}</span>
+                         <p className={`text-xs font-black ${textClasses}`}>{m.value}</p>
+                         <p className="text-[7px] font-black uppercase text-slate-400">{m.label}</p>
+                      </div>
+                    ))}
+                 </div>
+               )}
                <div className="grid grid-cols-4 gap-4 mt-10 relative z-10">
                   {state.weatherSnapshot.map((w, i) => (
                     <div key={i} className="text-center">
-                       <p className="text-[8px] font-black uppercase text-slate-400 mb-2">{i === 0 ? 'Today' : w.date.split('/')[0] + '/' + w.date.split('/')[1]}</p>
+                       <p className="text-[8px] font-black uppercase text-slate-400 mb-2">{i === 0 ? 'Today' : parseISODate(w.date).toLocaleDateString([], { day: '2-digit', month: '2-digit' })}</p>
                        <span className="text-2xl block mb-2">{w.condition === 'sunny' ? '☀️' : w.condition === 'rainy' ? '🌧️' : '☁️'}</span>
-                       <p className={`text-[10px] font-black ${textClasses}`}>{w.temp}°</p>
+                       <p className={`text-[10px] font-black ${textClasses}`}>{w.tempMax}° <span className="text-slate-400">{w.tempMin}°</span></p>
+                       {w.rainMm > 0 && <p className="text-[8px] font-black text-sky-500 mt-1">{w.rainMm}mm</p>}
                     </div>
                   ))}
                </div>
@@ -387,28 +797,78 @@ const App: React.FC = () => {
         {view === 'caseLog' && (
            <div className="p-6 space-y-10 animate-in slide-in-from-right duration-500">
               <div className="flex items-center gap-5">
-                 <button onClick={() => setView('home')} className={`${isDarkMode ? 'bg-slate-800' : 'bg-white'} w-14 h-14 rounded-2xl shadow-xl flex items-center justify-center`}>←</button>
+                 <button onClick={() => back(HOME_ROUTE)} className={`${isDarkMode ? 'bg-slate-800' : 'bg-white'} w-14 h-14 rounded-2xl shadow-xl flex items-center justify-center`}>←</button>
                  <h2 className={`text-4xl font-black ${textClasses} tracking-tighter`}>History</h2>
               </div>
+              {state.crops.length > 0 && (
+                 <div className="flex gap-3 overflow-x-auto pb-2">
+                    {[{ id: null, label: 'All Fields' }, ...state.crops.map(c => ({ id: c.id, label: c.nickname }))].map(f => (
+                      <button key={f.id ?? 'all'} onClick={() => setCaseFilter(f.id)} className={`px-5 py-3 rounded-full whitespace-nowrap font-black text-[10px] uppercase tracking-widest ${caseFilter === f.id ? 'bg-emerald-600 text-white' : (isDarkMode ? 'bg-slate-800 text-slate-400' : 'bg-white text-slate-500 shadow')}`}>
+                         {f.label}
+                      </button>
+                    ))}
+                 </div>
+              )}
               <div className="space-y-6">
-                 {state.diagnosticHistory.map((c) => (
-                   <div key={c.id} className={`${cardClasses} p-8 rounded-[3rem] space-y-6`}>
+                 {visibleCases.map((c) => (
+                   <div key={c.id} ref={c.id === focusedCaseId ? focusedCaseRef : undefined} className={`${cardClasses} p-8 rounded-[3rem] space-y-6 ${c.id === focusedCaseId ? 'ring-4 ring-emerald-500/40' : ''}`}>
                       <div className="flex justify-between items-start border-b border-slate-100 dark:border-slate-700 pb-6">
                          <div>
                             <p className="text-[10px] font-black text-emerald-600 uppercase tracking-widest mb-1">{c.timestamp}</p>
                             <h3 className={`text-2xl font-black ${textClasses} tracking-tight`}>{c.cropNickname}</h3>
+                            {c.status === 'pending' && (
+                              <span className="inline-block mt-2 px-3 py-1 rounded-full bg-amber-100 text-amber-700 text-[9px] font-black uppercase tracking-widest">⏳ Pending • sends when online</span>
+                            )}
+                            {c.failure && (
+                              <span className="inline-block mt-2 mr-2 px-3 py-1 rounded-full bg-rose-100 text-rose-700 text-[9px] font-black uppercase tracking-widest">⚠️ Not answered</span>
+                            )}
+                            {c.provisional && (
+                              <span className="inline-block mt-2 mr-2 px-3 py-1 rounded-full bg-sky-100 text-sky-700 text-[9px] font-black uppercase tracking-widest">{t.provisional}</span>
+                            )}
+                            {c.resolution && (
+                              <span className="inline-block mt-2 px-3 py-1 rounded-full bg-emerald-100 text-emerald-700 text-[9px] font-black uppercase tracking-widest">✅ Resolved</span>
+                            )}
                          </div>
                          {c.imageUrl && <img src={c.imageUrl} className="w-16 h-16 rounded-2xl object-cover" alt="Symptom" />}
                       </div>
-                      <button onClick={() => speakResult(c.diagnosis)} className={`w-full py-4 rounded-2xl flex items-center justify-center gap-3 font-black text-[10px] uppercase tracking-widest bg-slate-100 dark:bg-slate-700 text-emerald-600`}>
-                         Read Aloud 🔊
-                      </button>
+                      {c.structured ? (
+                        <DiagnosisReport diagnosis={c.structured} language={state.language} isDarkMode={isDarkMode} />
+                      ) : c.diagnosis && (
+                        <p className={`text-[13px] font-bold leading-relaxed whitespace-pre-wrap ${subTextClasses} line-clamp-6`}>{c.diagnosis}</p>
+                      )}
+                      <div className="grid grid-cols-2 gap-3">
+                         <button disabled={c.status === 'pending'} onClick={() => speakResult(c.structured ? formatDiagnosis(c.structured, state.language) : c.diagnosis)} className={`w-full py-4 rounded-2xl flex items-center justify-center gap-3 font-black text-[10px] uppercase tracking-widest bg-slate-100 dark:bg-slate-700 text-emerald-600 disabled:opacity-40`}>
+                            Read Aloud 🔊
+                         </button>
+                         <button onClick={() => navigate({ view: 'case', caseId: c.id })} className="w-full py-4 rounded-2xl flex items-center justify-center gap-3 font-black text-[10px] uppercase tracking-widest bg-emerald-600 text-white">
+                            Follow Up 💬{c.thread?.length ? ` (${c.thread.length})` : ''}
+                         </button>
+                      </div>
                    </div>
                  ))}
               </div>
            </div>
         )}
 
+        {view === 'case' && selectedCase && (
+           <CaseThread
+             diagnosticCase={selectedCase}
+             language={state.language}
+             isDarkMode={isDarkMode}
+             isOnline={state.isOnline}
+             isSending={sendingCaseId === selectedCase.id}
+             onBack={() => back({ view: 'caseLog', caseId: selectedCase.id })}
+             onSend={(text, imageUrl) => sendFollowUp(selectedCase, text, imageUrl)}
+             onRetry={() => retryFollowUps(selectedCase)}
+             onResolve={(treatment) => updateCase(selectedCase.id, c => ({ ...c, resolution: { resolvedAt: new Date().toISOString(), treatment } }))}
+             onReopen={() => updateCase(selectedCase.id, c => ({ ...c, resolution: undefined }))}
+             failureMessage={selectedCase.failure && aiErrorMessage(selectedCase.failure)}
+             onConfirmWithExpert={() => confirmWithExpert(selectedCase)}
+             onCancelRequest={() => caseRequestsRef.current.get(selectedCase.id)?.abort()}
+             {...taskProps(selectedCase)}
+           />
+        )}
+
         {view === 'library' && (
            <div className="p-6 space-y-10 animate-in fade-in duration-500">
               <h2 className={`text-4xl font-black ${textClasses} tracking-tighter`}>Library</h2>
@@ -428,11 +888,18 @@ const App: React.FC = () => {
         {view === 'diagnostics' && (
            <div className="p-6 space-y-10 animate-in slide-in-from-bottom-8 duration-500">
               <div className="flex items-center gap-5">
-                 <button onClick={() => setView('home')} className={`${isDarkMode ? 'bg-slate-800' : 'bg-white'} w-14 h-14 rounded-2xl shadow-xl flex items-center justify-center`}>←</button>
+                 <button onClick={() => back(HOME_ROUTE)} className={`${isDarkMode ? 'bg-slate-800' : 'bg-white'} w-14 h-14 rounded-2xl shadow-xl flex items-center justify-center`}>←</button>
                  <h2 className={`text-4xl font-black ${textClasses} tracking-tighter`}>Expert</h2>
               </div>
               
               <div className={`${cardClasses} p-10 rounded-[4rem] space-y-10`}>
+                 <div className="space-y-3">
+                    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-2">Affected Field</p>
+                    <select value={diagCropId} onChange={(e) => navigate({ view: 'diagnostics', cropId: e.target.value || undefined }, { replace: true })} className={`w-full p-6 border-2 rounded-[2rem] font-bold ${isDarkMode ? 'bg-slate-700 text-slate-100' : ''}`}>
+                       <option value="">No specific field</option>
+                       {activeCrops.map(c => <option key={c.id} value={c.id}>{CROP_ICONS[c.type]} {c.nickname}</option>)}
+                    </select>
+                 </div>
                  <div className="bg-emerald-50 dark:bg-emerald-900/20 p-8 rounded-[2.5rem] relative">
                     <button 
                       onMouseDown={() => startListening('diagnostics')} 
@@ -448,23 +915,83 @@ const App: React.FC = () => {
                     className={`w-full p-8 ${isDarkMode ? 'bg-slate-700 text-slate-100' : 'bg-slate-50 text-slate-800'} border-2 rounded-[3rem] font-bold text-lg min-h-[160px]`}
                  />
                  <button 
+                   disabled={isThinking}
                    onClick={async () => {
+                     if (consultAbortRef.current) return;
+                     const context = diagCrop ? buildDiagnosticContext(diagCrop, state) : GENERIC_CONTEXT;
+                     if (!navigator.onLine) {
+                       await queueConsultation(context);
+                       return;
+                     }
+                     const controller = new AbortController();
+                     consultAbortRef.current = controller;
+                     setDiagResult(null);
+                     setDiagCaseId(null);
+                     setDiagMessage(null);
                      setIsThinking(true);
-                     const res = await getDiagnosticAdvice("Crop", "Active", diagText, diagImage?.split(',')[1]);
-                     setDiagResult(res); 
+                     const res = await getDiagnosticAdvice(context, diagText, diagImage?.split(',')[1], state.language, controller.signal);
+                     consultAbortRef.current = null;
                      setIsThinking(false);
-                     if (res) saveDiagnostic("Expert Consult", diagText, res, diagImage || undefined);
+                     if (res.ok) {
+                       setDiagResult(res.value);
+                       setDiagCaseId(saveDiagnostic(diagCrop, context, diagText, res.value, diagImage || undefined).id);
+                     } else if (res.error === 'offline') {
+                       // Connection dropped mid-request
+                       await queueConsultation(context);
+                     } else {
+                       setDiagMessage(aiErrorMessage(res.error));
+                     }
                    }}
-                   className="w-full py-8 bg-emerald-600 text-white rounded-[3rem] font-black uppercase"
+                   className="w-full py-8 bg-emerald-600 text-white rounded-[3rem] font-black uppercase disabled:opacity-60"
                  >
                    {isThinking ? 'Thinking...' : 'Consult AI Expert'}
                  </button>
+                 {isThinking && (
+                   <button onClick={() => consultAbortRef.current?.abort()} className="w-full py-4 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                     {t.cancel}
+                   </button>
+                 )}
+              </div>
+              {/* Offline Symptom Check */}
+              <div className={`${cardClasses} p-10 rounded-[4rem] space-y-6 ${!state.isOnline ? 'ring-4 ring-amber-400/40' : ''}`}>
+                 {isCheckingSymptoms && diagCrop ? (
+                   <SymptomKeyWizard
+                     key={diagCrop.id}
+                     crop={diagCrop}
+                     stage={calculateGrowthStage(diagCrop.type, diagCrop.sowingDate, state.weatherHistory)}
+                     language={state.language}
+                     isDarkMode={isDarkMode}
+                     onCancel={() => setIsCheckingSymptoms(false)}
+                     onComplete={(diagnosis, description) => {
+                       const context = buildDiagnosticContext(diagCrop, state);
+                       const saved = saveDiagnostic(diagCrop, context, [diagText, description].filter(Boolean).join('\n'), diagnosis, diagImage || undefined, { provisional: true });
+                       setDiagResult(diagnosis);
+                       setDiagCaseId(saved.id);
+                       setDiagMessage(t.provisionalResult);
+                       setIsCheckingSymptoms(false);
+                     }}
+                   />
+                 ) : (
+                   <>
+                     <div>
+                        <p className="text-[10px] font-black text-amber-600 uppercase tracking-widest mb-2">{state.isOnline ? t.noSignal : t.offline}</p>
+                        <h3 className={`text-2xl font-black ${textClasses} tracking-tight`}>{t.symptomCheck}</h3>
+                        <p className={`text-xs font-bold ${subTextClasses} mt-2`}>{t.symptomCheckHint}</p>
+                     </div>
+                     <button disabled={!diagCrop} onClick={() => { setDiagResult(null); setDiagCaseId(null); setDiagMessage(null); setIsCheckingSymptoms(true); }} className="w-full py-6 bg-amber-500 text-white rounded-[2.5rem] font-black uppercase text-xs tracking-widest disabled:opacity-40">
+                        {diagCrop ? t.startSymptomCheck : t.pickFieldFirst}
+                     </button>
+                   </>
+                 )}
               </div>
               {diagResult && (
-                 <div className={`${cardClasses} p-12 rounded-[4rem] relative`}>
-                    <div className={`prose prose-sm font-bold text-[13px] leading-relaxed whitespace-pre-wrap ${textClasses}`}>
-                       {diagResult}
-                    </div>
+                 <div className={`${cardClasses} p-10 rounded-[4rem] relative`}>
+                    <DiagnosisReport diagnosis={diagResult} language={state.language} isDarkMode={isDarkMode} {...taskProps(state.diagnosticHistory.find(c => c.id === diagCaseId))} />
+                 </div>
+              )}
+              {diagMessage && (
+                 <div className={`${cardClasses} p-10 rounded-[3rem]`}>
+                    <p className={`font-bold text-[13px] leading-relaxed ${textClasses}`}>{diagMessage}</p>
                  </div>
               )}
            </div>
@@ -474,11 +1001,11 @@ const App: React.FC = () => {
            <div className="p-6 space-y-10">
               <div className="flex justify-between items-end">
                  <h2 className={`text-4xl font-black ${textClasses} tracking-tighter leading-none`}>Lands</h2>
-                 <button onClick={() => setView('add')} className="w-16 h-16 bg-emerald-600 text-white rounded-[2rem] shadow-3xl flex items-center justify-center text-4xl">+</button>
+                 <button onClick={() => navigate({ view: 'add' })} className="w-16 h-16 bg-emerald-600 text-white rounded-[2rem] shadow-3xl flex items-center justify-center text-4xl">+</button>
               </div>
               <div className="grid gap-8">
-                 {state.crops.map((c, i) => (
-                   <div key={c.id} onClick={() => { setSelectedCropId(c.id); setView('detail'); }} className={`${cardClasses} rounded-[3rem] p-10 flex gap-6 items-center`}>
+                 {activeCrops.map((c, i) => (
+                   <div key={c.id} onClick={() => navigate({ view: 'detail', cropId: c.id })} className={`${cardClasses} rounded-[3rem] p-10 flex gap-6 items-center`}>
                       <div className="w-20 h-20 bg-emerald-50 dark:bg-emerald-900/30 rounded-3xl flex items-center justify-center text-5xl shrink-0">{CROP_ICONS[c.type]}</div>
                       <div>
                          <h3 className={`text-2xl font-black ${textClasses}`}>{c.nickname}</h3>
@@ -487,6 +1014,27 @@ const App: React.FC = () => {
                    </div>
                  ))}
               </div>
+              {activeCrops.length > 0 && <OfflineMap crops={activeCrops} cases={state.diagnosticHistory} language={state.language} isDarkMode={isDarkMode} />}
+              {archivedCrops.length > 0 && (
+                 <div className="space-y-4">
+                    <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-[0.3em] px-2">Archived Seasons</h3>
+                    {archivedCrops.map(c => (
+                      <div key={c.id} onClick={() => navigate({ view: 'detail', cropId: c.id })} className={`${cardClasses} rounded-[2.5rem] p-6 flex gap-5 items-center opacity-60`}>
+                         <span className="text-3xl">{CROP_ICONS[c.type]}</span>
+                         <div>
+                            <h3 className={`text-lg font-black ${textClasses}`}>{c.nickname}</h3>
+                            <p className={`text-xs font-bold ${subTextClasses}`}>{c.type} • {parseISODate(c.sowingDate).toLocaleDateString()}</p>
+                         </div>
+                      </div>
+                    ))}
+                 </div>
+              )}
+              {state.crops.some(c => c.boundary) && (
+                 <div className="grid grid-cols-2 gap-3">
+                    <button onClick={() => downloadFile('agrisynch-fields.geojson', 'application/geo+json', fieldsToGeoJSON(state.crops))} className={`${cardClasses} py-5 rounded-2xl font-black uppercase text-[10px] tracking-widest text-emerald-600`}>⬇️ GeoJSON</button>
+                    <button onClick={() => downloadFile('agrisynch-fields.kml', 'application/vnd.google-earth.kml+xml', fieldsToKML(state.crops))} className={`${cardClasses} py-5 rounded-2xl font-black uppercase text-[10px] tracking-widest text-emerald-600`}>⬇️ KML</button>
+                 </div>
+              )}
            </div>
         )}
 
@@ -500,7 +1048,7 @@ const App: React.FC = () => {
                       <div className={`absolute top-1 w-6 h-6 rounded-full bg-white transition-transform ${isDarkMode ? 'translate-x-7' : 'translate-x-1'}`}></div>
                    </button>
                 </div>
-                <button onClick={() => setView('privacy')} className="w-full flex items-center justify-between p-5 rounded-2xl bg-slate-50 dark:bg-slate-700">
+                <button onClick={() => navigate({ view: 'privacy' })} className="w-full flex items-center justify-between p-5 rounded-2xl bg-slate-50 dark:bg-slate-700">
                    <p className={`font-black ${textClasses}`}>PIN & Data Privacy</p>
                    <span className="text-emerald-500 text-xl">🛡️</span>
                 </button>
@@ -510,42 +1058,70 @@ const App: React.FC = () => {
 
         {view === 'add' && (
            <div className="p-6 space-y-10">
-              <h2 className={`text-4xl font-black ${textClasses} tracking-tighter`}>New Plot</h2>
-              <form onSubmit={(e) => {
+              <h2 className={`text-4xl font-black ${textClasses} tracking-tighter`}>{editingCrop ? t.editPlot : t.newPlot}</h2>
+              <form key={editingCrop?.id || 'new'} onSubmit={(e) => {
                   e.preventDefault();
                   const f = new FormData(e.currentTarget);
                   const newCrop: FarmerCrop = {
-                    id: Date.now().toString(),
+                    ...editingCrop,
+                    id: editingCrop?.id || Date.now().toString(),
                     nickname: f.get('nickname') as string,
                     type: f.get('type') as CropType,
                     sowingDate: f.get('sowingDate') as string,
                     soilType: f.get('soilType') as SoilType,
-                    region: 'Default'
+                    region: f.get('region') as string,
+                    location: readLocation(f),
+                    area: Number(f.get('areaValue')) > 0 ? { value: Number(f.get('areaValue')), unit: f.get('areaUnit') as AreaUnit } : undefined,
+                    soilTest: readSoilTest(f)
                   };
-                  setState(p => ({ ...p, crops: [...p.crops, newCrop] }));
-                  setView('crops');
+                  if (editingCrop) {
+                    updateCrop(editingCrop.id, newCrop);
+                    navigate({ view: 'detail', cropId: editingCrop.id }, { replace: true });
+                  } else {
+                    setState(p => ({ ...p, crops: [...p.crops, newCrop] }));
+                    navigate({ view: 'crops' }, { replace: true });
+                  }
                 }} className={`${cardClasses} p-10 rounded-[4rem] space-y-10`}>
-                 <input name="nickname" required placeholder="Field Name" className="w-full p-8 border-2 rounded-[2.5rem] font-bold text-lg" />
-                 <select name="type" className="w-full p-6 border-2 rounded-[2rem] font-bold">
+                 <input name="nickname" required defaultValue={editingCrop?.nickname} placeholder="Field Name" className="w-full p-8 border-2 rounded-[2.5rem] font-bold text-lg" />
+                 <select name="type" defaultValue={editingCrop?.type} className="w-full p-6 border-2 rounded-[2rem] font-bold">
                     {Object.values(CropType).map(v => <option key={v} value={v}>{v.toUpperCase()}</option>)}
                  </select>
-                 <select name="soilType" className="w-full p-6 border-2 rounded-[2rem] font-bold">
-                    {Object.values(SoilType).map(v => <option key={v} value={v}>{v.toUpperCase()}</option>)}
-                 </select>
-                 <input name="sowingDate" type="date" required className="w-full p-8 border-2 rounded-[2.5rem] font-bold" />
-                 <button type="submit" className="w-full py-8 bg-emerald-600 text-white rounded-[2.5rem] font-black uppercase">Register</button>
+                 <FieldLocationInput crop={editingCrop} language={state.language} isDarkMode={isDarkMode} />
+                 <input name="sowingDate" type="date" required defaultValue={editingCrop?.sowingDate} className="w-full p-8 border-2 rounded-[2.5rem] font-bold" />
+                 <div className="flex gap-3">
+                    <input name="areaValue" type="number" min="0" step="0.01" defaultValue={editingCrop?.area?.value} placeholder="Field Area" className="flex-1 min-w-0 p-6 border-2 rounded-[2rem] font-bold" />
+                    <select name="areaUnit" defaultValue={editingCrop?.area?.unit || 'acre'} className="p-6 border-2 rounded-[2rem] font-bold">
+                       {(Object.keys(AREA_UNIT_HECTARES) as AreaUnit[]).map(u => <option key={u} value={u}>{u.toUpperCase()}</option>)}
+                    </select>
+                 </div>
+                 <div className="space-y-3">
+                    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-2">Soil Test kg/ha (optional)</p>
+                    <div className="grid grid-cols-3 gap-3">
+                       {(['n', 'p', 'k'] as const).map(nutrient => (
+                         <input key={nutrient} name={`soil_${nutrient}`} type="number" min="0" defaultValue={editingCrop?.soilTest?.[nutrient]} placeholder={nutrient.toUpperCase()} className="w-full min-w-0 p-5 border-2 rounded-[1.5rem] font-bold text-center" />
+                       ))}
+                    </div>
+                 </div>
+                 <button type="submit" className="w-full py-8 bg-emerald-600 text-white rounded-[2.5rem] font-black uppercase">{editingCrop ? 'Save Changes' : 'Register'}</button>
               </form>
            </div>
         )}
 
         {view === 'detail' && selectedCrop && (
-           <div className="p-6 space-y-10">
-              <h2 className={`text-3xl font-black ${textClasses}`}>{selectedCrop.nickname}</h2>
-              <div className="bg-emerald-950 text-white rounded-[4rem] p-12">
-                 <span className="text-8xl block mb-6">{CROP_ICONS[selectedCrop.type]}</span>
-                 <p className="text-emerald-400 font-bold uppercase tracking-[0.4em] text-[10px]">{selectedCrop.type}</p>
-              </div>
-           </div>
+           <CropDetail
+             crop={selectedCrop}
+             state={state}
+             insights={insights}
+             icon={CROP_ICONS[selectedCrop.type]}
+             isDarkMode={isDarkMode}
+             onBack={() => back({ view: 'crops' })}
+             onEdit={(id) => navigate({ view: 'add', cropId: id })}
+             onDelete={deleteCrop}
+             onToggleArchive={(id) => updateCrop(id, { archived: !selectedCrop.archived })}
+             onUpdate={updateCrop}
+             onLogIrrigation={logIrrigation}
+             onOpenCase={(caseId) => navigate({ view: 'case', caseId })}
+           />
         )}
 
         {view === 'privacy' && (
@@ -593,12 +1169,18 @@ const App: React.FC = () => {
                 {assistantStatus === 'listening' ? "I'm listening..." : assistantStatus === 'thinking' ? "Processing your request..." : assistantStatus === 'speaking' ? "Responding..." : "Ready"}
               </h3>
               <p className="text-white/60 font-bold italic text-lg line-clamp-3">
-                {assistantText || (assistantStatus === 'listening' ? "Try: 'Show my crops' or 'How is the weather?'" : "")}
+                {assistantText || (assistantStatus === 'listening' ? t.assistantHint : "")}
               </p>
+              {pendingWrite && assistantStatus !== 'listening' && (
+                <div className="flex gap-4 justify-center pt-4">
+                  <button onClick={() => resolvePendingWrite(true)} className="px-8 py-4 bg-emerald-500 rounded-full text-white font-black uppercase tracking-widest text-xs">{t.assistantConfirm}</button>
+                  <button onClick={() => resolvePendingWrite(false)} className="px-8 py-4 bg-white/10 border border-white/20 rounded-full text-white font-black uppercase tracking-widest text-xs">{t.cancel}</button>
+                </div>
+              )}
            </div>
            
            <button 
-             onClick={() => setIsAssistantActive(false)}
+             onClick={() => { setPendingWrite(null); setIsAssistantActive(false); }}
              className="mt-20 px-10 py-4 bg-white/10 border border-white/20 rounded-full text-white font-black uppercase tracking-widest text-xs hover:bg-white/20"
            >
              Close Assistant
@@ -613,11 +1195,11 @@ const App: React.FC = () => {
           { id: 'diagnostics', icon: '🧪', label: 'Expert' },
           { id: 'library', icon: '📖', label: 'Library' },
           { id: 'settings', icon: '⚙️', label: 'Menu' },
-        ].map(item => (
+        ].map((item: { id: AppView, icon: string, label: string }) => (
           <button 
             key={item.id} 
-            onClick={() => setView(item.id as any)} 
-            className={`flex flex-col items-center gap-2 transition-all duration-300 active:scale-90 hover:scale-110 ${view === item.id || (view === 'caseLog' && item.id === 'home') || (view === 'privacy' && item.id === 'settings') ? (isDarkMode ? 'text-emerald-400' : 'text-emerald-700') : (isDarkMode ? 'text-slate-500 opacity-60' : 'text-slate-300 opacity-60 grayscale')}`}
+            onClick={() => navigate({ view: item.id })} 
+            className={`flex flex-col items-center gap-2 transition-all duration-300 active:scale-90 hover:scale-110 ${view === item.id || ((view === 'caseLog' || view === 'case') && item.id === 'home') || (view === 'privacy' && item.id === 'settings') ? (isDarkMode ? 'text-emerald-400' : 'text-emerald-700') : (isDarkMode ? 'text-slate-500 opacity-60' : 'text-slate-300 opacity-60 grayscale')}`}
           >
             <span className="text-3xl">{item.icon}</span>
             <span className="text-[10px] font-black uppercase tracking-tighter">{item.label}</span>
@@ -0,0 +1,188 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DiagnosticCase, Language } from '../types';
+import DiagnosisReport from './DiagnosisReport';
+
+interface CaseThreadProps {
+  diagnosticCase: DiagnosticCase;
+  language: Language;
+  isDarkMode: boolean;
+  isOnline: boolean;
+  isSending: boolean;
+  // Set when the outbox gave up on this case's request
+  failureMessage?: string;
+  onBack: () => void;
+  onSend: (text: string, imageUrl?: string) => void;
+  // Resends follow-ups whose send failed
+  onRetry: () => void;
+  onResolve: (treatment: string) => void;
+  onReopen: () => void;
+  onConfirmWithExpert: () => void;
+  onCancelRequest: () => void;
+  onCreateTasks?: () => void;
+  tasksAdded?: boolean;
+}
+
+const readImage = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const CaseThread: React.FC<CaseThreadProps> = ({
+  diagnosticCase, language, isDarkMode, isOnline, isSending, failureMessage, onBack, onSend, onRetry, onResolve, onReopen, onConfirmWithExpert, onCancelRequest, onCreateTasks, tasksAdded
+}) => {
+  const [draft, setDraft] = useState('');
+  const [photo, setPhoto] = useState<string | null>(null);
+  const [isResolving, setIsResolving] = useState(false);
+  const threadEndRef = useRef<HTMLDivElement>(null);
+
+  const cardClasses = isDarkMode ? 'bg-slate-800 border-slate-700 shadow-emerald-950/20' : 'bg-white border-slate-100 shadow-xl';
+  const textClasses = isDarkMode ? 'text-slate-100' : 'text-slate-900';
+  const subTextClasses = isDarkMode ? 'text-slate-400' : 'text-slate-500';
+  const inputClasses = isDarkMode ? 'bg-slate-700 text-slate-100' : 'bg-slate-50 text-slate-800';
+  const thread = diagnosticCase.thread || [];
+  const isResolved = !!diagnosticCase.resolution;
+  const canChat = diagnosticCase.status !== 'pending' && !isResolved;
+
+  // Bring the newest message into view when one arrives, but leave the scroll alone otherwise
+  useEffect(() => {
+    if (thread.length) threadEndRef.current?.scrollIntoView({ block: 'end', behavior: 'smooth' });
+  }, [thread.length]);
+
+  return (
+    <div className="p-6 space-y-8 animate-in slide-in-from-right duration-500">
+      <div className="flex items-center gap-5">
+        <button onClick={onBack} className={`${isDarkMode ? 'bg-slate-800' : 'bg-white'} w-14 h-14 rounded-2xl shadow-xl flex items-center justify-center shrink-0`}>←</button>
+        <div className="min-w-0">
+          <h2 className={`text-3xl font-black ${textClasses} tracking-tighter truncate`}>{diagnosticCase.cropNickname}</h2>
+          <p className="text-[10px] font-black text-emerald-600 uppercase tracking-widest mt-1">{diagnosticCase.timestamp}</p>
+        </div>
+      </div>
+
+      {failureMessage && diagnosticCase.status !== 'pending' && (
+        <div className="bg-rose-50 dark:bg-rose-900/20 p-6 rounded-[2.5rem] space-y-4">
+          <p className="text-[10px] font-black text-rose-700 uppercase tracking-widest">⚠️ The expert could not answer</p>
+          <p className={`text-xs font-bold ${subTextClasses}`}>{failureMessage}</p>
+          {!diagnosticCase.provisional && (
+            <button onClick={onConfirmWithExpert} disabled={isSending} className="w-full py-4 rounded-2xl bg-rose-600 text-white font-black uppercase text-[10px] tracking-widest disabled:opacity-40">
+              {isSending ? 'Asking expert...' : isOnline ? 'Try again' : 'Try again when online'}
+            </button>
+          )}
+        </div>
+      )}
+
+      {diagnosticCase.provisional && (
+        <div className="bg-sky-50 dark:bg-sky-900/20 p-6 rounded-[2.5rem] space-y-4">
+          <p className="text-[10px] font-black text-sky-700 uppercase tracking-widest">Provisional • offline symptom check</p>
+          {diagnosticCase.status === 'pending' ? (
+            <p className={`text-xs font-bold ${subTextClasses}`}>Queued for the AI expert. It will replace this result when you're back online.</p>
+          ) : (
+            <button onClick={onConfirmWithExpert} disabled={isSending} className="w-full py-4 rounded-2xl bg-sky-600 text-white font-black uppercase text-[10px] tracking-widest disabled:opacity-40">
+              {isSending ? 'Asking expert...' : isOnline ? 'Confirm with AI Expert' : 'Confirm when online'}
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className={`${cardClasses} p-8 rounded-[3rem] space-y-6`}>
+        <div className="flex gap-4 items-start">
+          {diagnosticCase.imageUrl && <img src={diagnosticCase.imageUrl} className="w-16 h-16 rounded-2xl object-cover shrink-0" alt="Symptom" />}
+          <p className={`text-sm font-bold ${subTextClasses}`}>{diagnosticCase.description}</p>
+        </div>
+        {diagnosticCase.structured ? (
+          <DiagnosisReport diagnosis={diagnosticCase.structured} language={language} isDarkMode={isDarkMode} onCreateTasks={onCreateTasks} tasksAdded={tasksAdded} />
+        ) : (
+          <p className={`text-[13px] font-bold leading-relaxed whitespace-pre-wrap ${textClasses}`}>
+            {diagnosticCase.status === 'pending' ? 'Waiting for a connection to reach the expert.' : diagnosticCase.diagnosis}
+          </p>
+        )}
+      </div>
+
+      {/* Follow-up Thread */}
+      <section className="space-y-4">
+        {thread.map(m => (
+          <div key={m.id} className={`flex ${m.role === 'farmer' ? 'justify-end' : 'justify-start'}`}>
+            <div className={`max-w-[85%] p-5 rounded-[2rem] space-y-3 ${m.role === 'farmer' ? 'bg-emerald-600 text-white rounded-br-lg' : `${cardClasses} ${textClasses} rounded-bl-lg`}`}>
+              {m.imageUrl && <img src={m.imageUrl} className="w-full max-h-48 rounded-2xl object-cover" alt="Follow-up" />}
+              {m.text && <p className="text-sm font-bold whitespace-pre-wrap leading-relaxed">{m.text}</p>}
+              <p className={`text-[8px] font-black uppercase tracking-widest ${m.role === 'farmer' ? 'text-white/60' : 'text-slate-400'}`}>
+                {m.failed ? '⚠️ Not sent' : m.pending ? '⏳ Sends when online' : m.timestamp}
+              </p>
+            </div>
+          </div>
+        ))}
+        {!isSending && isOnline && thread.some(m => m.failed) && (
+          <button onClick={onRetry} className="w-full py-4 rounded-2xl bg-rose-50 dark:bg-rose-900/20 text-rose-600 font-black uppercase text-[10px] tracking-widest">Retry sending</button>
+        )}
+        {isSending && (
+          <div className="flex justify-between items-center px-2">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest animate-pulse">Expert is typing...</p>
+            <button onClick={onCancelRequest} className="text-[10px] font-black text-rose-500 uppercase tracking-widest">Cancel</button>
+          </div>
+        )}
+        <div ref={threadEndRef} />
+      </section>
+
+      {canChat && (
+        <form onSubmit={(e) => {
+          e.preventDefault();
+          if (!draft.trim() && !photo) return;
+          onSend(draft.trim(), photo || undefined);
+          setDraft('');
+          setPhoto(null);
+        }} className={`${cardClasses} p-5 rounded-[2.5rem] space-y-4`}>
+          {photo && (
+            <div className="relative w-20">
+              <img src={photo} className="w-20 h-20 rounded-2xl object-cover" alt="Attachment" />
+              <button type="button" onClick={() => setPhoto(null)} className="absolute -top-2 -right-2 w-6 h-6 rounded-full bg-rose-500 text-white text-xs font-black">✕</button>
+            </div>
+          )}
+          <div className="flex gap-3 items-end">
+            <label className={`w-14 h-14 rounded-2xl flex items-center justify-center text-2xl cursor-pointer shrink-0 ${inputClasses}`}>
+              📷
+              <input type="file" accept="image/*" capture="environment" className="hidden" onChange={async (e) => {
+                const file = e.target.files?.[0];
+                if (file) setPhoto(await readImage(file));
+                e.target.value = '';
+              }} />
+            </label>
+            <textarea value={draft} onChange={(e) => setDraft(e.target.value)} rows={2} placeholder="Answer or ask a follow-up..." className={`flex-1 min-w-0 p-4 rounded-2xl font-bold text-sm border-2 ${inputClasses}`} />
+            <button type="submit" disabled={isSending} className="w-14 h-14 rounded-2xl bg-emerald-600 text-white font-black shrink-0 disabled:opacity-40">➤</button>
+          </div>
+          {!isOnline && <p className="text-[9px] font-black text-amber-600 uppercase tracking-widest px-2">Offline • messages will be sent when you reconnect</p>}
+        </form>
+      )}
+
+      {/* Resolution */}
+      {isResolved ? (
+        <div className="bg-emerald-950 text-white p-8 rounded-[3rem] space-y-3">
+          <p className="text-[10px] font-black text-emerald-400 uppercase tracking-widest">✅ Resolved • {new Date(diagnosticCase.resolution!.resolvedAt).toLocaleDateString()}</p>
+          <p className="text-sm font-bold">{diagnosticCase.resolution!.treatment}</p>
+          <button onClick={onReopen} className="text-[10px] font-black text-emerald-400 uppercase tracking-widest underline">Reopen case</button>
+        </div>
+      ) : diagnosticCase.status !== 'pending' && (
+        isResolving ? (
+          <form onSubmit={(e) => {
+            e.preventDefault();
+            const treatment = (new FormData(e.currentTarget).get('treatment') as string).trim();
+            if (treatment) onResolve(treatment);
+            setIsResolving(false);
+          }} className={`${cardClasses} p-6 rounded-[2.5rem] space-y-4`}>
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-2">What treatment worked?</p>
+            <textarea name="treatment" required rows={2} className={`w-full p-4 rounded-2xl font-bold text-sm border-2 ${inputClasses}`} />
+            <div className="flex gap-3">
+              <button type="button" onClick={() => setIsResolving(false)} className={`flex-1 py-4 rounded-2xl font-black uppercase text-[10px] tracking-widest ${inputClasses}`}>Cancel</button>
+              <button type="submit" className="flex-1 py-4 rounded-2xl bg-emerald-600 text-white font-black uppercase text-[10px] tracking-widest">Mark Resolved</button>
+            </div>
+          </form>
+        ) : (
+          <button onClick={() => setIsResolving(true)} className={`${cardClasses} w-full py-5 rounded-2xl font-black uppercase text-[10px] tracking-widest text-emerald-600`}>✅ Mark Resolved</button>
+        )
+      )}
+    </div>
+  );
+};
+
+export default CaseThread;
@@ -2,7 +2,8 @@
 import React from 'react';
 import { FarmerCrop, Language, GrowthStage } from '../types';
 import { TRANSLATIONS, CROP_DATASETS } from '../constants';
-import { calculateGrowthStage } from '../services/AdvisoryEngine';
+import { calculateGrowthStage } from '../services/StageModel';
+import { parseISODate } from '../services/Dates';
 
 interface CropCardProps {
   crop: FarmerCrop;
@@ -44,7 +45,7 @@ const CropCard: React.FC<CropCardProps> = ({ crop, language, onClick }) => {
       <div className="grid grid-cols-2 gap-2 mt-3">
         <div className="bg-slate-50 p-2 rounded-lg">
           <p className="text-[10px] text-slate-400 uppercase font-bold">{t.sowingDate}</p>
-          <p className="text-xs font-medium">{new Date(crop.sowingDate).toLocaleDateString()}</p>
+          <p className="text-xs font-medium">{parseISODate(crop.sowingDate).toLocaleDateString()}</p>
         </div>
         <div className="bg-slate-50 p-2 rounded-lg">
           <p className="text-[10px] text-slate-400 uppercase font-bold">{t.soilType}</p>
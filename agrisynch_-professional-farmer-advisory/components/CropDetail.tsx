@@ -0,0 +1,379 @@
+
+import React, { useMemo, useState } from 'react';
+import { AppState, FarmerCrop, Language, OfflineInsight, InsightPriority, AreaUnit, CropDataset, SoilProfile } from '../types';
+import { CROP_DATASETS, SOIL_PROFILES, AREA_UNIT_HECTARES, FERTILIZER_PRODUCTS, TRANSLATIONS } from '../constants';
+import { calculateStageProgress, calculateSeasonTimeline } from '../services/StageModel';
+import { scheduleIrrigation } from '../services/IrrigationScheduler';
+import { REGIONS, localRegionName } from '../services/RegionService';
+import { resolveAdvisory } from '../services/RegionalAdvisory';
+import { calculateFertilizerPlan, FertilizerOptions, PhosphorusSource } from '../services/FertilizerCalculator';
+import { boundaryArea, formatArea, geodesicAreaM2 } from '../services/FieldGeometry';
+import { fitView } from '../services/MapProjection';
+import { openTasks } from '../services/FieldTasks';
+import { parseISODate, todayISO } from '../services/Dates';
+import FieldMap, { MAP_WIDTH } from './FieldMap';
+import FieldBoundaryEditor from './FieldBoundaryEditor';
+
+interface CropDetailProps {
+  crop: FarmerCrop;
+  state: AppState;
+  insights: OfflineInsight[];
+  icon: string;
+  isDarkMode: boolean;
+  onBack: () => void;
+  onEdit: (id: string) => void;
+  onDelete: (id: string) => void;
+  onToggleArchive: (id: string) => void;
+  onUpdate: (id: string, changes: Partial<FarmerCrop>) => void;
+  onLogIrrigation: (id: string, amountMm: number) => void;
+  onOpenCase: (caseId: string) => void;
+}
+
+// 1 mm of water over one acre (4046.86 m²)
+const LITRES_PER_MM_ACRE = 4047;
+
+const localName = (item: CropDataset | SoilProfile, language: Language) =>
+  language === Language.HINDI ? item.hindiName : language === Language.MARATHI ? item.marathiName : item.name;
+
+const shortDate = (iso: string) => parseISODate(iso).toLocaleDateString([], { day: '2-digit', month: 'short' });
+
+const CropDetail: React.FC<CropDetailProps> = ({
+  crop, state, insights, icon, isDarkMode,
+  onBack, onEdit, onDelete, onToggleArchive, onUpdate, onLogIrrigation, onOpenCase
+}) => {
+  const t = TRANSLATIONS[state.language];
+  const dataset = CROP_DATASETS[crop.type];
+  const soil = SOIL_PROFILES[crop.soilType];
+  const region = REGIONS.find(r => r.id === crop.region);
+  const [fertilizerOptions, setFertilizerOptions] = useState<FertilizerOptions>({ phosphorusSource: 'dap', roundToBags: false });
+  const [mappingBoundary, setMappingBoundary] = useState(false);
+
+  const cardClasses = isDarkMode ? 'bg-slate-800 border-slate-700 shadow-emerald-950/20' : 'bg-white border-slate-100 shadow-xl';
+  const textClasses = isDarkMode ? 'text-slate-100' : 'text-slate-900';
+  const subTextClasses = isDarkMode ? 'text-slate-400' : 'text-slate-500';
+  const insetClasses = isDarkMode ? 'bg-slate-700' : 'bg-slate-50';
+
+  const progress = useMemo(() =>
+    calculateStageProgress(crop.type, crop.sowingDate, state.weatherHistory, state.weatherSnapshot),
+    [crop, state.weatherHistory, state.weatherSnapshot]
+  );
+  const timeline = useMemo(() =>
+    calculateSeasonTimeline(crop.type, crop.sowingDate, state.weatherHistory, state.weatherSnapshot),
+    [crop, state.weatherHistory, state.weatherSnapshot]
+  );
+  const irrigation = useMemo(() =>
+    scheduleIrrigation(crop, state.weatherHistory, state.weatherSnapshot),
+    [crop, state.weatherHistory, state.weatherSnapshot]
+  );
+  const fertilizer = useMemo(() => calculateFertilizerPlan(crop, fertilizerOptions), [crop, fertilizerOptions]);
+
+  const fieldInsights = insights.filter(i => i.cropId === crop.id);
+  const fieldCases = state.diagnosticHistory.filter(c => c.cropId === crop.id);
+  const fieldTasks = openTasks(crop);
+  const completeTask = (taskId: string) =>
+    onUpdate(crop.id, { tasks: (crop.tasks || []).map(task => task.id === taskId ? { ...task, done: true } : task) });
+  const advisoryStages = [progress.stage, progress.nextStage].flatMap(s => s ? [resolveAdvisory(crop.type, s, crop.region)] : []);
+
+  return (
+    <div className="p-6 space-y-10 animate-in slide-in-from-right duration-500">
+      <div className="flex items-center gap-5">
+        <button onClick={onBack} className={`${isDarkMode ? 'bg-slate-800' : 'bg-white'} w-14 h-14 rounded-2xl shadow-xl flex items-center justify-center shrink-0`}>←</button>
+        <div className="min-w-0">
+          <h2 className={`text-3xl font-black ${textClasses} tracking-tighter truncate`}>{crop.nickname}</h2>
+          {crop.archived && <p className="text-[9px] font-black text-amber-600 uppercase tracking-widest mt-1">Archived</p>}
+        </div>
+      </div>
+
+      <div className="bg-emerald-950 text-white rounded-[4rem] p-10 space-y-8">
+        <div className="flex items-center gap-6">
+          <span className="text-7xl">{icon}</span>
+          <div>
+            <p className="text-emerald-400 font-bold uppercase tracking-[0.4em] text-[10px]">{localName(dataset, state.language)}</p>
+            <p className="text-sm font-bold text-white/70 mt-2">{t.sowingDate}: {parseISODate(crop.sowingDate).toLocaleDateString()}</p>
+            <p className="text-sm font-bold text-white/70">{t.region}: {region ? localRegionName(region, state.language) : crop.region}</p>
+          </div>
+        </div>
+        <div>
+          <div className="flex justify-between items-end mb-3">
+            <h3 className="text-2xl font-black capitalize">{progress.stage}</h3>
+            <p className="text-[9px] font-black text-emerald-400 uppercase tracking-widest">
+              {progress.method === 'thermal' ? `${progress.accumulatedGdd} GDD` : 'By calendar'}
+            </p>
+          </div>
+          <div className="h-3 rounded-full overflow-hidden bg-white/10">
+            <div className="h-full bg-emerald-400 rounded-full" style={{ width: `${Math.round(progress.progress * 100)}%` }}></div>
+          </div>
+          <p className="text-xs font-bold text-white/60 mt-3">
+            {Math.round(progress.progress * 100)}% through stage
+            {progress.nextStage && progress.nextStageDate && (
+              <> • <span className="capitalize">{progress.nextStage}</span> expected {shortDate(progress.nextStageDate)}</>
+            )}
+          </p>
+        </div>
+      </div>
+
+      {/* Season Timeline */}
+      <section className={`${cardClasses} p-8 rounded-[3rem]`}>
+        <p className="text-[10px] font-black text-emerald-600 uppercase tracking-widest mb-6">Season Timeline</p>
+        <div className="space-y-0">
+          {timeline.map((entry, i) => (
+            <div key={entry.stage} className="flex gap-4">
+              <div className="flex flex-col items-center">
+                <div className={`w-4 h-4 rounded-full border-2 ${entry.status === 'done' ? 'bg-emerald-500 border-emerald-500' : entry.status === 'current' ? 'bg-white border-emerald-500 ring-4 ring-emerald-500/20' : 'border-slate-300'}`}></div>
+                {i < timeline.length - 1 && <div className={`w-0.5 flex-1 min-h-[28px] ${entry.status === 'done' ? 'bg-emerald-500' : 'bg-slate-200 dark:bg-slate-700'}`}></div>}
+              </div>
+              <div className="pb-5 -mt-1 flex-1 flex justify-between">
+                <p className={`text-sm font-black capitalize ${entry.status === 'upcoming' ? subTextClasses : textClasses}`}>{entry.stage}</p>
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{shortDate(entry.startDate)}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      {/* Stage Advisories */}
+      <section className="space-y-4">
+        {advisoryStages.map((rule, i) => (
+          <div key={rule.stage} className={`${cardClasses} p-8 rounded-[3rem] space-y-5`}>
+            <p className={`text-[10px] font-black uppercase tracking-widest ${i === 0 ? 'text-emerald-600' : 'text-slate-400'}`}>
+              {i === 0 ? t.todayAdvice : 'Next Stage'} • <span className="capitalize">{rule.stage}</span>
+            </p>
+            <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">
+              {rule.sources.length
+                ? `${t.regionalGuidance}: ${rule.sources.map(r => localRegionName(r, state.language)).join(' › ')}`
+                : t.nationalGuidance}
+            </p>
+            <div className="grid grid-cols-1 gap-3">
+              {[
+                { icon: '🧪', label: t.fertilizer, value: rule.fertilizer },
+                { icon: '🦗', label: t.pest, value: rule.pestAlert },
+                { icon: '💧', label: t.irrigation, value: rule.irrigation }
+              ].map(item => (
+                <div key={item.label} className={`${insetClasses} p-4 rounded-2xl flex gap-4 items-center`}>
+                  <span className="text-xl">{item.icon}</span>
+                  <div>
+                    <p className="text-[8px] font-black text-slate-400 uppercase tracking-widest">{item.label}</p>
+                    <p className={`text-sm font-black ${textClasses}`}>{item.value}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+            {rule.tips.length > 0 && (
+              <ul className={`text-xs font-bold ${subTextClasses} space-y-1 list-disc pl-5`}>
+                {rule.tips.map(tip => <li key={tip}>{tip}</li>)}
+              </ul>
+            )}
+          </div>
+        ))}
+      </section>
+
+      {/* Field Tasks */}
+      {fieldTasks.length > 0 && (
+        <section className="space-y-4">
+          <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-[0.3em] px-2">{t.tasks}</h3>
+          {fieldTasks.map(task => (
+            <label key={task.id} className={`${cardClasses} p-6 rounded-[2.5rem] flex gap-5 items-start cursor-pointer`}>
+              <input type="checkbox" checked={false} onChange={() => completeTask(task.id)} className="w-6 h-6 mt-1 accent-emerald-600 shrink-0" />
+              <div className="flex-1 min-w-0">
+                <p className={`text-[8px] font-black uppercase tracking-widest mb-1 ${task.dueDate <= todayISO() ? 'text-rose-500' : 'text-slate-400'}`}>{shortDate(task.dueDate)}</p>
+                <h4 className={`font-black ${textClasses} text-sm`}>{task.title}</h4>
+                {task.detail && <p className="text-xs font-bold text-emerald-600 mt-1">{task.detail}</p>}
+              </div>
+            </label>
+          ))}
+        </section>
+      )}
+
+      {/* Field Insights */}
+      <section className="space-y-4">
+        <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-[0.3em] px-2">{t.insights48h}</h3>
+        {fieldInsights.length === 0 ? (
+          <div className={`${cardClasses} p-8 rounded-[2.5rem] text-center border-2 border-dashed`}>
+            <p className="text-slate-400 font-black text-xs uppercase tracking-widest">{t.noActions}</p>
+          </div>
+        ) : fieldInsights.map((ins, i) => (
+          <div key={i} className={`${cardClasses} p-6 rounded-[2.5rem] flex gap-5`}>
+            <div className={`w-12 h-12 rounded-2xl flex items-center justify-center text-xl shrink-0 ${ins.priority === InsightPriority.CRITICAL ? 'bg-rose-50 text-rose-600' : 'bg-emerald-50 text-emerald-600'}`}>
+              {ins.category === 'Weather' ? '🌪️' : ins.category === 'Pest' ? '🦗' : '🌱'}
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="text-[8px] font-black text-slate-400 uppercase tracking-widest mb-1">{ins.category} • {ins.actionDate}</p>
+              <h4 className={`font-black ${textClasses} text-sm`}>{ins.title}</h4>
+              <p className={`text-[10px] ${subTextClasses} font-bold mt-1`}>{ins.description}</p>
+            </div>
+          </div>
+        ))}
+      </section>
+
+      {irrigation && (
+        <section className={`${cardClasses} p-8 rounded-[3rem] space-y-5`}>
+          <div className="flex justify-between items-end">
+            <div>
+              <p className="text-[10px] font-black text-sky-600 uppercase tracking-widest mb-1">Water Balance</p>
+              <h3 className={`text-2xl font-black ${textClasses}`}>
+                {irrigation.daysUntilIrrigation === 0 ? 'Irrigate today' : `Irrigate in ${irrigation.daysUntilIrrigation}${irrigation.daysUntilIrrigation >= 14 ? '+' : ''} days`}
+              </h3>
+            </div>
+            <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">ETc {irrigation.todayEtcMm} mm/day</p>
+          </div>
+          <div className={`h-3 rounded-full overflow-hidden ${isDarkMode ? 'bg-slate-700' : 'bg-slate-100'}`}>
+            <div className={`h-full rounded-full ${irrigation.depletionMm >= irrigation.readilyAvailableMm ? 'bg-rose-500' : 'bg-sky-500'}`} style={{ width: `${Math.min(100, Math.round((irrigation.depletionMm / irrigation.totalAvailableMm) * 100))}%` }}></div>
+          </div>
+          <p className={`text-xs font-bold ${subTextClasses}`}>
+            {irrigation.depletionMm} of {irrigation.totalAvailableMm} mm used • Apply {irrigation.recommendedMm} mm ({Math.round(irrigation.recommendedMm * LITRES_PER_MM_ACRE / 1000)}k litres/acre)
+          </p>
+          <form onSubmit={(e) => {
+            e.preventDefault();
+            const amount = Number(new FormData(e.currentTarget).get('amountMm'));
+            if (amount > 0) onLogIrrigation(crop.id, amount);
+            e.currentTarget.reset();
+          }} className="flex gap-3">
+            <input name="amountMm" type="number" min="1" step="1" required defaultValue={irrigation.recommendedMm} className={`flex-1 min-w-0 p-4 border-2 rounded-2xl font-bold ${isDarkMode ? 'bg-slate-700 text-slate-100' : ''}`} />
+            <button type="submit" className="px-6 py-4 bg-sky-600 text-white rounded-2xl font-black uppercase text-[10px] tracking-widest">Log mm</button>
+          </form>
+        </section>
+      )}
+
+      {/* Field Boundary */}
+      <section className={`${cardClasses} p-8 rounded-[3rem] space-y-5`}>
+        <div className="flex justify-between items-end">
+          <p className="text-[10px] font-black text-emerald-600 uppercase tracking-widest">Field Map</p>
+          {crop.boundary && !mappingBoundary && (
+            <button onClick={() => setMappingBoundary(true)} className="text-[10px] font-black text-emerald-600 uppercase tracking-widest">Redraw</button>
+          )}
+        </div>
+        {mappingBoundary ? (
+          <FieldBoundaryEditor
+            crop={crop}
+            isDarkMode={isDarkMode}
+            onCancel={() => setMappingBoundary(false)}
+            onSave={(boundary) => {
+              onUpdate(crop.id, { boundary, area: boundaryArea(boundary, crop.area?.unit) });
+              setMappingBoundary(false);
+            }}
+          />
+        ) : crop.boundary ? (
+          <>
+            <FieldMap view={fitView(crop.boundary, MAP_WIDTH, 160)} height={160} shapes={[{ id: crop.id, points: crop.boundary, tone: 'field' }]} isDarkMode={isDarkMode} />
+            <p className={`text-sm font-black ${textClasses}`}>{formatArea(geodesicAreaM2(crop.boundary))}</p>
+          </>
+        ) : (
+          <button onClick={() => setMappingBoundary(true)} className={`w-full py-5 rounded-2xl border-2 border-dashed font-black uppercase text-[10px] tracking-widest ${subTextClasses}`}>
+            📐 Map field boundary
+          </button>
+        )}
+      </section>
+
+      <section className={`${cardClasses} p-8 rounded-[3rem] space-y-6`}>
+        <div className="flex justify-between items-end">
+          <div>
+            <p className="text-[10px] font-black text-amber-600 uppercase tracking-widest mb-1">Fertilizer Plan</p>
+            <h3 className={`text-2xl font-black ${textClasses}`}>
+              {crop.area ? `${crop.area.value} ${crop.area.unit}` : 'Add field area'}
+            </h3>
+          </div>
+          {fertilizer && (
+            <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">
+              N:P:K {fertilizer.target.n}:{fertilizer.target.p}:{fertilizer.target.k} kg/ha
+            </p>
+          )}
+        </div>
+        {fertilizer ? (
+          <>
+            <div className="flex gap-3">
+              <select value={fertilizerOptions.phosphorusSource} onChange={(e) => setFertilizerOptions(o => ({ ...o, phosphorusSource: e.target.value as PhosphorusSource }))} className={`flex-1 min-w-0 p-4 border-2 rounded-2xl font-bold text-xs ${isDarkMode ? 'bg-slate-700 text-slate-100' : ''}`}>
+                {(['dap', 'ssp', 'npk-10-26-26', 'npk-12-32-16'] as PhosphorusSource[]).map(id => <option key={id} value={id}>P from {FERTILIZER_PRODUCTS[id].name}</option>)}
+              </select>
+              <button onClick={() => setFertilizerOptions(o => ({ ...o, roundToBags: !o.roundToBags }))} className={`px-4 py-4 rounded-2xl font-black uppercase text-[10px] tracking-widest ${fertilizerOptions.roundToBags ? 'bg-amber-500 text-white' : (isDarkMode ? 'bg-slate-700 text-slate-300' : 'bg-slate-100 text-slate-500')}`}>
+                Bags
+              </button>
+            </div>
+            <div className="space-y-4">
+              {fertilizer.stages.map(dose => (
+                <div key={dose.stage} className={`p-5 rounded-2xl ${dose.stage === progress.stage ? 'bg-amber-50 dark:bg-amber-900/20 border-2 border-amber-300' : insetClasses}`}>
+                  <p className="text-[9px] font-black uppercase tracking-widest text-slate-400 mb-2 capitalize">{dose.stage}</p>
+                  {dose.products.map(q => (
+                    <div key={q.product} className="flex justify-between">
+                      <span className={`text-sm font-black ${textClasses}`}>{FERTILIZER_PRODUCTS[q.product].name}</span>
+                      <span className={`text-sm font-bold ${subTextClasses}`}>{q.kg} kg{q.bags !== undefined ? ` • ${q.bags} bag${q.bags === 1 ? '' : 's'}` : ''}</span>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+            <div className={`p-5 rounded-2xl border-2 border-dashed ${isDarkMode ? 'border-slate-600' : 'border-slate-200'}`}>
+              <p className="text-[9px] font-black uppercase tracking-widest text-amber-600 mb-2">Season total</p>
+              {fertilizer.totals.map(q => (
+                <div key={q.product} className="flex justify-between">
+                  <span className={`text-sm font-black ${textClasses}`}>{FERTILIZER_PRODUCTS[q.product].name}</span>
+                  <span className={`text-sm font-bold ${subTextClasses}`}>{q.kg} kg{q.bags !== undefined ? ` • ${q.bags} bag${q.bags === 1 ? '' : 's'}` : ''}</span>
+                </div>
+              ))}
+            </div>
+          </>
+        ) : (
+          <form onSubmit={(e) => {
+            e.preventDefault();
+            const f = new FormData(e.currentTarget);
+            const value = Number(f.get('areaValue'));
+            if (value > 0) onUpdate(crop.id, { area: { value, unit: f.get('areaUnit') as AreaUnit } });
+          }} className="flex gap-3">
+            <input name="areaValue" type="number" min="0" step="0.01" required placeholder="Area" className={`flex-1 min-w-0 p-4 border-2 rounded-2xl font-bold ${isDarkMode ? 'bg-slate-700 text-slate-100' : ''}`} />
+            <select name="areaUnit" defaultValue="acre" className={`p-4 border-2 rounded-2xl font-bold ${isDarkMode ? 'bg-slate-700 text-slate-100' : ''}`}>
+              {(Object.keys(AREA_UNIT_HECTARES) as AreaUnit[]).map(u => <option key={u} value={u}>{u}</option>)}
+            </select>
+            <button type="submit" className="px-5 py-4 bg-amber-500 text-white rounded-2xl font-black uppercase text-[10px] tracking-widest">Save</button>
+          </form>
+        )}
+      </section>
+
+      {/* Soil Intelligence */}
+      <section className={`${cardClasses} p-8 rounded-[3rem] space-y-5`}>
+        <p className="text-[10px] font-black text-emerald-600 uppercase tracking-widest">{t.soilIntelligence}</p>
+        <h3 className={`text-2xl font-black ${textClasses}`}>{localName(soil, state.language)}</h3>
+        <div className="grid grid-cols-2 gap-3">
+          <div className={`${insetClasses} p-4 rounded-2xl`}>
+            <p className="text-[8px] font-black text-slate-400 uppercase tracking-widest">{t.retention}</p>
+            <p className={`text-sm font-black ${textClasses}`}>{soil.waterRetention}</p>
+          </div>
+          <div className={`${insetClasses} p-4 rounded-2xl`}>
+            <p className="text-[8px] font-black text-slate-400 uppercase tracking-widest">{t.fertility}</p>
+            <p className={`text-sm font-black ${textClasses}`}>{soil.fertility}</p>
+          </div>
+        </div>
+        <ul className={`text-xs font-bold ${subTextClasses} space-y-1 list-disc pl-5`}>
+          {soil.actionTips.map(tip => <li key={tip}>{tip}</li>)}
+        </ul>
+      </section>
+
+      {/* Linked Diagnostic Cases */}
+      <section className="space-y-4">
+        <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-[0.3em] px-2">{t.diagnostics}</h3>
+        {fieldCases.length === 0 ? (
+          <div className={`${cardClasses} p-8 rounded-[2.5rem] text-center border-2 border-dashed`}>
+            <p className="text-slate-400 font-black text-xs uppercase tracking-widest">No cases for this field.</p>
+          </div>
+        ) : fieldCases.map(c => (
+          <button key={c.id} onClick={() => onOpenCase(c.id)} className={`${cardClasses} w-full p-6 rounded-[2.5rem] flex gap-5 items-center text-left`}>
+            {c.imageUrl ? <img src={c.imageUrl} className="w-14 h-14 rounded-2xl object-cover shrink-0" alt="Symptom" /> : <span className="text-3xl">🧪</span>}
+            <div className="min-w-0">
+              <p className="text-[8px] font-black text-emerald-600 uppercase tracking-widest mb-1">{c.timestamp}</p>
+              <p className={`text-sm font-black ${textClasses} line-clamp-2`}>{c.description || c.diagnosis}</p>
+            </div>
+          </button>
+        ))}
+      </section>
+
+      {/* Field Actions */}
+      <section className="grid grid-cols-3 gap-3">
+        <button onClick={() => onEdit(crop.id)} className={`${cardClasses} py-5 rounded-2xl font-black uppercase text-[10px] tracking-widest text-emerald-600`}>✏️ Edit</button>
+        <button onClick={() => onToggleArchive(crop.id)} className={`${cardClasses} py-5 rounded-2xl font-black uppercase text-[10px] tracking-widest text-amber-600`}>
+          🗄️ {crop.archived ? 'Restore' : 'Archive'}
+        </button>
+        <button onClick={() => { if (confirm(`Delete ${crop.nickname}${fieldCases.length ? ` and its ${fieldCases.length} diagnostic case${fieldCases.length === 1 ? '' : 's'}` : ''}? This cannot be undone.`)) onDelete(crop.id); }} className={`${cardClasses} py-5 rounded-2xl font-black uppercase text-[10px] tracking-widest text-rose-600`}>🗑️ Delete</button>
+      </section>
+    </div>
+  );
+};
+
+export default CropDetail;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { Language, StructuredDiagnosis, DiagnosisUrgency, InterventionType } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { confidenceLabel, urgencyLabel } from '../services/DiagnosisSchema';
+
+interface DiagnosisReportProps {
+  diagnosis: StructuredDiagnosis;
+  language: Language;
+  isDarkMode: boolean;
+  // Offered when the case belongs to a field
+  onCreateTasks?: () => void;
+  tasksAdded?: boolean;
+}
+
+const URGENCY_STYLES: Record<DiagnosisUrgency, string> = {
+  'immediate': 'bg-rose-100 text-rose-700',
+  'within-week': 'bg-amber-100 text-amber-700',
+  'monitor': 'bg-emerald-100 text-emerald-700'
+};
+
+const INTERVENTION_ICONS: Record<InterventionType, string> = {
+  organic: '🌿', chemical: '🧪', mechanical: '✂️'
+};
+
+const DiagnosisReport: React.FC<DiagnosisReportProps> = ({ diagnosis, language, isDarkMode, onCreateTasks, tasksAdded }) => {
+  const t = TRANSLATIONS[language];
+  const textClasses = isDarkMode ? 'text-slate-100' : 'text-slate-900';
+  const subTextClasses = isDarkMode ? 'text-slate-400' : 'text-slate-500';
+  const insetClasses = isDarkMode ? 'bg-slate-700' : 'bg-slate-50';
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <p className="text-[10px] font-black text-emerald-600 uppercase tracking-widest mb-2">{t.suspectedProblem}</p>
+        <h3 className={`text-2xl font-black ${textClasses} tracking-tight`}>{diagnosis.suspectedProblem}</h3>
+        <div className="flex gap-2 mt-3">
+          <span className={`px-3 py-1 rounded-full text-[9px] font-black uppercase tracking-widest ${URGENCY_STYLES[diagnosis.urgency]}`}>{t.urgency}: {urgencyLabel(diagnosis.urgency, language)}</span>
+          <span className={`px-3 py-1 rounded-full text-[9px] font-black uppercase tracking-widest ${insetClasses} ${subTextClasses}`}>{t.confidence}: {confidenceLabel(diagnosis.confidence, language)}</span>
+        </div>
+      </div>
+
+      <div>
+        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">{t.cause}</p>
+        <p className={`text-sm font-bold ${textClasses} leading-relaxed`}>{diagnosis.cause}</p>
+      </div>
+
+      <div className="space-y-3">
+        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t.interventions}</p>
+        {diagnosis.interventions.map((item, i) => (
+          <div key={i} className={`${insetClasses} p-4 rounded-2xl flex gap-4 items-start`}>
+            <span className="text-xl">{INTERVENTION_ICONS[item.type]}</span>
+            <div>
+              <p className="text-[8px] font-black text-slate-400 uppercase tracking-widest">{t[item.type]}</p>
+              <p className={`text-sm font-black ${textClasses}`}>{item.action}</p>
+              {item.dosage && <p className="text-xs font-bold text-emerald-600 mt-1">{item.dosage}</p>}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div>
+        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">{t.prevention}</p>
+        <ul className={`text-xs font-bold ${subTextClasses} space-y-1 list-disc pl-5`}>
+          {diagnosis.prevention.map((p, i) => <li key={i}>{p}</li>)}
+        </ul>
+      </div>
+
+      {onCreateTasks && (
+        <button onClick={onCreateTasks} disabled={tasksAdded} className="w-full py-4 rounded-2xl bg-emerald-600 text-white font-black uppercase text-[10px] tracking-widest disabled:opacity-40">
+          {tasksAdded ? `✅ ${t.tasksAdded}` : `📋 ${t.createTasks}`}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default DiagnosisReport;
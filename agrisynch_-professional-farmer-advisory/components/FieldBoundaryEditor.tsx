@@ -0,0 +1,110 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { FarmerCrop, GeoPoint } from '../types';
+import { MapView, fitView } from '../services/MapProjection';
+import { REGIONS, getRegionCentroid, watchLocation } from '../services/RegionService';
+import { MIN_BOUNDARY_POINTS, addWalkFix, formatArea, geodesicAreaM2 } from '../services/FieldGeometry';
+import FieldMap, { INDIA_VIEW, MAP_WIDTH } from './FieldMap';
+
+interface FieldBoundaryEditorProps {
+  crop: FarmerCrop;
+  isDarkMode: boolean;
+  onSave: (boundary: GeoPoint[]) => void;
+  onCancel: () => void;
+}
+
+const MAP_HEIGHT = 260;
+// A field-sized view around a known point, else the region, else all of India
+const FIELD_ZOOM = 17;
+const REGION_ZOOM = 9;
+
+const initialView = (crop: FarmerCrop): MapView => {
+  if (crop.boundary?.length) return fitView(crop.boundary, MAP_WIDTH, MAP_HEIGHT);
+  if (crop.location) return { center: crop.location, zoom: FIELD_ZOOM };
+  const region = REGIONS.find(r => r.id === crop.region);
+  return region ? { center: getRegionCentroid(region), zoom: REGION_ZOOM } : INDIA_VIEW;
+};
+
+/**
+ * Draws a field boundary by walking it with GPS (a corner is kept every few metres) or by
+ * tapping corners on the map, with the enclosed area shown live.
+ */
+const FieldBoundaryEditor: React.FC<FieldBoundaryEditorProps> = ({ crop, isDarkMode, onSave, onCancel }) => {
+  const [points, setPoints] = useState<GeoPoint[]>(crop.boundary || []);
+  const [view, setView] = useState<MapView>(() => initialView(crop));
+  const [position, setPosition] = useState<GeoPoint | undefined>();
+  const [walking, setWalking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const stopWalk = useRef<(() => void) | null>(null);
+
+  const stopWalking = () => {
+    stopWalk.current?.();
+    stopWalk.current = null;
+    setWalking(false);
+  };
+
+  useEffect(() => stopWalking, []);
+
+  const startWalking = () => {
+    setError(null);
+    setPoints([]);
+    setWalking(true);
+    stopWalk.current = watchLocation(
+      (fix) => {
+        setPosition(fix);
+        setView(v => ({ center: fix, zoom: Math.max(v.zoom, FIELD_ZOOM) }));
+        setPoints(p => addWalkFix(p, fix));
+      },
+      (err) => {
+        console.error("Location Failure:", err);
+        setError('GPS unavailable. Tap the corners on the map instead.');
+        stopWalking();
+      }
+    );
+  };
+
+  const areaM2 = geodesicAreaM2(points);
+  const buttonClasses = `flex-1 py-4 rounded-2xl font-black uppercase text-[10px] tracking-widest ${isDarkMode ? 'bg-slate-700 text-slate-200' : 'bg-slate-100 text-slate-600'}`;
+
+  return (
+    <div className="space-y-4">
+      <FieldMap
+        view={view}
+        onViewChange={setView}
+        onTap={walking ? undefined : (p) => setPoints(prev => [...prev, p])}
+        shapes={[{ id: 'draft', points, tone: 'draft' }]}
+        vertices={points}
+        marker={position}
+        isDarkMode={isDarkMode}
+        height={MAP_HEIGHT}
+      />
+      <p className="text-xs font-bold text-slate-400">
+        {walking ? `Walking: ${points.length} corners recorded` : 'Tap each corner of the field, or walk around it with GPS.'}
+      </p>
+      {error && <p className="text-xs font-bold text-amber-600">{error}</p>}
+      {points.length >= MIN_BOUNDARY_POINTS && (
+        <p className={`text-sm font-black ${isDarkMode ? 'text-slate-100' : 'text-slate-900'}`}>{formatArea(areaM2)}</p>
+      )}
+      <div className="flex gap-3">
+        <button type="button" onClick={walking ? stopWalking : startWalking} className={`flex-1 py-4 rounded-2xl font-black uppercase text-[10px] tracking-widest text-white ${walking ? 'bg-rose-500' : 'bg-sky-600'}`}>
+          {walking ? '■ Stop' : '🚶 Walk boundary'}
+        </button>
+        <button type="button" disabled={!points.length || walking} onClick={() => setPoints(p => p.slice(0, -1))} className={`${buttonClasses} disabled:opacity-40`}>Undo</button>
+        <button type="button" disabled={!points.length || walking} onClick={() => setPoints([])} className={`${buttonClasses} disabled:opacity-40`}>Clear</button>
+      </div>
+      <div className="flex gap-3">
+        <button type="button" onClick={() => { stopWalking(); onCancel(); }} className={buttonClasses}>Cancel</button>
+        <button
+          type="button"
+          disabled={points.length < MIN_BOUNDARY_POINTS}
+          onClick={() => { stopWalking(); onSave(points); }}
+          className="flex-1 py-4 rounded-2xl font-black uppercase text-[10px] tracking-widest bg-emerald-600 text-white disabled:opacity-40"
+        >
+          Save boundary
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default FieldBoundaryEditor;
@@ -0,0 +1,100 @@
+
+import React, { useMemo, useState } from 'react';
+import { FarmerCrop, GeoPoint, Language, SoilProfile, SoilType } from '../types';
+import { SOIL_PROFILES, TRANSLATIONS } from '../constants';
+import { detectCurrentLocation, getOfflineRegion, localRegionName, REGIONS } from '../services/RegionService';
+
+interface FieldLocationInputProps {
+  crop?: FarmerCrop;
+  language: Language;
+  isDarkMode: boolean;
+}
+
+type LocateStatus = 'idle' | 'locating' | 'found' | 'notFound';
+
+const soilName = (soil: SoilProfile, language: Language) =>
+  language === Language.HINDI ? soil.hindiName : language === Language.MARATHI ? soil.marathiName : soil.name;
+
+/**
+ * Region and soil fields of the plot form. One tap takes a GPS fix, resolves the region
+ * offline and pre-selects its usual soil; without GPS, or outside every region, the farmer
+ * picks the region by its local name. Posts `region`, `soilType` and, when known, `lat`/`lng`.
+ */
+const FieldLocationInput: React.FC<FieldLocationInputProps> = ({ crop, language, isDarkMode }) => {
+  const t = TRANSLATIONS[language];
+  const [status, setStatus] = useState<LocateStatus>('idle');
+  const [location, setLocation] = useState<GeoPoint | undefined>(crop?.location);
+  const [regionId, setRegionId] = useState(REGIONS.some(r => r.id === crop?.region) ? crop!.region : '');
+  const [soilType, setSoilType] = useState<SoilType>(crop?.soilType || SoilType.ALLUVIAL);
+  // A soil the farmer chose (or saved earlier) is never replaced by a region default
+  const [soilChosen, setSoilChosen] = useState(!!crop);
+
+  const regionOptions = useMemo(
+    () => [...REGIONS].sort((a, b) => localRegionName(a, language).localeCompare(localRegionName(b, language))),
+    [language]
+  );
+  const region = REGIONS.find(r => r.id === regionId);
+
+  const selectRegion = (id: string) => {
+    setRegionId(id);
+    const picked = REGIONS.find(r => r.id === id);
+    if (picked && !soilChosen) setSoilType(picked.defaultSoil);
+  };
+
+  const locate = async () => {
+    setStatus('locating');
+    try {
+      const point = await detectCurrentLocation();
+      setLocation(point);
+      const found = getOfflineRegion(point.lat, point.lng);
+      if (found) selectRegion(found.id);
+      setStatus(found ? 'found' : 'notFound');
+    } catch (e) {
+      console.error("Location Failure:", e);
+      setStatus('notFound');
+    }
+  };
+
+  const inputClasses = `w-full p-6 border-2 rounded-[2rem] font-bold ${isDarkMode ? 'bg-slate-800 text-slate-100' : ''}`;
+
+  return (
+    <div className="space-y-4">
+      <button
+        type="button"
+        onClick={locate}
+        disabled={status === 'locating'}
+        className="w-full py-6 rounded-[2rem] border-2 border-emerald-600 text-emerald-600 font-black uppercase tracking-widest text-xs disabled:opacity-50"
+      >
+        📍 {status === 'locating' ? t.searching : t.detectLocation}
+      </button>
+      {status === 'found' && region && (
+        <p className="text-xs font-bold text-emerald-600 px-2">{t.locationFound}: {localRegionName(region, language)}</p>
+      )}
+      {status === 'notFound' && <p className="text-xs font-bold text-amber-600 px-2">{t.regionNotDetected}</p>}
+      {location && (
+        <>
+          <input type="hidden" name="lat" value={location.lat} />
+          <input type="hidden" name="lng" value={location.lng} />
+        </>
+      )}
+
+      <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-2">{t.region}</p>
+      <select name="region" required value={regionId} onChange={e => selectRegion(e.target.value)} className={inputClasses}>
+        <option value="" disabled>{t.manualSelect}</option>
+        {regionOptions.map(r => <option key={r.id} value={r.id}>{localRegionName(r, language)}</option>)}
+      </select>
+
+      <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-2">{t.soilType}</p>
+      <select
+        name="soilType"
+        value={soilType}
+        onChange={e => { setSoilType(e.target.value as SoilType); setSoilChosen(true); }}
+        className={inputClasses}
+      >
+        {Object.values(SoilType).map(v => <option key={v} value={v}>{soilName(SOIL_PROFILES[v], language)}</option>)}
+      </select>
+    </div>
+  );
+};
+
+export default FieldLocationInput;
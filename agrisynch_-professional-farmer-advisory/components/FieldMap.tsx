@@ -0,0 +1,147 @@
+
+import React, { useRef } from 'react';
+import { GeoPoint, PestReport } from '../types';
+import { MapView, MAX_ZOOM, PixelPoint, TILE_SIZE, fromScreen, metresPerPixel, project, toScreen, unproject, visibleTiles } from '../services/MapProjection';
+import { TILE_URL_TEMPLATE, tileUrl } from '../services/OfflineTiles';
+
+export const MAP_WIDTH = 320;
+export const INDIA_VIEW: MapView = { center: { lat: 22, lng: 79 }, zoom: 4 };
+// Pointer travel under this many map pixels is a tap, not a drag
+const TAP_SLOP = 6;
+const SCALE_BAR_MAX = 80;
+
+export interface MapShape {
+  id: string;
+  points: GeoPoint[];
+  tone: 'field' | 'draft' | 'region';
+}
+
+interface FieldMapProps {
+  view: MapView;
+  shapes: MapShape[];
+  isDarkMode: boolean;
+  height?: number;
+  // Corner handles for the boundary being drawn
+  vertices?: GeoPoint[];
+  // The farmer's position
+  marker?: GeoPoint;
+  reports?: PestReport[];
+  // Given, the map can be dragged and zoomed
+  onViewChange?: (view: MapView) => void;
+  onTap?: (point: GeoPoint) => void;
+}
+
+const SHAPE_STYLES: Record<MapShape['tone'], React.SVGProps<SVGPolygonElement>> = {
+  field: { fill: 'rgba(16,185,129,0.3)', stroke: '#059669', strokeWidth: 2 },
+  draft: { fill: 'rgba(245,158,11,0.2)', stroke: '#d97706', strokeWidth: 2, strokeDasharray: '6 4' },
+  region: { fill: 'none', stroke: '#64748b', strokeWidth: 1.5, strokeDasharray: '4 4' }
+};
+
+// Longest 1, 2 or 5 × 10^n metres that fits in the scale bar
+const scaleBar = (view: MapView) => {
+  const maxMetres = metresPerPixel(view) * SCALE_BAR_MAX;
+  const magnitude = 10 ** Math.floor(Math.log10(maxMetres));
+  const metres = [5, 2, 1].map(m => m * magnitude).find(m => m <= maxMetres) || magnitude;
+  return { metres, px: metres / metresPerPixel(view), label: metres >= 1000 ? `${metres / 1000} km` : `${metres} m` };
+};
+
+/**
+ * A small Web Mercator map drawn as SVG, so it works with no network: field and region
+ * outlines, the boundary being drawn, pest reports and the farmer's position. With a tile
+ * server configured, its tiles sit underneath; the service worker serves downloaded ones offline.
+ */
+const FieldMap: React.FC<FieldMapProps> = ({ view, shapes, isDarkMode, height = 200, vertices, marker, reports, onViewChange, onTap }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const drag = useRef<{ start: PixelPoint; center: PixelPoint; moved: boolean } | null>(null);
+
+  const screen = (p: GeoPoint) => toScreen(p, view, MAP_WIDTH, height);
+  const pointsAttr = (points: GeoPoint[]) => points.map(screen).map(s => `${s.x.toFixed(1)},${s.y.toFixed(1)}`).join(' ');
+
+  const local = (e: React.PointerEvent): PixelPoint => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return { x: (e.clientX - rect.left) * MAP_WIDTH / rect.width, y: (e.clientY - rect.top) * height / rect.height };
+  };
+
+  const onPointerDown = (e: React.PointerEvent) => {
+    if (!onViewChange && !onTap) return;
+    (e.target as Element).setPointerCapture?.(e.pointerId);
+    drag.current = { start: local(e), center: project(view.center, view.zoom), moved: false };
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    if (!drag.current) return;
+    const p = local(e);
+    const dx = p.x - drag.current.start.x, dy = p.y - drag.current.start.y;
+    if (Math.hypot(dx, dy) > TAP_SLOP) drag.current.moved = true;
+    if (drag.current.moved && onViewChange) {
+      onViewChange({ zoom: view.zoom, center: unproject({ x: drag.current.center.x - dx, y: drag.current.center.y - dy }, view.zoom) });
+    }
+  };
+
+  const onPointerUp = (e: React.PointerEvent) => {
+    if (drag.current && !drag.current.moved && onTap) onTap(fromScreen(local(e), view, MAP_WIDTH, height));
+    drag.current = null;
+  };
+
+  const zoomBy = (delta: number) => onViewChange?.({ ...view, zoom: Math.max(1, Math.min(MAX_ZOOM, view.zoom + delta)) });
+  const scale = scaleBar(view);
+  const markerAt = marker && screen(marker);
+
+  return (
+    <div className="relative rounded-[2rem] overflow-hidden">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${MAP_WIDTH} ${height}`}
+        className="w-full block select-none"
+        style={{ touchAction: onViewChange || onTap ? 'none' : 'auto' }}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerCancel={() => { drag.current = null; }}
+      >
+        <rect width={MAP_WIDTH} height={height} fill={isDarkMode ? '#1e293b' : '#f1f5f9'} />
+        {TILE_URL_TEMPLATE && visibleTiles(view, MAP_WIDTH, height).map(t => (
+          <image key={`${t.z}/${t.x}/${t.y}`} href={tileUrl(t)} x={t.left} y={t.top} width={TILE_SIZE} height={TILE_SIZE} opacity={isDarkMode ? 0.7 : 1} />
+        ))}
+        {shapes.filter(s => s.points.length > 1).map(s => (
+          <polygon key={s.id} points={pointsAttr(s.points)} {...SHAPE_STYLES[s.tone]} strokeLinejoin="round" />
+        ))}
+        {vertices?.map((v, i) => {
+          const p = screen(v);
+          return <circle key={i} cx={p.x} cy={p.y} r={i === 0 ? 6 : 4} fill="#fff" stroke="#d97706" strokeWidth={2} />;
+        })}
+        {reports?.map(r => {
+          const p = screen(r.location);
+          return (
+            <g key={r.id} transform={`translate(${p.x} ${p.y})`}>
+              <title>{`${r.problem} • ${new Date(r.reportedAt).toLocaleDateString()}`}</title>
+              <circle r={9} fill={r.source === 'community' ? '#f97316' : '#e11d48'} stroke="#fff" strokeWidth={2} />
+              <text textAnchor="middle" dominantBaseline="central" fontSize={10} fontWeight={900} fill="#fff">!</text>
+            </g>
+          );
+        })}
+        {markerAt && (
+          <>
+            <circle cx={markerAt.x} cy={markerAt.y} r={10} fill="rgba(14,165,233,0.25)" />
+            <circle cx={markerAt.x} cy={markerAt.y} r={5} fill="#0ea5e9" stroke="#fff" strokeWidth={2} />
+          </>
+        )}
+        <g transform={`translate(12 ${height - 14})`}>
+          <rect x={0} y={-4} width={scale.px} height={4} fill={isDarkMode ? '#e2e8f0' : '#334155'} />
+          <text x={0} y={-8} fontSize={9} fontWeight={800} fill={isDarkMode ? '#e2e8f0' : '#334155'}>{scale.label}</text>
+        </g>
+      </svg>
+      {onViewChange && (
+        <div className="absolute top-3 right-3 flex flex-col gap-2">
+          {[1, -1].map(delta => (
+            <button key={delta} type="button" onClick={() => zoomBy(delta)} className="w-9 h-9 rounded-xl bg-white/90 text-slate-800 font-black shadow">
+              {delta > 0 ? '+' : '−'}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FieldMap;
@@ -0,0 +1,168 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { DiagnosticCase, FarmerCrop, GeoBounds, GeoPoint, Language, PestReport, Region } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { MapView, fitView } from '../services/MapProjection';
+import { REGIONS, regionOutlines } from '../services/RegionService';
+import { PEST_FEED_URL, cachedCommunityReports, fetchCommunityReports, pestReportsFromCases } from '../services/PestReports';
+import {
+  TILE_BUDGET_BYTES, TILE_URL_TEMPLATE, TileCacheUsage, TileDownloadProgress,
+  clearOfflineTiles, downloadOfflineTiles, offlineTileUsage, planOfflineTiles
+} from '../services/OfflineTiles';
+import FieldMap, { INDIA_VIEW, MAP_WIDTH, MapShape } from './FieldMap';
+
+interface OfflineMapProps {
+  crops: FarmerCrop[];
+  cases: DiagnosticCase[];
+  language: Language;
+  isDarkMode: boolean;
+}
+
+const MAP_HEIGHT = 240;
+// Fitting a single field should not zoom past what the downloaded tiles cover
+const MAX_FIT_ZOOM = 17;
+
+const megabytes = (bytes: number) => `${(bytes / 1048576).toFixed(1)} MB`;
+
+// The community feed is asked for sightings across every region the farmer has a field in
+const regionsBounds = (regions: Region[]): GeoBounds => ({
+  minLat: Math.min(...regions.map(r => r.bounds.minLat)),
+  maxLat: Math.max(...regions.map(r => r.bounds.maxLat)),
+  minLng: Math.min(...regions.map(r => r.bounds.minLng)),
+  maxLng: Math.max(...regions.map(r => r.bounds.maxLng))
+});
+
+const fieldPoints = (crop: FarmerCrop): GeoPoint[] => crop.boundary?.length ? crop.boundary : crop.location ? [crop.location] : [];
+
+/**
+ * All of the farmer's fields on one map with their regions' outlines and recent pest reports,
+ * plus the download that keeps the base map tiles for those regions on the device.
+ */
+const OfflineMap: React.FC<OfflineMapProps> = ({ crops, cases, language, isDarkMode }) => {
+  const t = TRANSLATIONS[language];
+  const regions = useMemo(
+    () => REGIONS.filter(r => crops.some(c => c.region === r.id)),
+    [crops]
+  );
+  const [communityReports, setCommunityReports] = useState<PestReport[]>([]);
+  const reports = useMemo(
+    () => [...pestReportsFromCases(cases, crops), ...communityReports].sort((a, b) => b.reportedAt.localeCompare(a.reportedAt)),
+    [cases, crops, communityReports]
+  );
+  const [view, setView] = useState<MapView>(() => {
+    const points = crops.flatMap(fieldPoints);
+    if (points.length) return fitView(points, MAP_WIDTH, MAP_HEIGHT, 24, MAX_FIT_ZOOM);
+    const corners = regions.flatMap(r => [{ lat: r.bounds.minLat, lng: r.bounds.minLng }, { lat: r.bounds.maxLat, lng: r.bounds.maxLng }]);
+    return corners.length ? fitView(corners, MAP_WIDTH, MAP_HEIGHT) : INDIA_VIEW;
+  });
+  const [usage, setUsage] = useState<TileCacheUsage | null>(null);
+  const [progress, setProgress] = useState<TileDownloadProgress | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!TILE_URL_TEMPLATE) return;
+    offlineTileUsage().then(setUsage).catch(e => console.error("Tile Cache Failure:", e));
+  }, []);
+
+  // Saved sightings first, so the map has them offline; replaced by the feed when it answers
+  const regionKey = regions.map(r => r.id).join(',');
+  useEffect(() => {
+    if (!PEST_FEED_URL || !regions.length) return;
+    const controller = new AbortController();
+    const load = async () => {
+      const saved = await cachedCommunityReports().catch(e => { console.error("Pest Feed Cache Failure:", e); return []; });
+      if (controller.signal.aborted) return;
+      setCommunityReports(saved);
+      if (!navigator.onLine) return;
+      const fresh = await fetchCommunityReports(regionsBounds(regions), controller.signal);
+      if (!controller.signal.aborted) setCommunityReports(fresh);
+    };
+    load().catch(e => { if (!controller.signal.aborted) console.error("Pest Feed Failure:", e); });
+    return () => controller.abort();
+  }, [regionKey]);
+
+  const shapes: MapShape[] = [
+    ...regions.flatMap(r => regionOutlines(r).map((points, i) => ({ id: `${r.id}-${i}`, points, tone: 'region' as const }))),
+    ...crops.filter(c => c.boundary?.length).map(c => ({ id: c.id, points: c.boundary!, tone: 'field' as const }))
+  ];
+
+  const download = async () => {
+    setMessage(null);
+    const tiles = planOfflineTiles(regions.flatMap(regionOutlines), crops.map(fieldPoints));
+    setProgress({ done: 0, failed: 0, total: tiles.length, bytes: usage?.bytes || 0 });
+    try {
+      const result = await downloadOfflineTiles(tiles, setProgress);
+      setUsage(await offlineTileUsage());
+      setMessage(result.stoppedByBudget
+        ? t.mapStorageLimit
+        : result.failed ? `${result.failed} ${t.mapTilesFailed}` : t.mapSaved);
+    } catch (e) {
+      console.error("Tile Download Failure:", e);
+      setMessage(t.mapDownloadFailed);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const clear = async () => {
+    try {
+      setUsage(await clearOfflineTiles());
+      setMessage(null);
+    } catch (e) {
+      console.error("Tile Cache Failure:", e);
+    }
+  };
+
+  const cardClasses = isDarkMode ? 'bg-slate-800 border-slate-700 shadow-emerald-950/20' : 'bg-white border-slate-100 shadow-xl';
+  const textClasses = isDarkMode ? 'text-slate-100' : 'text-slate-900';
+
+  return (
+    <section className={`${cardClasses} p-6 rounded-[3rem] space-y-5`}>
+      <p className="text-[10px] font-black text-emerald-600 uppercase tracking-widest px-2">{t.fieldMap}</p>
+      <FieldMap view={view} onViewChange={setView} shapes={shapes} reports={reports} isDarkMode={isDarkMode} height={MAP_HEIGHT} />
+
+      {reports.length > 0 && (
+        <div className="space-y-2 px-2">
+          {reports.slice(0, 5).map(r => (
+            <p key={r.id} className={`text-xs font-bold ${textClasses}`}>
+              <span className={r.source === 'community' ? 'text-orange-500' : 'text-rose-600'}>●</span> {r.problem} <span className="text-slate-400">• {r.cropType} • {new Date(r.reportedAt).toLocaleDateString()}{r.source === 'community' ? ` • ${t.nearbyFarmer}` : ''}</span>
+            </p>
+          ))}
+        </div>
+      )}
+
+      {!TILE_URL_TEMPLATE ? (
+        <p className="text-xs font-bold text-slate-400 px-2">{t.mapNotConfigured}</p>
+      ) : (
+        <div className="space-y-3 px-2">
+          <p className="text-xs font-bold text-slate-400">
+            {t.offlineMap}: {megabytes(usage?.bytes || 0)} / {megabytes(TILE_BUDGET_BYTES)}{usage ? ` • ${usage.count} ${t.mapTiles}` : ''}
+          </p>
+          {progress && (
+            <div className="h-2 rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden">
+              <div className="h-full bg-emerald-600 transition-all" style={{ width: `${progress.total ? (progress.done + progress.failed) / progress.total * 100 : 0}%` }} />
+            </div>
+          )}
+          {message && <p className={`text-xs font-bold ${textClasses}`}>{message}</p>}
+          <div className="flex gap-3">
+            <button
+              onClick={download}
+              disabled={!!progress || !regions.length}
+              className="flex-1 py-4 rounded-2xl font-black uppercase text-[10px] tracking-widest bg-emerald-600 text-white disabled:opacity-40"
+            >
+              {progress ? `${t.mapSaving} ${progress.done} / ${progress.total}` : t.mapSave}
+            </button>
+            {!!usage?.count && !progress && (
+              <button onClick={clear} className={`px-5 py-4 rounded-2xl font-black uppercase text-[10px] tracking-widest ${isDarkMode ? 'bg-slate-700 text-slate-200' : 'bg-slate-100 text-slate-600'}`}>
+                {t.mapRemove}
+              </button>
+            )}
+          </div>
+          {!regions.length && <p className="text-xs font-bold text-slate-400">{t.mapNeedsRegion}</p>}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default OfflineMap;
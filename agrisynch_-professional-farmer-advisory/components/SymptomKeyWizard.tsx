@@ -0,0 +1,81 @@
+import React, { useMemo, useState } from 'react';
+import { FarmerCrop, GrowthStage, Language, StructuredDiagnosis, SymptomAnswer, SymptomAnswerValue, SymptomCandidate } from '../types';
+import {
+  BUNDLED_SYMPTOM_KEY, candidatesFor, applyAnswers, nextQuestion, shortlist, provisionalDiagnosis, describeAnswers
+} from '../services/SymptomKey';
+
+interface SymptomKeyWizardProps {
+  crop: FarmerCrop;
+  stage: GrowthStage;
+  language: Language;
+  isDarkMode: boolean;
+  onComplete: (diagnosis: StructuredDiagnosis, description: string) => void;
+  onCancel: () => void;
+}
+
+const ANSWER_LABELS: Record<Language, Record<SymptomAnswerValue, string>> = {
+  [Language.ENGLISH]: { yes: 'Yes', no: 'No', unsure: 'Not sure' },
+  [Language.HINDI]: { yes: 'हाँ', no: 'नहीं', unsure: 'पता नहीं' },
+  [Language.MARATHI]: { yes: 'होय', no: 'नाही', unsure: 'माहीत नाही' }
+};
+
+const SymptomKeyWizard: React.FC<SymptomKeyWizardProps> = ({ crop, stage, language, isDarkMode, onComplete, onCancel }) => {
+  const [answers, setAnswers] = useState<SymptomAnswer[]>([]);
+
+  const startingSet = useMemo(() => candidatesFor(BUNDLED_SYMPTOM_KEY, crop.type, stage), [crop.type, stage]);
+  const remaining = useMemo(() => applyAnswers(startingSet, answers), [startingSet, answers]);
+  const question = useMemo(() => nextQuestion(BUNDLED_SYMPTOM_KEY, remaining, answers), [remaining, answers]);
+
+  const textClasses = isDarkMode ? 'text-slate-100' : 'text-slate-900';
+  const insetClasses = isDarkMode ? 'bg-slate-700' : 'bg-slate-50';
+  const labels = ANSWER_LABELS[language];
+
+  const choose = (candidate: SymptomCandidate) =>
+    onComplete(provisionalDiagnosis(candidate, remaining, answers, language), describeAnswers(BUNDLED_SYMPTOM_KEY, answers));
+
+  if (!startingSet.length) {
+    return <p className={`text-sm font-bold ${textClasses}`}>No offline symptom key for this crop yet.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <p className="text-[10px] font-black text-emerald-600 uppercase tracking-widest">
+          Symptom Check • <span className="capitalize">{stage}</span>
+        </p>
+        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{remaining.length} possible</p>
+      </div>
+
+      {question ? (
+        <>
+          <h3 className={`text-xl font-black ${textClasses} leading-snug`}>{question.text[language]}</h3>
+          <div className="grid grid-cols-3 gap-3">
+            {(['yes', 'no', 'unsure'] as SymptomAnswerValue[]).map(value => (
+              <button key={value} onClick={() => setAnswers(a => [...a, { questionId: question.id, answer: value }])} className={`py-5 rounded-2xl font-black uppercase text-xs tracking-widest ${value === 'yes' ? 'bg-emerald-600 text-white' : value === 'no' ? 'bg-rose-500 text-white' : `${insetClasses} text-slate-500`}`}>
+                {labels[value]}
+              </button>
+            ))}
+          </div>
+        </>
+      ) : (
+        <div className="space-y-3">
+          {shortlist(remaining).map(c => (
+            <button key={c.id} onClick={() => choose(c)} className={`${insetClasses} w-full p-5 rounded-2xl text-left`}>
+              <p className={`font-black ${textClasses}`}>{c.name[language]}</p>
+              <p className="text-xs font-bold text-slate-400 mt-1 line-clamp-2">{c.cause[language]}</p>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        <button onClick={onCancel} className={`flex-1 py-4 rounded-2xl font-black uppercase text-[10px] tracking-widest ${insetClasses} text-slate-500`}>Cancel</button>
+        {answers.length > 0 && (
+          <button onClick={() => setAnswers(a => a.slice(0, -1))} className={`flex-1 py-4 rounded-2xl font-black uppercase text-[10px] tracking-widest ${insetClasses} text-slate-500`}>← Back</button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SymptomKeyWizard;
@@ -1,35 +1,22 @@
 
-import { CropType, GrowthStage, CropDataset, Language, SoilType, SoilProfile, Region } from './types';
+import { CropType, GrowthStage, CropDataset, Language, SoilType, SoilProfile, AreaUnit, FertilizerProductId, FertilizerProduct } from './types';
 
-export const REGIONS: Region[] = [
-  {
-    id: 'vidarbha',
-    name: 'Vidarbha',
-    hindiName: 'विदर्भ',
-    marathiName: 'विदर्भ',
-    state: 'Maharashtra',
-    defaultSoil: SoilType.BLACK,
-    bounds: { minLat: 18.5, maxLat: 21.5, minLng: 76.0, maxLng: 80.5 }
-  },
-  {
-    id: 'indo-gangetic',
-    name: 'Indo-Gangetic Plains',
-    hindiName: 'सिंधु-गंगा का मैदान',
-    marathiName: 'सिंधु-गंगा मैदान',
-    state: 'North India',
-    defaultSoil: SoilType.ALLUVIAL,
-    bounds: { minLat: 23.0, maxLat: 31.0, minLng: 74.0, maxLng: 88.0 }
-  },
-  {
-    id: 'western-ghats',
-    name: 'Western Ghats',
-    hindiName: 'पश्चिमी घाट',
-    marathiName: 'पश्चिम घाट',
-    state: 'South West India',
-    defaultSoil: SoilType.LATRITE,
-    bounds: { minLat: 8.0, maxLat: 18.0, minLng: 73.0, maxLng: 77.0 }
-  }
-];
+// Hectares per local area unit. Bigha varies by state; the UP/Bihar pucca bigha is used.
+export const AREA_UNIT_HECTARES: Record<AreaUnit, number> = {
+  acre: 0.404686,
+  hectare: 1,
+  guntha: 0.0101171,
+  bigha: 0.2529
+};
+
+export const FERTILIZER_PRODUCTS: Record<FertilizerProductId, FertilizerProduct> = {
+  'urea': { id: 'urea', name: 'Urea', content: { n: 46, p: 0, k: 0 }, bagKg: 45 },
+  'dap': { id: 'dap', name: 'DAP', content: { n: 18, p: 46, k: 0 }, bagKg: 50 },
+  'ssp': { id: 'ssp', name: 'SSP', content: { n: 0, p: 16, k: 0 }, bagKg: 50 },
+  'mop': { id: 'mop', name: 'MOP', content: { n: 0, p: 0, k: 60 }, bagKg: 50 },
+  'npk-10-26-26': { id: 'npk-10-26-26', name: 'NPK 10:26:26', content: { n: 10, p: 26, k: 26 }, bagKg: 50 },
+  'npk-12-32-16': { id: 'npk-12-32-16', name: 'NPK 12:32:16', content: { n: 12, p: 32, k: 16 }, bagKg: 50 }
+};
 
 export const SOIL_PROFILES: Record<SoilType, SoilProfile> = {
   [SoilType.ALLUVIAL]: {
@@ -84,9 +71,18 @@ export const SOIL_PROFILES: Record<SoilType, SoilProfile> = {
   }
 };
 
+// stageDays: calendar days from sowing at which each stage ends (sowing..maturity).
+// thermal.stageGdd: the same boundaries as cumulative growing degree days above baseTemp (°C).
+// waterUse: FAO-56 crop coefficients per stage, mature rooting depth and allowable depletion (p).
+// nutrientTarget: recommended N:P2O5:K2O dose (kg/ha); nutrientSplit: share of each nutrient applied per stage.
 export const CROP_DATASETS: Record<CropType, CropDataset> = {
   [CropType.RICE]: {
     name: 'Rice', hindiName: 'चावल (धान)', marathiName: 'भात (धान)',
+    stageDays: [25, 60, 90, 110],
+    thermal: { baseTemp: 10, stageGdd: [420, 1020, 1530, 1870] },
+    waterUse: { kc: { [GrowthStage.SOWING]: 1.05, [GrowthStage.VEGETATIVE]: 1.1, [GrowthStage.FLOWERING]: 1.2, [GrowthStage.MATURITY]: 0.9, [GrowthStage.HARVEST]: 0 }, rootDepthM: 0.5, depletionFraction: 0.2 },
+    nutrientTarget: { n: 120, p: 60, k: 40 },
+    nutrientSplit: { [GrowthStage.SOWING]: { n: 0.5, p: 1, k: 0.5 }, [GrowthStage.VEGETATIVE]: { n: 0.25, p: 0, k: 0 }, [GrowthStage.FLOWERING]: { n: 0.25, p: 0, k: 0.5 } },
     advisories: {
       [GrowthStage.SOWING]: { stage: GrowthStage.SOWING, fertilizer: 'Zinc Sulphate (10kg/acre)', pestAlert: 'Stem borer nursery', irrigation: 'Moist only', tips: ['Seed treatment'] },
       [GrowthStage.VEGETATIVE]: { stage: GrowthStage.VEGETATIVE, fertilizer: 'Urea (25kg/acre)', pestAlert: 'Leaf folder', irrigation: '3cm standing water', tips: ['Weed check'] },
@@ -97,6 +93,11 @@ export const CROP_DATASETS: Record<CropType, CropDataset> = {
   },
   [CropType.WHEAT]: {
     name: 'Wheat', hindiName: 'गेहूं', marathiName: 'गहू',
+    stageDays: [20, 70, 100, 125],
+    thermal: { baseTemp: 0, stageGdd: [300, 1150, 1650, 2100] },
+    waterUse: { kc: { [GrowthStage.SOWING]: 0.4, [GrowthStage.VEGETATIVE]: 0.8, [GrowthStage.FLOWERING]: 1.15, [GrowthStage.MATURITY]: 0.6, [GrowthStage.HARVEST]: 0.25 }, rootDepthM: 1.2, depletionFraction: 0.55 },
+    nutrientTarget: { n: 120, p: 60, k: 40 },
+    nutrientSplit: { [GrowthStage.SOWING]: { n: 0.5, p: 1, k: 1 }, [GrowthStage.VEGETATIVE]: { n: 0.5, p: 0, k: 0 } },
     advisories: {
       [GrowthStage.SOWING]: { stage: GrowthStage.SOWING, fertilizer: 'DAP (50kg/acre)', pestAlert: 'Termite', irrigation: 'CRI Stage (21 days)', tips: ['Level field'] },
       [GrowthStage.VEGETATIVE]: { stage: GrowthStage.VEGETATIVE, fertilizer: 'Urea (40kg/acre)', pestAlert: 'Aphids', irrigation: 'Constant moisture', tips: ['Inter-culture'] },
@@ -107,6 +108,11 @@ export const CROP_DATASETS: Record<CropType, CropDataset> = {
   },
   [CropType.MAIZE]: {
     name: 'Maize', hindiName: 'मक्का', marathiName: 'मका',
+    stageDays: [15, 50, 80, 110],
+    thermal: { baseTemp: 10, stageGdd: [200, 750, 1150, 1500] },
+    waterUse: { kc: { [GrowthStage.SOWING]: 0.4, [GrowthStage.VEGETATIVE]: 0.8, [GrowthStage.FLOWERING]: 1.2, [GrowthStage.MATURITY]: 0.6, [GrowthStage.HARVEST]: 0.35 }, rootDepthM: 1.2, depletionFraction: 0.55 },
+    nutrientTarget: { n: 150, p: 75, k: 40 },
+    nutrientSplit: { [GrowthStage.SOWING]: { n: 0.33, p: 1, k: 1 }, [GrowthStage.VEGETATIVE]: { n: 0.33, p: 0, k: 0 }, [GrowthStage.FLOWERING]: { n: 0.34, p: 0, k: 0 } },
     advisories: {
       [GrowthStage.SOWING]: { stage: GrowthStage.SOWING, fertilizer: 'NPK 12:32:16', pestAlert: 'Armyworm', irrigation: 'Pre-sow', tips: ['60cm gap'] },
       [GrowthStage.VEGETATIVE]: { stage: GrowthStage.VEGETATIVE, fertilizer: 'Urea side', pestAlert: 'Stem borer', irrigation: 'Avoid logging', tips: ['Earthing'] },
@@ -117,6 +123,11 @@ export const CROP_DATASETS: Record<CropType, CropDataset> = {
   },
   [CropType.COTTON]: {
     name: 'Cotton', hindiName: 'कपास', marathiName: 'कापूस',
+    stageDays: [15, 60, 110, 150],
+    thermal: { baseTemp: 15.5, stageGdd: [150, 550, 1000, 1350] },
+    waterUse: { kc: { [GrowthStage.SOWING]: 0.45, [GrowthStage.VEGETATIVE]: 0.8, [GrowthStage.FLOWERING]: 1.15, [GrowthStage.MATURITY]: 0.75, [GrowthStage.HARVEST]: 0.5 }, rootDepthM: 1.4, depletionFraction: 0.65 },
+    nutrientTarget: { n: 100, p: 50, k: 50 },
+    nutrientSplit: { [GrowthStage.SOWING]: { n: 0.2, p: 1, k: 0.5 }, [GrowthStage.VEGETATIVE]: { n: 0.4, p: 0, k: 0 }, [GrowthStage.FLOWERING]: { n: 0.4, p: 0, k: 0.5 } },
     advisories: {
       [GrowthStage.SOWING]: { stage: GrowthStage.SOWING, fertilizer: 'Phosphorus', pestAlert: 'Sucking pests', irrigation: 'Gap fill', tips: ['Seed treat'] },
       [GrowthStage.VEGETATIVE]: { stage: GrowthStage.VEGETATIVE, fertilizer: 'Nitrogen split', pestAlert: 'Whitefly', irrigation: '20 days', tips: ['Weeding'] },
@@ -127,6 +138,11 @@ export const CROP_DATASETS: Record<CropType, CropDataset> = {
   },
   [CropType.SUGARCANE]: {
     name: 'Sugarcane', hindiName: 'गन्ना', marathiName: 'ऊस',
+    stageDays: [30, 150, 240, 330],
+    thermal: { baseTemp: 12, stageGdd: [420, 2100, 3360, 4620] },
+    waterUse: { kc: { [GrowthStage.SOWING]: 0.5, [GrowthStage.VEGETATIVE]: 1.0, [GrowthStage.FLOWERING]: 1.25, [GrowthStage.MATURITY]: 0.75, [GrowthStage.HARVEST]: 0.6 }, rootDepthM: 1.5, depletionFraction: 0.65 },
+    nutrientTarget: { n: 250, p: 115, k: 115 },
+    nutrientSplit: { [GrowthStage.SOWING]: { n: 0.4, p: 1, k: 0.5 }, [GrowthStage.VEGETATIVE]: { n: 0.6, p: 0, k: 0.5 } },
     advisories: {
       [GrowthStage.SOWING]: { stage: GrowthStage.SOWING, fertilizer: 'Compost basal', pestAlert: 'Termites', irrigation: 'Light', tips: ['Setts check'] },
       [GrowthStage.VEGETATIVE]: { stage: GrowthStage.VEGETATIVE, fertilizer: 'Urea+Potash', pestAlert: 'Top borer', irrigation: 'Weekly', tips: ['Mulching'] },
@@ -137,6 +153,11 @@ export const CROP_DATASETS: Record<CropType, CropDataset> = {
   },
   [CropType.PULSES]: {
     name: 'Pulses', hindiName: 'दालें', marathiName: 'कडधान्य',
+    stageDays: [15, 45, 75, 100],
+    thermal: { baseTemp: 8, stageGdd: [225, 675, 1125, 1500] },
+    waterUse: { kc: { [GrowthStage.SOWING]: 0.4, [GrowthStage.VEGETATIVE]: 0.75, [GrowthStage.FLOWERING]: 1.05, [GrowthStage.MATURITY]: 0.6, [GrowthStage.HARVEST]: 0.3 }, rootDepthM: 0.8, depletionFraction: 0.45 },
+    nutrientTarget: { n: 20, p: 50, k: 20 },
+    nutrientSplit: { [GrowthStage.SOWING]: { n: 1, p: 1, k: 1 } },
     advisories: {
       [GrowthStage.SOWING]: { stage: GrowthStage.SOWING, fertilizer: 'Rhizobium', pestAlert: 'Wilt', irrigation: 'Pre-sow', tips: ['Deep sow'] },
       [GrowthStage.VEGETATIVE]: { stage: GrowthStage.VEGETATIVE, fertilizer: 'DAP 2%', pestAlert: 'Pod borer', irrigation: 'Low', tips: ['Nipping'] },
@@ -147,6 +168,11 @@ export const CROP_DATASETS: Record<CropType, CropDataset> = {
   },
   [CropType.VEGETABLES]: {
     name: 'Vegetables', hindiName: 'सब्जियां', marathiName: 'भाजीपाला',
+    stageDays: [10, 40, 70, 90],
+    thermal: { baseTemp: 10, stageGdd: [150, 600, 1050, 1350] },
+    waterUse: { kc: { [GrowthStage.SOWING]: 0.6, [GrowthStage.VEGETATIVE]: 0.8, [GrowthStage.FLOWERING]: 1.05, [GrowthStage.MATURITY]: 0.9, [GrowthStage.HARVEST]: 0.8 }, rootDepthM: 0.5, depletionFraction: 0.4 },
+    nutrientTarget: { n: 100, p: 50, k: 50 },
+    nutrientSplit: { [GrowthStage.SOWING]: { n: 0.5, p: 1, k: 0.5 }, [GrowthStage.VEGETATIVE]: { n: 0.25, p: 0, k: 0 }, [GrowthStage.FLOWERING]: { n: 0.25, p: 0, k: 0.5 } },
     advisories: {
       [GrowthStage.SOWING]: { stage: GrowthStage.SOWING, fertilizer: 'Compost', pestAlert: 'Damping off', irrigation: 'Sprinkle', tips: ['Nursery cover'] },
       [GrowthStage.VEGETATIVE]: { stage: GrowthStage.VEGETATIVE, fertilizer: 'NPK spray', pestAlert: 'Fruit borer', irrigation: 'Frequent', tips: ['Staking'] },
@@ -178,6 +204,8 @@ export const TRANSLATIONS = {
     offlineStatus: 'Offline Ready',
     syncStatus: 'Sync Status',
     registerCrop: 'Register Crop',
+    newPlot: 'New Plot',
+    editPlot: 'Edit Plot',
     nickname: 'Field Nickname',
     farmerNameLabel: 'Full Name',
     sowingDate: 'Sowing Date',
@@ -194,6 +222,11 @@ export const TRANSLATIONS = {
     lastSync: 'Updated',
     diagnostics: 'Diagnostics',
     askAI: 'Ask AI Expert',
+    queuedOffline: "You're offline. Your question is saved and will be sent to the expert when you reconnect.",
+    queueFailed: 'Could not save your question for later. Please try again when online.',
+    caseQueueFailed: 'Could not save this case for the expert. Please try again when online.',
+    diagnosisArrived: 'An expert diagnosis you asked for offline has arrived.',
+    diagnosisReady: 'Diagnosis ready',
     noActions: 'No immediate actions needed.',
     weatherSnapshot: 'Weather Forecast',
     insights48h: '48-Hour Insights',
@@ -201,6 +234,9 @@ export const TRANSLATIONS = {
     locationFound: 'Region Detected',
     manualSelect: 'Manual Selection',
     searching: 'Locating...',
+    regionNotDetected: "Couldn't find your region. Please choose it below.",
+    regionalGuidance: 'Regional guidance',
+    nationalGuidance: 'National guidance',
     retention: 'Retention',
     fertility: 'Fertility',
     appearance: 'Appearance',
@@ -222,7 +258,57 @@ export const TRANSLATIONS = {
     recompute: 'Recompute Advice',
     clearConfirm: 'Are you sure? This cleans advisory history.',
     aboutAgriSynch: 'AgriSynch is a rural-first platform built to secure farm intelligence locally. No internet required for daily farm decisions.',
-    supportedLangs: 'Supported Languages'
+    supportedLangs: 'Supported Languages',
+    suspectedProblem: 'Suspected Problem',
+    provisional: 'Provisional',
+    provisionalResult: 'Provisional result from the offline symptom check. Open it in History to confirm with the AI expert.',
+    symptomCheck: 'Symptom Check',
+    symptomCheckHint: 'Answer a few yes/no questions for a provisional diagnosis that works without internet.',
+    noSignal: 'No signal in the field?',
+    offline: 'Offline',
+    startSymptomCheck: 'Start Symptom Check',
+    pickFieldFirst: 'Pick a field first',
+    confidence: 'Confidence',
+    cause: 'Cause',
+    interventions: 'What To Do',
+    prevention: 'Prevention',
+    urgency: 'Urgency',
+    organic: 'Organic',
+    chemical: 'Chemical',
+    mechanical: 'Mechanical',
+    urgencyImmediate: 'Act today',
+    urgencyWithinWeek: 'Within a week',
+    urgencyMonitor: 'Monitor',
+    confidenceLow: 'Low',
+    confidenceMedium: 'Medium',
+    confidenceHigh: 'High',
+    createTasks: 'Add to field tasks',
+    tasksAdded: 'Added to field tasks',
+    tasks: 'Tasks',
+    recheckTask: 'Check again',
+    aiErrorOffline: 'No internet connection. Try again when you have signal.',
+    aiErrorTimeout: 'The expert took too long to answer. Please try again.',
+    aiErrorCancelled: 'Request cancelled.',
+    aiErrorQuota: "You've reached today's limit for expert requests. Try again tomorrow.",
+    aiErrorSafety: 'The expert could not answer this request. Please describe the crop problem differently.',
+    aiErrorInvalid: 'The expert sent an answer we could not read. Please try again.',
+    aiErrorUnavailable: 'The expert service is unavailable right now. Please try again later.',
+    cancel: 'Cancel',
+    assistantHint: "Try: 'Show my crops' or 'How is the weather?'",
+    assistantConfirm: 'Yes, save',
+    fieldMap: 'Field Map',
+    mapStorageLimit: 'Storage limit reached; the fields and the wider region views are saved.',
+    mapTilesFailed: 'tiles could not be fetched. Try again with a better signal.',
+    mapSaved: 'Map saved for offline use.',
+    mapDownloadFailed: 'Download failed. Check the connection and try again.',
+    mapNotConfigured: 'No base map is configured; fields, regions and pest reports still show offline.',
+    offlineMap: 'Offline map',
+    mapTiles: 'tiles',
+    mapSaving: 'Saving',
+    mapSave: '⬇️ Save map for offline',
+    mapRemove: 'Remove',
+    mapNeedsRegion: 'Register a field with its region to save the map.',
+    nearbyFarmer: 'nearby farmer'
   },
   [Language.HINDI]: {
     home: 'होम',
@@ -244,6 +330,8 @@ export const TRANSLATIONS = {
     offlineStatus: 'ऑफ़लाइन तैयार',
     syncStatus: 'सिंक स्थिति',
     registerCrop: 'फसल पंजीकृत करें',
+    newPlot: 'नया खेत',
+    editPlot: 'खेत संपादित करें',
     nickname: 'खेत का नाम',
     farmerNameLabel: 'पूरा नाम',
     sowingDate: 'बुवाई की तारीख',
@@ -260,6 +348,11 @@ export const TRANSLATIONS = {
     lastSync: 'अपडेट किया गया',
     diagnostics: 'स्मार्ट निदान',
     askAI: 'विशेषज्ञ AI',
+    queuedOffline: 'आप ऑफ़लाइन हैं। आपका सवाल सहेज लिया गया है और इंटरनेट आने पर विशेषज्ञ को भेजा जाएगा।',
+    queueFailed: 'आपका सवाल बाद के लिए सहेजा नहीं जा सका। इंटरनेट होने पर फिर कोशिश करें।',
+    caseQueueFailed: 'यह मामला विशेषज्ञ के लिए सहेजा नहीं जा सका। इंटरनेट होने पर फिर कोशिश करें।',
+    diagnosisArrived: 'ऑफ़लाइन पूछा गया आपका विशेषज्ञ निदान आ गया है।',
+    diagnosisReady: 'निदान तैयार',
     noActions: 'कोई तत्काल कार्रवाई की आवश्यकता नहीं है।',
     weatherSnapshot: 'मौसम का पूर्वानुमान',
     insights48h: '४८ घंटे के सुझाव',
@@ -267,6 +360,9 @@ export const TRANSLATIONS = {
     locationFound: 'क्षेत्र पहचाना गया',
     manualSelect: 'मैनुअल चयन',
     searching: 'खोज रहे हैं...',
+    regionNotDetected: 'आपका क्षेत्र नहीं मिला। कृपया नीचे से चुनें।',
+    regionalGuidance: 'क्षेत्रीय सलाह',
+    nationalGuidance: 'राष्ट्रीय सलाह',
     retention: 'जल धारण',
     fertility: 'उर्वरता',
     appearance: 'दिखावट',
@@ -288,7 +384,57 @@ export const TRANSLATIONS = {
     recompute: 'सुझावों की गणना करें',
     clearConfirm: 'क्या आप सुनिश्चित हैं? यह इतिहास साफ़ करता है।',
     aboutAgriSynch: 'AgriSynch एक ग्रामीण-प्रथम प्लेटफ़ॉर्म है जो स्थानीय रूप से कृषि जानकारी सुरक्षित रखने के लिए बनाया गया है।',
-    supportedLangs: 'समर्थित भाषाएँ'
+    supportedLangs: 'समर्थित भाषाएँ',
+    suspectedProblem: 'संभावित समस्या',
+    provisional: 'अस्थायी',
+    provisionalResult: 'ऑफ़लाइन लक्षण जाँच का अस्थायी परिणाम। AI विशेषज्ञ से पुष्टि के लिए इसे इतिहास में खोलें।',
+    symptomCheck: 'लक्षण जाँच',
+    symptomCheckHint: 'बिना इंटरनेट के अस्थायी निदान के लिए कुछ हाँ/ना सवालों के जवाब दें।',
+    noSignal: 'खेत में नेटवर्क नहीं?',
+    offline: 'ऑफ़लाइन',
+    startSymptomCheck: 'लक्षण जाँच शुरू करें',
+    pickFieldFirst: 'पहले खेत चुनें',
+    confidence: 'विश्वास स्तर',
+    cause: 'कारण',
+    interventions: 'क्या करें',
+    prevention: 'रोकथाम',
+    urgency: 'तात्कालिकता',
+    organic: 'जैविक',
+    chemical: 'रासायनिक',
+    mechanical: 'यांत्रिक',
+    urgencyImmediate: 'आज ही करें',
+    urgencyWithinWeek: 'एक सप्ताह में',
+    urgencyMonitor: 'निगरानी रखें',
+    confidenceLow: 'कम',
+    confidenceMedium: 'मध्यम',
+    confidenceHigh: 'अधिक',
+    createTasks: 'खेत के कामों में जोड़ें',
+    tasksAdded: 'खेत के कामों में जोड़ा गया',
+    tasks: 'काम',
+    recheckTask: 'फिर से जाँचें',
+    aiErrorOffline: 'इंटरनेट कनेक्शन नहीं है। सिग्नल मिलने पर फिर से कोशिश करें।',
+    aiErrorTimeout: 'विशेषज्ञ को जवाब देने में बहुत समय लगा। कृपया फिर से कोशिश करें।',
+    aiErrorCancelled: 'अनुरोध रद्द किया गया।',
+    aiErrorQuota: 'आज के विशेषज्ञ अनुरोधों की सीमा पूरी हो गई है। कल फिर कोशिश करें।',
+    aiErrorSafety: 'विशेषज्ञ इस अनुरोध का जवाब नहीं दे सका। कृपया फसल की समस्या अलग तरह से बताएं।',
+    aiErrorInvalid: 'विशेषज्ञ का जवाब पढ़ा नहीं जा सका। कृपया फिर से कोशिश करें।',
+    aiErrorUnavailable: 'विशेषज्ञ सेवा अभी उपलब्ध नहीं है। कृपया बाद में कोशिश करें।',
+    cancel: 'रद्द करें',
+    assistantHint: "बोलें: 'मेरी फसल दिखाओ' या 'आज मौसम कैसा है?'",
+    assistantConfirm: 'हाँ, सेव करें',
+    fieldMap: 'खेत का नक्शा',
+    mapStorageLimit: 'स्टोरेज सीमा पूरी हो गई; खेत और आसपास के क्षेत्र के दृश्य सहेजे गए हैं।',
+    mapTilesFailed: 'टाइलें नहीं मिल सकीं। बेहतर नेटवर्क में फिर कोशिश करें।',
+    mapSaved: 'नक्शा ऑफ़लाइन उपयोग के लिए सहेजा गया।',
+    mapDownloadFailed: 'डाउनलोड विफल। कनेक्शन जाँचें और फिर कोशिश करें।',
+    mapNotConfigured: 'कोई बेस मैप सेट नहीं है; खेत, क्षेत्र और कीट रिपोर्ट फिर भी ऑफ़लाइन दिखेंगे।',
+    offlineMap: 'ऑफ़लाइन नक्शा',
+    mapTiles: 'टाइलें',
+    mapSaving: 'सहेजा जा रहा है',
+    mapSave: '⬇️ नक्शा ऑफ़लाइन सहेजें',
+    mapRemove: 'हटाएँ',
+    mapNeedsRegion: 'नक्शा सहेजने के लिए क्षेत्र के साथ खेत पंजीकृत करें।',
+    nearbyFarmer: 'पास के किसान'
   },
   [Language.MARATHI]: {
     home: 'मुख्य',
@@ -310,6 +456,8 @@ export const TRANSLATIONS = {
     offlineStatus: 'ऑफलाइन तयार',
     syncStatus: 'सिंक स्थिती',
     registerCrop: 'पिकाची नोंदणी',
+    newPlot: 'नवीन शेत',
+    editPlot: 'शेत संपादित करा',
     nickname: 'शेत नाव',
     farmerNameLabel: 'पूर्ण नाव',
     sowingDate: 'पेरणीची तारीख',
@@ -326,6 +474,11 @@ export const TRANSLATIONS = {
     lastSync: 'अपडेट झाले',
     diagnostics: 'स्मार्ट निदान',
     askAI: 'तज्ञ AI',
+    queuedOffline: 'तुम्ही ऑफलाइन आहात. तुमचा प्रश्न जतन केला आहे आणि इंटरनेट आल्यावर तज्ञांना पाठवला जाईल.',
+    queueFailed: 'तुमचा प्रश्न नंतरसाठी जतन करता आला नाही. इंटरनेट असताना पुन्हा प्रयत्न करा.',
+    caseQueueFailed: 'हे प्रकरण तज्ञांसाठी जतन करता आले नाही. इंटरनेट असताना पुन्हा प्रयत्न करा.',
+    diagnosisArrived: 'ऑफलाइन विचारलेले तुमचे तज्ञ निदान आले आहे.',
+    diagnosisReady: 'निदान तयार',
     noActions: 'कोणत्याही त्वरित कृतीची गरज नाही.',
     weatherSnapshot: 'हवामानाचा अंदाज',
     insights48h: '४८ तासांचे सल्ले',
@@ -333,6 +486,9 @@ export const TRANSLATIONS = {
     locationFound: 'प्रदेश ओळखला',
     manualSelect: 'मॅन्युअल निवड',
     searching: 'शोधत आहे...',
+    regionNotDetected: 'तुमचा प्रदेश सापडला नाही. कृपया खालून निवडा.',
+    regionalGuidance: 'प्रादेशिक सल्ला',
+    nationalGuidance: 'राष्ट्रीय सल्ला',
     retention: 'पाणी साठवण',
     fertility: 'सुपीकता',
     appearance: 'स्वरुप',
@@ -354,6 +510,56 @@ export const TRANSLATIONS = {
     recompute: 'सल्ल्यांची गणना करा',
     clearConfirm: 'तुम्हाला खात्री आहे का? यामुळे जुना इतिहास साफ होईल.',
     aboutAgriSynch: 'AgriSynch हे ग्रामीण भागातील शेतकऱ्यांसाठी स्थानिक पातळीवर कृषी माहिती सुरक्षित ठेवणारे व्यासपीठ आहे.',
-    supportedLangs: 'समर्थित भाषा'
+    supportedLangs: 'समर्थित भाषा',
+    suspectedProblem: 'संभाव्य समस्या',
+    provisional: 'तात्पुरता',
+    provisionalResult: 'ऑफलाइन लक्षण तपासणीचा तात्पुरता निकाल. AI तज्ञांकडून खात्री करण्यासाठी तो इतिहासात उघडा.',
+    symptomCheck: 'लक्षण तपासणी',
+    symptomCheckHint: 'इंटरनेटशिवाय तात्पुरत्या निदानासाठी काही हो/नाही प्रश्नांची उत्तरे द्या.',
+    noSignal: 'शेतात नेटवर्क नाही?',
+    offline: 'ऑफलाइन',
+    startSymptomCheck: 'लक्षण तपासणी सुरू करा',
+    pickFieldFirst: 'आधी शेत निवडा',
+    confidence: 'खात्री',
+    cause: 'कारण',
+    interventions: 'काय करावे',
+    prevention: 'प्रतिबंध',
+    urgency: 'तातडी',
+    organic: 'सेंद्रिय',
+    chemical: 'रासायनिक',
+    mechanical: 'यांत्रिक',
+    urgencyImmediate: 'आजच करा',
+    urgencyWithinWeek: 'आठवड्याभरात',
+    urgencyMonitor: 'लक्ष ठेवा',
+    confidenceLow: 'कमी',
+    confidenceMedium: 'मध्यम',
+    confidenceHigh: 'जास्त',
+    createTasks: 'शेतातील कामांत जोडा',
+    tasksAdded: 'शेतातील कामांत जोडले',
+    tasks: 'कामे',
+    recheckTask: 'पुन्हा तपासा',
+    aiErrorOffline: 'इंटरनेट कनेक्शन नाही. सिग्नल मिळाल्यावर पुन्हा प्रयत्न करा.',
+    aiErrorTimeout: 'तज्ञांना उत्तर द्यायला खूप वेळ लागला. कृपया पुन्हा प्रयत्न करा.',
+    aiErrorCancelled: 'विनंती रद्द केली.',
+    aiErrorQuota: 'आजच्या तज्ञ विनंत्यांची मर्यादा संपली. उद्या पुन्हा प्रयत्न करा.',
+    aiErrorSafety: 'तज्ञ या विनंतीला उत्तर देऊ शकले नाहीत. कृपया पिकाची समस्या वेगळ्या शब्दांत सांगा.',
+    aiErrorInvalid: 'तज्ञांचे उत्तर वाचता आले नाही. कृपया पुन्हा प्रयत्न करा.',
+    aiErrorUnavailable: 'तज्ञ सेवा सध्या उपलब्ध नाही. कृपया नंतर प्रयत्न करा.',
+    cancel: 'रद्द करा',
+    assistantHint: "बोला: 'माझी पिके दाखवा' किंवा 'आज हवामान कसे आहे?'",
+    assistantConfirm: 'हो, जतन करा',
+    fieldMap: 'शेताचा नकाशा',
+    mapStorageLimit: 'साठवण मर्यादा पूर्ण झाली; शेते आणि आसपासच्या विभागाचे दृश्य जतन केले आहे.',
+    mapTilesFailed: 'टाइल्स मिळू शकल्या नाहीत. चांगल्या नेटवर्कमध्ये पुन्हा प्रयत्न करा.',
+    mapSaved: 'नकाशा ऑफलाइन वापरासाठी जतन केला.',
+    mapDownloadFailed: 'डाउनलोड अयशस्वी. कनेक्शन तपासा आणि पुन्हा प्रयत्न करा.',
+    mapNotConfigured: 'बेस नकाशा सेट केलेला नाही; शेते, विभाग आणि कीड अहवाल तरीही ऑफलाइन दिसतील.',
+    offlineMap: 'ऑफलाइन नकाशा',
+    mapTiles: 'टाइल्स',
+    mapSaving: 'जतन होत आहे',
+    mapSave: '⬇️ नकाशा ऑफलाइन जतन करा',
+    mapRemove: 'काढा',
+    mapNeedsRegion: 'नकाशा जतन करण्यासाठी विभागासह शेताची नोंदणी करा.',
+    nearbyFarmer: 'जवळचे शेतकरी'
   }
 };
@@ -0,0 +1,81 @@
+// Deterministic OpenAI-compatible server for development without a model or key.
+// Answers come from data/aiFixture.json, matched by the same code the in-app fixture provider uses.
+//
+//   npm run mock:ai                       # listens on http://localhost:8787/v1
+//   AI_PROVIDER=openai-compatible AI_BASE_URL=http://localhost:8787/v1 npm run dev
+
+import http from 'node:http';
+import { readFileSync } from 'node:fs';
+import { matchFixtureIntent } from '../services/FixtureIntents.mjs';
+
+const PORT = Number(process.env.MOCK_AI_PORT || 8787);
+const SPEECH_SAMPLE_RATE = 24000;
+const fixture = JSON.parse(readFileSync(new URL('../data/aiFixture.json', import.meta.url), 'utf8'));
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  req.on('data', c => chunks.push(c));
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+const lastUserText = (messages) => {
+  const content = [...messages].reverse().find(m => m.role === 'user')?.content;
+  return typeof content === 'string' ? content : (content || []).filter(p => p.type === 'text').map(p => p.text).join('\n');
+};
+
+// Picks the canned answer from what the client asked for: a diagnosis schema, an intent JSON object, or chat
+const completion = ({ messages = [], response_format }) => {
+  if (response_format?.type === 'json_schema') return JSON.stringify(fixture.diagnosis);
+  if (response_format?.type === 'json_object') {
+    const command = lastUserText(messages).match(/command: "([\s\S]*?)"\./)?.[1] || '';
+    return JSON.stringify(matchFixtureIntent(fixture, command));
+  }
+  return fixture.chatReply;
+};
+
+const routes = {
+  '/v1/chat/completions': async (body) => {
+    const request = JSON.parse(body.toString('utf8'));
+    return {
+      type: 'application/json',
+      body: JSON.stringify({
+        id: 'mock-completion',
+        object: 'chat.completion',
+        model: request.model,
+        choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content: completion(request) } }]
+      })
+    };
+  },
+  '/v1/audio/translations': async () => ({ type: 'application/json', body: JSON.stringify({ text: fixture.transcript }) }),
+  '/v1/audio/transcriptions': async () => ({ type: 'application/json', body: JSON.stringify({ text: fixture.transcript }) }),
+  '/v1/audio/speech': async () => ({
+    type: 'application/octet-stream',
+    body: Buffer.alloc(Math.round(SPEECH_SAMPLE_RATE * fixture.speechSeconds) * 2)
+  })
+};
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS_HEADERS).end();
+    return;
+  }
+  const route = routes[new URL(req.url, 'http://localhost').pathname];
+  if (!route || req.method !== 'POST') {
+    res.writeHead(404, { ...CORS_HEADERS, 'Content-Type': 'application/json' }).end(JSON.stringify({ error: { message: 'Not found' } }));
+    return;
+  }
+  try {
+    const { type, body } = await route(await readBody(req));
+    res.writeHead(200, { ...CORS_HEADERS, 'Content-Type': type }).end(body);
+  } catch (e) {
+    console.error('Mock AI Failure:', e);
+    res.writeHead(400, { ...CORS_HEADERS, 'Content-Type': 'application/json' }).end(JSON.stringify({ error: { message: String(e) } }));
+  }
+}).listen(PORT, () => console.log(`Mock AI server on http://localhost:${PORT}/v1`));
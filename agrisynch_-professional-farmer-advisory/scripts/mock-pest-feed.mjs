@@ -0,0 +1,51 @@
+// Local stand-in for the community pest-report feed, for developing the map without a backend.
+// Every request gets the same sightings, placed at fixed spots inside the bounds it asked for.
+//
+//   npm run mock:pests                    # serves http://localhost:8789/pest-reports
+//   PEST_FEED_URL=http://localhost:8789/pest-reports npm run dev
+
+import http from 'node:http';
+
+const PORT = Number(process.env.MOCK_PEST_PORT || 8789);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Where in the bounds each sighting sits (0..1 of the span), and how many days ago it was reported
+const SIGHTINGS = [
+  { id: 'community-1', problem: 'Pink bollworm', cropType: 'cotton', at: [0.3, 0.4], daysAgo: 2 },
+  { id: 'community-2', problem: 'Whitefly', cropType: 'cotton', at: [0.6, 0.55], daysAgo: 5 },
+  { id: 'community-3', problem: 'Brown planthopper', cropType: 'rice', at: [0.45, 0.7], daysAgo: 9 },
+  { id: 'community-4', problem: 'Yellow rust', cropType: 'wheat', at: [0.7, 0.25], daysAgo: 14 },
+  { id: 'community-5', problem: 'Fall armyworm', cropType: 'maize', at: [0.2, 0.8], daysAgo: 30 }
+];
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS'
+};
+
+const reportsIn = (params) => {
+  const [minLat, maxLat, minLng, maxLng] = ['minLat', 'maxLat', 'minLng', 'maxLng'].map(k => Number(params.get(k)));
+  if (![minLat, maxLat, minLng, maxLng].every(Number.isFinite)) return null;
+  const since = Date.parse(params.get('since') || '') || 0;
+  return SIGHTINGS
+    .map(({ at: [x, y], daysAgo, ...s }) => ({
+      ...s,
+      location: { lat: minLat + (maxLat - minLat) * y, lng: minLng + (maxLng - minLng) * x },
+      reportedAt: new Date(Date.now() - daysAgo * DAY_MS).toISOString()
+    }))
+    .filter(r => Date.parse(r.reportedAt) >= since);
+};
+
+http.createServer((req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS_HEADERS).end();
+    return;
+  }
+  const url = new URL(req.url, 'http://localhost');
+  const reports = url.pathname === '/pest-reports' && req.method === 'GET' ? reportsIn(url.searchParams) : null;
+  if (!reports) {
+    res.writeHead(404, { ...CORS_HEADERS, 'Content-Type': 'application/json' }).end(JSON.stringify({ error: 'Not found' }));
+    return;
+  }
+  res.writeHead(200, { ...CORS_HEADERS, 'Content-Type': 'application/json' }).end(JSON.stringify({ reports }));
+}).listen(PORT, () => console.log(`Mock pest feed on http://localhost:${PORT}/pest-reports`));
@@ -0,0 +1,93 @@
+// Local stand-in for an XYZ raster tile server, for developing the offline map without a tile provider.
+// Tiles are generated PNGs: a checkerboard tinted by zoom level, with a border to show tile seams.
+//
+//   npm run mock:tiles                    # serves http://localhost:8788/tiles/{z}/{x}/{y}.png
+//   MAP_TILE_URL=http://localhost:8788/tiles/{z}/{x}/{y}.png npm run dev
+//
+// MOCK_TILE_DELAY_MS slows every tile down and MOCK_TILE_FAIL_RATE (0 to 1) fails that share with a 503,
+// to try the download progress and retry paths on a poor connection.
+
+import http from 'node:http';
+import zlib from 'node:zlib';
+
+const PORT = Number(process.env.MOCK_TILE_PORT || 8788);
+const DELAY_MS = Number(process.env.MOCK_TILE_DELAY_MS || 0);
+const FAIL_RATE = Number(process.env.MOCK_TILE_FAIL_RATE || 0);
+const SIZE = 256;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (buf) => {
+  let c = 0xffffffff;
+  for (const byte of buf) c = CRC_TABLE[(c ^ byte) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+const chunk = (type, data) => {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+};
+
+// 8-bit RGB PNG; each row starts with filter type 0
+const renderTile = (z, x, y) => {
+  const light = [226 - z * 4, 240 - z * 3, 214 - z * 5];
+  const dark = light.map(v => v - 18);
+  const border = [100, 116, 139];
+  const rows = Buffer.alloc(SIZE * (SIZE * 3 + 1));
+  for (let py = 0; py < SIZE; py++) {
+    const row = py * (SIZE * 3 + 1);
+    for (let px = 0; px < SIZE; px++) {
+      const edge = px === 0 || py === 0;
+      const check = (Math.floor(px / 32) + Math.floor(py / 32) + x + y) % 2;
+      const [r, g, b] = edge ? border : check ? dark : light;
+      rows.set([r, g, b], row + 1 + px * 3);
+    }
+  }
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(SIZE, 0);
+  header.writeUInt32BE(SIZE, 4);
+  header.set([8, 2, 0, 0, 0], 8);
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', zlib.deflateSync(rows)),
+    chunk('IEND', Buffer.alloc(0))
+  ]);
+};
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS'
+};
+
+http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS_HEADERS).end();
+    return;
+  }
+  const match = new URL(req.url, 'http://localhost').pathname.match(/^\/tiles\/(\d+)\/(\d+)\/(\d+)\.png$/);
+  const [z, x, y] = match ? match.slice(1).map(Number) : [];
+  if (!match || req.method !== 'GET' || z > 22 || x >= 2 ** z || y >= 2 ** z) {
+    res.writeHead(404, CORS_HEADERS).end();
+    return;
+  }
+  try {
+    if (DELAY_MS) await new Promise(resolve => setTimeout(resolve, DELAY_MS));
+    if (Math.random() < FAIL_RATE) {
+      res.writeHead(503, CORS_HEADERS).end();
+      return;
+    }
+    res.writeHead(200, { ...CORS_HEADERS, 'Content-Type': 'image/png', 'Cache-Control': 'max-age=86400' }).end(renderTile(z, x, y));
+  } catch (e) {
+    console.error('Mock Tile Failure:', e);
+    res.writeHead(500, CORS_HEADERS).end();
+  }
+}).listen(PORT, () => console.log(`Mock tile server on http://localhost:${PORT}/tiles/{z}/{x}/{y}.png`));
@@ -0,0 +1,139 @@
+
+import { AIProviderId, DiagnosticContext, DiagnosticCase, CaseMessage, Language } from '../types';
+import { CONFIDENCE_LEVELS, URGENCY_LEVELS, INTERVENTION_TYPES } from './DiagnosisSchema';
+import { todayISO } from './Dates';
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+  imageUrl?: string;
+}
+
+/**
+ * One backend for every AI feature. Adapters only move prompts and bytes; validation,
+ * timeouts, retries and fallbacks live in AIService so every provider gets the same treatment.
+ * Each call takes the request's AbortSignal; adapters throw aiError(...) for failures only
+ * they can recognise, such as a safety block.
+ */
+export interface AIProvider {
+  id: AIProviderId;
+  // Answers on-device: no connectivity check or quota
+  local?: boolean;
+  // Raw JSON in the StructuredDiagnosis shape, written in `language`; imageData is base64 JPEG without the data: prefix
+  diagnose: (context: DiagnosticContext, description: string, imageData: string | undefined, language: Language, signal: AbortSignal) => Promise<unknown>;
+  chat: (turns: ChatTurn[], signal: AbortSignal) => Promise<string>;
+  // base64Audio is a 16 kHz mono WAV from AudioCapture; the result is English text
+  transcribe: (base64Audio: string, signal: AbortSignal) => Promise<string>;
+  // Raw JSON in the AssistantIntent shape
+  parseIntent: (text: string, signal: AbortSignal) => Promise<unknown>;
+  // Part of the speech cache key, so switching voices doesn't replay the old one
+  speechVoice: string;
+  // base64 16-bit mono PCM at 24 kHz, or undefined when the backend has no voice
+  speak: (text: string, signal: AbortSignal) => Promise<string | undefined>;
+}
+
+export const formatContext = (ctx: DiagnosticContext) => [
+  `- Crop: ${ctx.cropName}`,
+  `- Growth Stage: ${ctx.stage}`,
+  ctx.soil && `- Soil: ${ctx.soil}`,
+  ctx.region && `- Region: ${ctx.region}`,
+  ctx.recentWeather?.length && `- Recent Weather:\n${ctx.recentWeather.map(w => `      ${w}`).join('\n')}`,
+  ctx.priorCases?.length && `- Earlier Cases On This Field:\n${ctx.priorCases.map(c => `      ${c}`).join('\n')}`
+].filter(Boolean).join('\n    ');
+
+// Named in English for the model
+const LANGUAGE_NAMES: Record<Language, string> = {
+  [Language.ENGLISH]: 'English', [Language.HINDI]: 'Hindi', [Language.MARATHI]: 'Marathi'
+};
+
+export const diagnosisPrompt = (context: DiagnosticContext, description: string, language: Language) =>
+  `Act as a senior PhD Agricultural Pathologist. A farmer needs a detailed diagnosis.
+    Field Context:
+    ${formatContext(context)}
+    - Symptoms Reported: ${description}
+
+    Weigh the soil, recent weather and earlier problems on this field when ranking causes.
+
+    Instruction:
+    1. Identify the most likely disease/pest and how confident you are.
+    2. Explain the cause (biological or environmental).
+    3. Provide immediate interventions (organic, chemical and mechanical), with dosages where a product is applied.
+    4. List 2 long-term soil/management preventions.
+    5. Rate urgency: "immediate" if the crop is at risk within days, "within-week", or "monitor".
+
+    Keep language professional yet actionable. Write every text field in ${LANGUAGE_NAMES[language]},
+    in words a farmer uses; keep the confidence, intervention type and urgency values exactly as given.`;
+
+// JSON Schema form of StructuredDiagnosis for backends that take one (Gemini builds its own from Type)
+export const DIAGNOSIS_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    suspectedProblem: { type: 'string', description: 'Most likely disease, pest or disorder' },
+    confidence: { type: 'string', enum: CONFIDENCE_LEVELS },
+    cause: { type: 'string', description: 'Biological or environmental cause' },
+    interventions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: INTERVENTION_TYPES },
+          action: { type: 'string' },
+          dosage: { type: 'string', description: 'Rate per litre or per acre, if applicable' }
+        },
+        required: ['type', 'action']
+      }
+    },
+    prevention: { type: 'array', items: { type: 'string' } },
+    urgency: { type: 'string', enum: URGENCY_LEVELS }
+  },
+  required: ['suspectedProblem', 'confidence', 'cause', 'interventions', 'prevention', 'urgency']
+};
+
+/**
+ * The case replayed as a conversation: original report, the diagnosis, then the thread,
+ * so the expert can refine its answer.
+ */
+export const caseChatTurns = (diagnosticCase: DiagnosticCase, thread: CaseMessage[]): ChatTurn[] => {
+  const opening = `Act as a senior PhD Agricultural Pathologist following up on a case you diagnosed.
+    Field Context:
+    ${formatContext(diagnosticCase.context || { cropName: diagnosticCase.cropNickname, stage: 'Unknown' })}
+    - Symptoms Reported: ${diagnosticCase.description}
+
+    Answer the farmer's follow-ups briefly in plain language. Ask one clarifying question at a time
+    if you need more detail, and revise the diagnosis if new evidence points elsewhere.`;
+
+  return [
+    { role: 'user', text: opening, imageUrl: diagnosticCase.imageUrl },
+    { role: 'model', text: diagnosticCase.diagnosis },
+    ...thread.map((m): ChatTurn => ({
+      role: m.role === 'farmer' ? 'user' : 'model',
+      text: m.text || 'See photo.',
+      imageUrl: m.imageUrl
+    }))
+  ];
+};
+
+export const TRANSCRIPTION_PROMPT = "Transcribe the following agricultural voice note exactly. If it's in a regional language like Hindi or Marathi, translate it to English.";
+
+export const intentPrompt = (text: string) =>
+  `You are the AgriSynch Voice Assistant. Interpret the following user command: "${text}".
+      Today is ${todayISO()}.
+
+      Available views: home, crops, diagnostics, library, settings, add, caseLog.
+      Questions the app answers from its own data: weather, insights, todayTasks, cropStage.
+
+      Respond ONLY with a JSON object in one of these formats:
+      { "action": "NAVIGATE", "target": "view_name", "message": "confirmation text" }
+      { "action": "QUERY", "target": "question_name", "field": "the farmer's words for the field, if any" }
+      { "action": "ADD_CROP", "crop": { "type": "rice|wheat|maize|cotton|sugarcane|pulses|vegetables", "soilType": "alluvial|black|red|latrite|sandy", "sowingDate": "YYYY-MM-DD", "nickname": "field name" } }
+      { "action": "LOG_IRRIGATION", "field": "the farmer's words for the field", "amountMm": 25 }
+      { "action": "SPEAK", "message": "answer text" }
+
+      If the user wants to see their crops, navigate to 'crops'.
+      If they want to add a field, use 'ADD_CROP' and leave out anything they did not say.
+      If they say they irrigated or watered a field, use 'LOG_IRRIGATION'.
+      If they ask what growth stage a field is in, use 'QUERY' with 'cropStage'; for what to do today, 'todayTasks'.
+      If they want to ask the expert, navigate to 'diagnostics'.
+      If they ask a general question about crops or soil, use 'SPEAK' and provide a short, helpful answer.`;
+
+export const speechText = (text: string) => `AgriSynch Assistant says: ${text}`;
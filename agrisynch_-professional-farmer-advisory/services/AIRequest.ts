@@ -0,0 +1,118 @@
+
+import { AIErrorKind, AIResult } from '../types';
+import { updateMeta } from './StorageService';
+import { asRecord, isFiniteNumber, isOneOf } from './Guards';
+
+export type AICallKind = 'diagnose' | 'chat' | 'transcribe' | 'parseIntent' | 'speak';
+
+// Thinking-mode diagnoses take a while; the assistant's calls should feel instant
+const TIMEOUT_MS: Record<AICallKind, number> = {
+  diagnose: 120_000, chat: 45_000, transcribe: 30_000, parseIntent: 15_000, speak: 20_000
+};
+
+// Calls allowed per rolling 24 hours on this device
+export const DAILY_QUOTA: Record<AICallKind, number> = {
+  diagnose: 15, chat: 60, transcribe: 120, parseIntent: 120, speak: 200
+};
+
+const MAX_RETRIES = 2;
+const BACKOFF_BASE_MS = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const USAGE_KEY = 'aiUsage';
+
+type AIUsage = Partial<Record<AICallKind, number[]>>;
+
+// An Error that already knows its kind; providers throw these for conditions only they can see
+export const aiError = (kind: AIErrorKind, message: string, status?: number) =>
+  Object.assign(new Error(message), { kind, status });
+
+const AI_ERROR_KINDS: AIErrorKind[] = ['offline', 'timeout', 'cancelled', 'quota', 'safety-blocked', 'invalid-response', 'unavailable'];
+
+interface Classified {
+  kind: AIErrorKind;
+  // Worth another attempt after a pause
+  transient: boolean;
+}
+
+// HTTP statuses from either SDK errors (Gemini's ApiError.status) or our own aiError
+const classify = (e: unknown, timedOut: boolean, cancelled: boolean): Classified => {
+  if (cancelled) return { kind: 'cancelled', transient: false };
+  if (timedOut) return { kind: 'timeout', transient: false };
+  const fields = asRecord(e);
+  const status = isFiniteNumber(fields.status) ? fields.status : undefined;
+  if (isOneOf(fields.kind, AI_ERROR_KINDS)) return { kind: fields.kind, transient: fields.kind === 'unavailable' && (status === undefined || status >= 500) };
+  if (e instanceof SyntaxError) return { kind: 'invalid-response', transient: false };
+  if (status === 429) return { kind: 'quota', transient: true };
+  if (status === 408 || (status !== undefined && status >= 500)) return { kind: 'unavailable', transient: true };
+  if (status !== undefined) return { kind: 'unavailable', transient: false };
+  // fetch rejects with a TypeError when the connection drops
+  if (e instanceof TypeError) return { kind: navigator.onLine ? 'unavailable' : 'offline', transient: navigator.onLine };
+  return { kind: 'unavailable', transient: false };
+};
+
+// Records the call if it fits in the day's allowance; false means the quota is spent
+const takeQuota = async (kind: AICallKind): Promise<boolean> => {
+  const now = Date.now();
+  let allowed = false;
+  await updateMeta<AIUsage>(USAGE_KEY, usage => {
+    const recent = (usage?.[kind] || []).filter(t => now - t < DAY_MS);
+    allowed = recent.length < DAILY_QUOTA[kind];
+    return { ...usage, [kind]: allowed ? [...recent, now] : recent };
+  });
+  return allowed;
+};
+
+// Full jitter: a random wait up to base * 2^attempt, so retrying clients don't stampede
+const backoff = (attempt: number, signal: AbortSignal) =>
+  new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, Math.random() * BACKOFF_BASE_MS * 2 ** attempt);
+    signal.addEventListener('abort', () => { clearTimeout(timer); resolve(); }, { once: true });
+  });
+
+const attempt = async <T>(kind: AICallKind, call: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal) => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => { timedOut = true; controller.abort(); }, TIMEOUT_MS[kind]);
+  const cancel = () => controller.abort();
+  signal?.addEventListener('abort', cancel, { once: true });
+  // Settle on abort even if the provider ignores the signal
+  const aborted = new Promise<never>((_, reject) =>
+    controller.signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')), { once: true }));
+  try {
+    return { value: await Promise.race([call(controller.signal), aborted]) };
+  } catch (e) {
+    return { failure: classify(e, timedOut, !!signal?.aborted), error: e };
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', cancel);
+  }
+};
+
+/**
+ * Runs one AI call with a timeout, retries with exponential backoff on transient failures,
+ * and caller cancellation through `signal`. Local providers skip the offline check and quota.
+ */
+export const runAIRequest = async <T>(
+  kind: AICallKind,
+  call: (signal: AbortSignal) => Promise<T>,
+  options: { signal?: AbortSignal, local?: boolean } = {}
+): Promise<AIResult<T>> => {
+  const { signal, local } = options;
+  if (signal?.aborted) return { ok: false, error: 'cancelled' };
+  if (!local) {
+    if (!navigator.onLine) return { ok: false, error: 'offline' };
+    if (!(await takeQuota(kind))) return { ok: false, error: 'quota' };
+  }
+
+  for (let n = 0; ; n++) {
+    const result = await attempt(kind, call, signal);
+    if ('value' in result) return { ok: true, value: result.value };
+    const { failure, error } = result;
+    if (!failure.transient || n >= MAX_RETRIES || !navigator.onLine) {
+      if (failure.kind !== 'cancelled') console.error(`AI ${kind} Failure (${failure.kind}):`, error);
+      return { ok: false, error: !navigator.onLine && failure.transient ? 'offline' : failure.kind };
+    }
+    await backoff(n, signal || new AbortController().signal);
+    if (signal?.aborted) return { ok: false, error: 'cancelled' };
+  }
+};
@@ -0,0 +1,89 @@
+import { spawn, ChildProcess } from 'node:child_process';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { Language, SoilType, DiagnosticContext } from '../types';
+import { AIProvider } from './AIProvider';
+import { parseIntent } from './AIService';
+import { parseDiagnosis } from './DiagnosisSchema';
+import { fixtureAIProvider } from './FixtureAIProvider';
+import { openAICompatibleProvider } from './OpenAICompatibleProvider';
+import AI_FIXTURE from '../data/aiFixture.json';
+
+const context: DiagnosticContext = { cropName: 'Cotton', stage: 'Vegetative', soil: 'Black Soil', region: 'vidarbha' };
+
+const signal = () => new AbortController().signal;
+
+describe('parseIntent', () => {
+  it('keeps known navigation targets and queries', () => {
+    expect(parseIntent({ action: 'NAVIGATE', target: 'crops', message: 'Here.' })).toEqual({ action: 'NAVIGATE', target: 'crops', message: 'Here.' });
+    expect(parseIntent({ action: 'QUERY', target: 'cropStage', field: 'east field' })).toEqual({ action: 'QUERY', target: 'cropStage', field: 'east field', message: undefined });
+  });
+
+  it('drops crop fields it does not recognise', () => {
+    expect(parseIntent({ action: 'ADD_CROP', crop: { type: 'banana', soilType: SoilType.RED, sowingDate: 'yesterday', nickname: '  ' } })).toEqual({
+      action: 'ADD_CROP', crop: { type: undefined, soilType: SoilType.RED, sowingDate: undefined, nickname: undefined }, message: undefined
+    });
+  });
+
+  it('reads irrigation amounts only when positive', () => {
+    expect(parseIntent({ action: 'LOG_IRRIGATION', amountMm: '25' })).toMatchObject({ amountMm: 25 });
+    expect(parseIntent({ action: 'LOG_IRRIGATION', amountMm: -3 })).toMatchObject({ amountMm: undefined });
+  });
+
+  it('falls back to speaking the message for unknown targets', () => {
+    expect(parseIntent({ action: 'NAVIGATE', target: 'market', message: 'No market view yet.' })).toEqual({ action: 'SPEAK', message: 'No market view yet.' });
+  });
+
+  it('rejects replies with nothing usable', () => {
+    expect(() => parseIntent(null)).toThrow('Invalid action');
+    expect(() => parseIntent({ action: 'NAVIGATE', target: 'market' })).toThrow('Invalid action');
+    expect(() => parseIntent('NAVIGATE')).toThrow('Invalid action');
+  });
+});
+
+// Every provider must answer in shapes AIService accepts; these run the two that need no key
+const contract = (name: string, provider: () => AIProvider) => describe(`${name} provider contract`, () => {
+  it('diagnoses in the structured schema', async () => {
+    const raw = await provider().diagnose(context, 'Sticky yellow leaves', undefined, Language.ENGLISH, signal());
+    expect(parseDiagnosis(raw)).toEqual(AI_FIXTURE.diagnosis);
+  });
+
+  it('replies to follow-ups with text', async () => {
+    expect(await provider().chat([{ role: 'user', text: 'What now?' }], signal())).toBe(AI_FIXTURE.chatReply);
+  });
+
+  it('parses every fixture command into a valid intent', async () => {
+    for (const entry of AI_FIXTURE.intents) {
+      const intent = parseIntent(await provider().parseIntent(`show me the ${entry.keywords[0]}`, signal()));
+      expect(intent).toMatchObject({ action: entry.action, target: entry.target });
+    }
+    expect(parseIntent(await provider().parseIntent('When should I water?', signal()))).toEqual(AI_FIXTURE.fallbackIntent);
+  });
+
+  it('transcribes and speaks', async () => {
+    expect(await provider().transcribe(btoa('audio'), signal())).toBe(AI_FIXTURE.transcript);
+    expect(atob((await provider().speak('Hello', signal()))!).length).toBe(Math.round(24000 * AI_FIXTURE.speechSeconds) * 2);
+  });
+});
+
+contract('fixture', () => fixtureAIProvider);
+
+describe('mock AI server', () => {
+  const port = 18000 + Math.floor(Math.random() * 1000);
+  let server: ChildProcess;
+
+  beforeAll(async () => {
+    server = spawn(process.execPath, ['scripts/mock-ai-server.mjs'], { env: { ...process.env, MOCK_AI_PORT: String(port) } });
+    await new Promise<void>((resolve, reject) => {
+      server.stdout!.once('data', () => resolve());
+      server.once('error', reject);
+    });
+    vi.stubEnv('AI_BASE_URL', `http://localhost:${port}/v1`);
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+    server.kill();
+  });
+
+  contract('OpenAI-compatible', () => openAICompatibleProvider);
+});
@@ -0,0 +1,149 @@
+
+import { AIProviderId, AIResult, AssistantIntent, AssistantQuery, AssistantView, CachedResponseKind, CropType, SoilType, Language, StructuredDiagnosis, DiagnosticContext, DiagnosticCase, CaseMessage } from '../types';
+import { AIProvider, caseChatTurns, diagnosisPrompt } from './AIProvider';
+import { aiError, runAIRequest } from './AIRequest';
+import { parseDiagnosis } from './DiagnosisSchema';
+import { fingerprint, readCache, writeCache } from './ResponseCache';
+import { geminiProvider } from './geminiService';
+import { openAICompatibleProvider } from './OpenAICompatibleProvider';
+import { fixtureAIProvider } from './FixtureAIProvider';
+import { todayISO } from './Dates';
+import { asRecord, isNonEmptyString, isOneOf } from './Guards';
+
+const PROVIDERS: Record<AIProviderId, AIProvider> = {
+  'gemini': geminiProvider,
+  'openai-compatible': openAICompatibleProvider,
+  'fixture': fixtureAIProvider
+};
+
+export const ASSISTANT_VIEWS: AssistantView[] = ['home', 'crops', 'diagnostics', 'library', 'settings', 'add', 'caseLog'];
+export const ASSISTANT_QUERIES: AssistantQuery[] = ['weather', 'insights', 'todayTasks', 'cropStage'];
+
+// `AI_PROVIDER` picks the backend; unknown or unset values fall back to Gemini
+export const selectAIProvider = (id = process.env.AI_PROVIDER): AIProvider =>
+  PROVIDERS[id as AIProviderId] || geminiProvider;
+
+// Shape checks that fail after a successful call are the model's fault, not the network's
+const validated = <T>(check: () => T): T => {
+  try {
+    return check();
+  } catch (e) {
+    throw aiError('invalid-response', (e as Error).message);
+  }
+};
+
+const optionalText = (value: unknown) => isNonEmptyString(value) ? value : undefined;
+
+// A target the app doesn't know is still usable when the model also said something
+export const parseIntent = (raw: unknown): AssistantIntent => {
+  const intent = asRecord(raw);
+  const message = optionalText(intent.message);
+  const field = optionalText(intent.field);
+  if (intent.action === 'NAVIGATE' && isOneOf(intent.target, ASSISTANT_VIEWS)) return { action: 'NAVIGATE', target: intent.target, message };
+  if (intent.action === 'QUERY' && isOneOf(intent.target, ASSISTANT_QUERIES)) return { action: 'QUERY', target: intent.target, field, message };
+  if (intent.action === 'ADD_CROP') {
+    const crop = asRecord(intent.crop);
+    return {
+      action: 'ADD_CROP',
+      crop: {
+        type: isOneOf(crop.type, Object.values(CropType)) ? crop.type : undefined,
+        soilType: isOneOf(crop.soilType, Object.values(SoilType)) ? crop.soilType : undefined,
+        sowingDate: typeof crop.sowingDate === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(crop.sowingDate) ? crop.sowingDate : undefined,
+        nickname: optionalText(crop.nickname)
+      },
+      message
+    };
+  }
+  if (intent.action === 'LOG_IRRIGATION') {
+    const amountMm = Number(intent.amountMm);
+    return { action: 'LOG_IRRIGATION', field, amountMm: amountMm > 0 ? amountMm : undefined, message };
+  }
+  if (message) return { action: 'SPEAK', message };
+  throw new Error('Invalid action in intent response');
+};
+
+const nonEmpty = (text: string | undefined) => {
+  if (!text) throw new Error('Empty response');
+  return text;
+};
+
+/**
+ * Answers from the response cache when the same input was seen before, which also works
+ * offline; otherwise runs the request and caches a successful answer.
+ */
+const withCache = async <T>(kind: CachedResponseKind, keyParts: string[], run: () => Promise<AIResult<T>>): Promise<AIResult<T>> => {
+  const key = await fingerprint(keyParts).catch(() => null);
+  const hit = await readCache<T>(key);
+  if (hit !== undefined) return { ok: true, value: hit };
+  const result = await run();
+  if (result.ok) await writeCache(key, kind, result.value);
+  return result;
+};
+
+/**
+ * Diagnostic Expert: a validated structured diagnosis in the farmer's language. Pass `signal` to let the farmer cancel.
+ */
+export const getDiagnosticAdvice = async (
+  context: DiagnosticContext,
+  description: string,
+  imageData: string | undefined,
+  language: Language,
+  signal?: AbortSignal
+): Promise<AIResult<StructuredDiagnosis>> => {
+  const provider = selectAIProvider();
+  const imageDigest = imageData ? await fingerprint([imageData]).catch(() => null) : '';
+  return withCache('text', ['diagnose', provider.id, diagnosisPrompt(context, description, language), imageDigest || ''], () =>
+    runAIRequest('diagnose', async s => {
+      const raw = await provider.diagnose(context, description, imageData, language, s);
+      return validated(() => parseDiagnosis(raw));
+    }, { signal, local: provider.local }));
+};
+
+/**
+ * Case Follow-up: Replays the case as a conversation so the expert can refine its answer.
+ */
+export const continueDiagnosticChat = (diagnosticCase: DiagnosticCase, thread: CaseMessage[], signal?: AbortSignal): Promise<AIResult<string>> => {
+  const provider = selectAIProvider();
+  return runAIRequest('chat', async s => {
+    const reply = await provider.chat(caseChatTurns(diagnosticCase, thread), s);
+    return validated(() => nonEmpty(reply));
+  }, { signal, local: provider.local });
+};
+
+/**
+ * Audio Transcription: voice note to English text.
+ */
+export const transcribeAudio = (base64Audio: string, signal?: AbortSignal): Promise<AIResult<string>> => {
+  const provider = selectAIProvider();
+  return runAIRequest('transcribe', async s => {
+    const transcript = await provider.transcribe(base64Audio, s);
+    return validated(() => nonEmpty(transcript));
+  }, { signal, local: provider.local });
+};
+
+/**
+ * Voice Assistant Intent Parser: Interprets commands to navigate, answer questions or change farm data.
+ */
+export const processCommandIntent = (text: string, signal?: AbortSignal): Promise<AIResult<AssistantIntent>> => {
+  const provider = selectAIProvider();
+  // Keyed by day as well: relative dates ("sown yesterday") resolve differently tomorrow
+  const today = todayISO();
+  return withCache('text', ['parseIntent', provider.id, today, text.trim().toLowerCase()], () =>
+    runAIRequest('parseIntent', async s => {
+      const raw = await provider.parseIntent(text, s);
+      return validated(() => parseIntent(raw));
+    }, { signal, local: provider.local }));
+};
+
+/**
+ * Text-to-Speech: base64 24 kHz PCM for the assistant's voice. Cached per text, voice and
+ * language, so a case read aloud once can be replayed offline.
+ */
+export const generateSpeech = (text: string, language: Language, signal?: AbortSignal): Promise<AIResult<string>> => {
+  const provider = selectAIProvider();
+  return withCache('speech', ['speak', provider.id, provider.speechVoice, language, text], () =>
+    runAIRequest('speak', async s => {
+      const audio = await provider.speak(text, s);
+      return validated(() => nonEmpty(audio));
+    }, { signal, local: provider.local }));
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { AppState, CropType, FarmerCrop, Language, SoilType } from '../types';
+import { planAssistantAction, resolveField } from './AssistantActions';
+import { getOfflineRegion } from './RegionService';
+
+const field = (id: string, nickname: string, type = CropType.COTTON): FarmerCrop => ({
+  id, nickname, type, sowingDate: '2024-06-15', soilType: SoilType.BLACK, region: 'vidarbha'
+});
+
+const state = (crops: FarmerCrop[]): AppState => ({
+  language: Language.ENGLISH, user: null, crops, weatherSnapshot: [], weatherMeta: null, weatherHistory: [], isOnline: true,
+  lastSyncTime: null, cachedInsights: [], diagnosticHistory: [],
+  settings: { theme: 'light', usageMode: 'simple', highContrast: false, hapticFeedback: false, criticalAlertsOnly: false, dailyReminderTime: '07:00', pinLock: null, hideSensitiveInfo: false }
+});
+
+describe('resolveField', () => {
+  const east = field('1', 'East field');
+  const river = field('2', 'River plot', CropType.WHEAT);
+
+  it('matches by nickname, crop or position', () => {
+    expect(resolveField('east', [east, river])).toBe(east);
+    expect(resolveField('my wheat', [east, river])).toBe(river);
+    expect(resolveField('plot 2', [east, river])).toBe(river);
+  });
+
+  it('takes the only field when none is named', () => {
+    expect(resolveField(undefined, [east])).toBe(east);
+    expect(resolveField(undefined, [east, river])).toBeNull();
+  });
+
+  it('does not stretch a reference that matches nothing onto the only field', () => {
+    expect(resolveField('plot 2', [east])).toBeNull();
+    expect(resolveField('wheat', [east])).toBeNull();
+  });
+
+  it('asks which field instead of writing to the wrong one', () => {
+    const plan = planAssistantAction({ action: 'LOG_IRRIGATION', field: 'plot 2', amountMm: 20 }, state([east]));
+    expect(plan.confirm).toBeUndefined();
+    expect(plan.reply).toContain('East field');
+  });
+});
+
+describe('adding a field by voice', () => {
+  const intent = { action: 'ADD_CROP', crop: { type: CropType.WHEAT } } as const;
+
+  it('places the field at the GPS fix and in its region', () => {
+    const location = { lat: 30.9, lng: 75.85 };
+    const plan = planAssistantAction(intent, state([field('1', 'East field')]), location);
+    const crop = plan.confirm?.kind === 'addCrop' ? plan.confirm.crop : undefined;
+    expect(crop).toMatchObject({ location, region: getOfflineRegion(location.lat, location.lng)!.id });
+    expect(crop?.region).not.toBe('vidarbha');
+  });
+
+  it('falls back to the usual region without a fix, and to the form without either', () => {
+    const plan = planAssistantAction(intent, state([field('1', 'East field')]));
+    expect(plan.confirm).toMatchObject({ crop: { region: 'vidarbha', location: undefined } });
+    expect(planAssistantAction(intent, state([])).navigate).toBe('add');
+  });
+});
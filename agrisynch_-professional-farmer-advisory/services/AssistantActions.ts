@@ -0,0 +1,217 @@
+
+import {
+  AppState, AssistantIntent, AssistantQuery, AssistantView, AssistantWrite, CropDataset, FarmerCrop, GeoPoint, InsightPriority, Language, LocalizedText, SoilProfile
+} from '../types';
+import { CROP_DATASETS, SOIL_PROFILES } from '../constants';
+import { computeForwardInsights } from './AdvisoryEngine';
+import { calculateStageProgress } from './StageModel';
+import { scheduleIrrigation } from './IrrigationScheduler';
+import { REGIONS, getOfflineRegion } from './RegionService';
+import { resolveAdvisory } from './RegionalAdvisory';
+import { dueTasks } from './FieldTasks';
+import { daysBetween, parseISODate, todayISO } from './Dates';
+import { cropTypeOf, normalizeUtterance, SPEECH_LOCALES } from './VoiceCommands';
+import GRAMMAR_JSON from '../data/voiceCommands.json';
+
+const ANSWERS = GRAMMAR_JSON.answers;
+// Items read out for "what should I do today"
+const MAX_SPOKEN_TASKS = 3;
+
+// What the assistant says, and what it does once the farmer has heard it
+export interface AssistantPlan {
+  reply: string;
+  navigate?: AssistantView;
+  // Held until the farmer says yes
+  confirm?: AssistantWrite;
+}
+
+const PRIORITY_RANK: Record<InsightPriority, number> = {
+  [InsightPriority.CRITICAL]: 0, [InsightPriority.WARNING]: 1, [InsightPriority.NORMAL]: 2
+};
+
+const fill = (template: string, values: Record<string, string | number>) =>
+  template.replace(/\{\{(\w+)\}\}/g, (_, key) => String(values[key] ?? ''));
+
+const localName = (item: CropDataset | SoilProfile, language: Language) =>
+  language === Language.HINDI ? item.hindiName : language === Language.MARATHI ? item.marathiName : item.name;
+
+const spokenDate = (iso: string, language: Language) =>
+  parseISODate(iso).toLocaleDateString(SPEECH_LOCALES[language], { day: 'numeric', month: 'long' });
+
+const today = todayISO;
+
+const activeCrops = (state: AppState) => state.crops.filter(c => !c.archived);
+
+/**
+ * Finds the field the farmer meant by words shared with its nickname ("east field"), by
+ * its crop ("my wheat"), or by position ("plot 2" when no nickname has that number).
+ * Naming no field means the only one there is; a reference that matches nothing, or ties,
+ * resolves to nothing so the farmer is asked which field.
+ */
+export const resolveField = (reference: string | undefined, crops: FarmerCrop[]): FarmerCrop | null => {
+  if (!reference) return crops.length === 1 ? crops[0] : null;
+  if (!crops.length) return null;
+  const words = normalizeUtterance(reference);
+  const nicknameHasNumber = crops.some(c => /\d/.test(c.nickname));
+
+  const scored = crops.map((crop, index) => {
+    const nickname = new Set(normalizeUtterance(crop.nickname));
+    const score = words.reduce((sum, w) =>
+      sum + (nickname.has(w) ? 2 : 0)
+          + (cropTypeOf(w) === crop.type ? 1 : 0)
+          + (!nicknameHasNumber && w === String(index + 1) ? 3 : 0), 0);
+    return { crop, score };
+  }).sort((a, b) => b.score - a.score);
+
+  const [first, second] = scored;
+  return first.score > 0 && first.score > (second?.score ?? 0) ? first.crop : null;
+};
+
+const whichField = (crops: FarmerCrop[], language: Language) =>
+  crops.length
+    ? fill(ANSWERS.whichField[language], { fields: crops.map(c => c.nickname).join(', ') })
+    : ANSWERS.noFields[language];
+
+const answerWeather = (state: AppState, language: Language) => {
+  const day = state.weatherSnapshot.find(d => d.date >= today());
+  if (!day) return ANSWERS.noWeather[language];
+  return fill(ANSWERS.weather[language], {
+    location: state.weatherMeta?.locationName || '',
+    condition: (ANSWERS.conditions[day.condition] as LocalizedText)[language],
+    tempMin: day.tempMin,
+    tempMax: day.tempMax,
+    precipChance: day.precipChance
+  });
+};
+
+const rankedInsights = (state: AppState) =>
+  computeForwardInsights(state).sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority]);
+
+const answerInsights = (state: AppState, language: Language) => {
+  const insights = rankedInsights(state);
+  if (!insights.length) return ANSWERS.noInsights[language];
+  return fill(ANSWERS.insights[language], { count: insights.length, title: insights[0].title });
+};
+
+// Field tasks and insights due today first; with none, the current stage's irrigation and pest advisory for each field's region
+const answerTodayTasks = (state: AppState, language: Language) => {
+  const crops = activeCrops(state);
+  if (!crops.length) return ANSWERS.noFields[language];
+  const due = [
+    ...crops.flatMap(crop => dueTasks(crop, today()).map(task => `${crop.nickname}: ${task.title}`)),
+    ...rankedInsights(state).filter(i => i.actionDate <= today()).map(i => `${i.cropNickname}: ${i.title}`)
+  ];
+  const tasks = due.length
+    ? due.slice(0, MAX_SPOKEN_TASKS)
+    : crops.slice(0, MAX_SPOKEN_TASKS).map(crop => {
+        const stage = calculateStageProgress(crop.type, crop.sowingDate, state.weatherHistory, state.weatherSnapshot).stage;
+        const advisory = resolveAdvisory(crop.type, stage, crop.region);
+        return fill(ANSWERS.stageAdvice[language], { field: crop.nickname, irrigation: advisory.irrigation, pest: advisory.pestAlert });
+      });
+  return fill(ANSWERS.todayTasks[language], { tasks: tasks.join('; ') });
+};
+
+const answerCropStage = (field: string | undefined, state: AppState, language: Language) => {
+  const crops = activeCrops(state);
+  const crop = resolveField(field, crops);
+  if (!crop) return whichField(crops, language);
+  const progress = calculateStageProgress(crop.type, crop.sowingDate, state.weatherHistory, state.weatherSnapshot);
+  const days = Math.max(0, daysBetween(crop.sowingDate, today()));
+  const stageName = (stage: string) => (ANSWERS.stages[stage] as LocalizedText)[language];
+  const current = fill(ANSWERS.cropStage[language], {
+    field: crop.nickname,
+    crop: localName(CROP_DATASETS[crop.type], language),
+    stage: stageName(progress.stage),
+    days
+  });
+  if (!progress.nextStage || !progress.nextStageDate) return current;
+  return `${current} ${fill(ANSWERS.nextStage[language], { stage: stageName(progress.nextStage), date: spokenDate(progress.nextStageDate, language) })}`;
+};
+
+// Spoken answers to the QUERY intents, from the data already on the device
+export const answerQuery = (query: AssistantQuery, state: AppState, language: Language, field?: string): string => {
+  switch (query) {
+    case 'weather': return answerWeather(state, language);
+    case 'insights': return answerInsights(state, language);
+    case 'todayTasks': return answerTodayTasks(state, language);
+    case 'cropStage': return answerCropStage(field, state, language);
+  }
+};
+
+// The farmer's usual soil and region stand in for ones they don't say
+const mostCommon = <T>(values: T[]): T | undefined => {
+  const counts = new Map<T, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+};
+
+/**
+ * Turns an intent into a reply plus, for writes, the change to confirm. Missing details
+ * that have no safe default (crop, region, field, amount) are asked for instead. `location`
+ * is the device's GPS fix, if one was taken; a new field is placed there as the form would.
+ */
+export const planAssistantAction = (intent: AssistantIntent, state: AppState, location?: GeoPoint): AssistantPlan => {
+  const language = state.language;
+  const crops = activeCrops(state);
+
+  switch (intent.action) {
+    case 'NAVIGATE':
+      return { reply: intent.message || `Navigating to ${intent.target}`, navigate: intent.target };
+
+    case 'SPEAK':
+      return { reply: intent.message };
+
+    case 'QUERY':
+      return { reply: answerQuery(intent.target, state, language, intent.field) };
+
+    case 'ADD_CROP': {
+      const { type, sowingDate = today(), nickname } = intent.crop;
+      if (!type) return { reply: intent.message || ANSWERS.addCropForm[language], navigate: 'add' };
+      const region = (location && getOfflineRegion(location.lat, location.lng))
+        || REGIONS.find(r => r.id === mostCommon(crops.map(c => c.region).filter(id => REGIONS.some(r => r.id === id))));
+      // Without a fix or an earlier field to go by, the farmer picks the region on the form
+      if (!region) return { reply: ANSWERS.missingRegion[language], navigate: 'add' };
+      const soilType = intent.crop.soilType || mostCommon(crops.map(c => c.soilType)) || region.defaultSoil;
+      const cropName = localName(CROP_DATASETS[type], language);
+      const crop: FarmerCrop = {
+        id: Date.now().toString(),
+        type,
+        soilType,
+        sowingDate,
+        region: region.id,
+        location,
+        nickname: nickname || `${cropName} ${state.crops.filter(c => c.type === type).length + 1}`
+      };
+      return {
+        reply: fill(ANSWERS.confirmAddCrop[language], {
+          crop: cropName,
+          name: crop.nickname,
+          soil: localName(SOIL_PROFILES[soilType], language),
+          date: spokenDate(sowingDate, language)
+        }),
+        confirm: { kind: 'addCrop', crop }
+      };
+    }
+
+    case 'LOG_IRRIGATION': {
+      const crop = resolveField(intent.field, crops);
+      if (!crop) return { reply: whichField(crops, language) };
+      const amountMm = intent.amountMm || scheduleIrrigation(crop, state.weatherHistory, state.weatherSnapshot)?.recommendedMm;
+      if (!amountMm) return { reply: fill(ANSWERS.needAmount[language], { field: crop.nickname }) };
+      return {
+        reply: fill(ANSWERS.confirmIrrigation[language], { amount: amountMm, field: crop.nickname }),
+        confirm: { kind: 'logIrrigation', cropId: crop.id, amountMm }
+      };
+    }
+  }
+};
+
+// Said after the farmer confirms and the change is saved
+export const describeSavedWrite = (write: AssistantWrite, state: AppState): string => {
+  const language = state.language;
+  if (write.kind === 'addCrop') return fill(ANSWERS.cropAdded[language], { name: write.crop.nickname });
+  const crop = state.crops.find(c => c.id === write.cropId);
+  return fill(ANSWERS.irrigationLogged[language], { amount: write.amountMm, field: crop?.nickname || '' });
+};
+
+export const cancelledWriteMessage = (language: Language) => ANSWERS.cancelled[language];
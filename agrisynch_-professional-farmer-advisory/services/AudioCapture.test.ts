@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { TARGET_SAMPLE_RATE, encodePcm16, encodeWav, resample, trimSilence } from './AudioCapture';
+
+const sine = (frequency: number, sampleRate: number, seconds: number, amplitude = 0.5) =>
+  Float32Array.from({ length: Math.round(sampleRate * seconds) }, (_, i) => amplitude * Math.sin(2 * Math.PI * frequency * i / sampleRate));
+
+const silence = (sampleRate: number, seconds: number) => new Float32Array(Math.round(sampleRate * seconds));
+
+const join = (...parts: Float32Array[]) => {
+  const out = new Float32Array(parts.reduce((sum, p) => sum + p.length, 0));
+  parts.reduce((offset, p) => { out.set(p, offset); return offset + p.length; }, 0);
+  return out;
+};
+
+// Upward zero crossings per second
+const estimateFrequency = (samples: Float32Array, sampleRate: number) => {
+  let crossings = 0;
+  for (let i = 1; i < samples.length; i++) if (samples[i - 1] < 0 && samples[i] >= 0) crossings++;
+  return crossings * sampleRate / samples.length;
+};
+
+const tag = (view: DataView, offset: number) => String.fromCharCode(...[0, 1, 2, 3].map(i => view.getUint8(offset + i)));
+
+describe('resample', () => {
+  it('downsamples 48 kHz to 16 kHz keeping duration and pitch', () => {
+    const out = resample(sine(440, 48000, 1), 48000, TARGET_SAMPLE_RATE);
+    expect(out.length).toBe(16000);
+    expect(estimateFrequency(out, TARGET_SAMPLE_RATE)).toBeCloseTo(440, -1);
+  });
+
+  it('handles non-integer ratios', () => {
+    const out = resample(sine(300, 44100, 2), 44100, TARGET_SAMPLE_RATE);
+    expect(out.length).toBe(Math.floor(88200 / (44100 / 16000)));
+    expect(Math.abs(estimateFrequency(out, TARGET_SAMPLE_RATE) - 300)).toBeLessThan(3);
+  });
+
+  it('upsamples 8 kHz to 16 kHz by interpolation', () => {
+    const out = resample(sine(200, 8000, 1), 8000, TARGET_SAMPLE_RATE);
+    expect(out.length).toBe(16000);
+    expect(Math.abs(estimateFrequency(out, TARGET_SAMPLE_RATE) - 200)).toBeLessThan(2);
+  });
+
+  it('copies the input when the rates match', () => {
+    const input = sine(440, 16000, 0.1);
+    const out = resample(input, 16000, 16000);
+    expect(out).toEqual(input);
+    expect(out).not.toBe(input);
+  });
+});
+
+describe('trimSilence', () => {
+  const rate = TARGET_SAMPLE_RATE;
+
+  it('drops leading and trailing silence, keeping 200 ms of padding', () => {
+    const out = trimSilence(join(silence(rate, 1), sine(440, rate, 0.5), silence(rate, 1)), rate);
+    // Speech plus padding either side, within one 20 ms analysis frame
+    expect(Math.abs(out.length - rate * 0.9)).toBeLessThanOrEqual(rate * 0.02);
+  });
+
+  it('keeps a recording that is speech throughout', () => {
+    expect(trimSilence(sine(440, rate, 0.5), rate).length).toBe(rate * 0.5);
+  });
+
+  it('returns nothing for an all-silent recording', () => {
+    expect(trimSilence(silence(rate, 1), rate).length).toBe(0);
+    expect(trimSilence(sine(440, rate, 1, 0.005), rate).length).toBe(0);
+  });
+});
+
+describe('encodePcm16', () => {
+  it('scales full range to the int16 extremes', () => {
+    expect(Array.from(encodePcm16(Float32Array.from([0, 1, -1, 0.5, -0.5])))).toEqual([0, 32767, -32768, 16384, -16384]);
+  });
+
+  it('clips samples outside [-1, 1]', () => {
+    expect(Array.from(encodePcm16(Float32Array.from([1.5, -2, 40])))).toEqual([32767, -32768, 32767]);
+  });
+});
+
+describe('encodeWav', () => {
+  it('writes a canonical mono 16-bit PCM header', () => {
+    const samples = sine(440, TARGET_SAMPLE_RATE, 0.25);
+    const buffer = encodeWav(samples, TARGET_SAMPLE_RATE);
+    const view = new DataView(buffer);
+
+    expect(buffer.byteLength).toBe(44 + samples.length * 2);
+    expect(tag(view, 0)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(buffer.byteLength - 8);
+    expect(tag(view, 8)).toBe('WAVE');
+    expect(tag(view, 12)).toBe('fmt ');
+    expect(view.getUint32(16, true)).toBe(16);
+    expect(view.getUint16(20, true)).toBe(1);
+    expect(view.getUint16(22, true)).toBe(1);
+    expect(view.getUint32(24, true)).toBe(TARGET_SAMPLE_RATE);
+    expect(view.getUint32(28, true)).toBe(TARGET_SAMPLE_RATE * 2);
+    expect(view.getUint16(32, true)).toBe(2);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(tag(view, 36)).toBe('data');
+    expect(view.getUint32(40, true)).toBe(samples.length * 2);
+  });
+
+  it('stores the PCM samples little-endian after the header', () => {
+    const samples = Float32Array.from([0, 1, -1, 0.25]);
+    const view = new DataView(encodeWav(samples, 8000));
+    const pcm = encodePcm16(samples);
+    pcm.forEach((s, i) => expect(view.getInt16(44 + i * 2, true)).toBe(s));
+  });
+
+  it('encodes an empty recording as a header only', () => {
+    const view = new DataView(encodeWav(new Float32Array(0), TARGET_SAMPLE_RATE));
+    expect(view.byteLength).toBe(44);
+    expect(view.getUint32(40, true)).toBe(0);
+  });
+});
@@ -0,0 +1,209 @@
+
+// What the transcription models expect: 16 kHz mono, 16-bit little-endian PCM in a WAV container
+export const TARGET_SAMPLE_RATE = 16000;
+export const DEFAULT_MAX_SECONDS = 30;
+
+// Silence trimming: 20 ms analysis frames, anything quieter than the floor is silence
+const FRAME_SECONDS = 0.02;
+const SILENCE_RMS = 0.01;
+// Kept either side of the speech so soft word onsets and endings survive the trim
+const SPEECH_PADDING_SECONDS = 0.2;
+
+const PROCESSOR_NAME = 'agrisynch-capture';
+
+// Runs on the audio thread: downmixes to mono and posts ~4096-sample blocks to the page
+const WORKLET_SOURCE = `
+class CaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.block = new Float32Array(4096);
+    this.filled = 0;
+  }
+  process(inputs) {
+    const input = inputs[0];
+    if (!input || input.length === 0) return true;
+    const length = input[0].length;
+    for (let i = 0; i < length; i++) {
+      let sum = 0;
+      for (let c = 0; c < input.length; c++) sum += input[c][i];
+      this.block[this.filled++] = sum / input.length;
+      if (this.filled === this.block.length) {
+        this.port.postMessage(this.block, [this.block.buffer]);
+        this.block = new Float32Array(4096);
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('${PROCESSOR_NAME}', CaptureProcessor);
+`;
+
+export interface CapturedAudio {
+  wav: Blob;
+  // The WAV file, base64 without a data: prefix
+  base64: string;
+  mimeType: 'audio/wav';
+  // After silence trimming; 0 means nothing but silence was heard
+  durationSeconds: number;
+}
+
+export interface AudioCaptureSession {
+  stop: () => Promise<CapturedAudio>;
+  cancel: () => void;
+}
+
+/**
+ * Converts between sample rates. Downsampling averages the source samples each output sample
+ * spans (a box low-pass, enough to keep speech free of audible aliasing); upsampling interpolates.
+ */
+export const resample = (samples: Float32Array, fromRate: number, toRate: number): Float32Array => {
+  if (fromRate === toRate) return samples.slice();
+  const ratio = fromRate / toRate;
+  const out = new Float32Array(Math.floor(samples.length / ratio));
+  for (let i = 0; i < out.length; i++) {
+    if (ratio > 1) {
+      const start = Math.floor(i * ratio);
+      const end = Math.min(samples.length, Math.floor((i + 1) * ratio));
+      let sum = 0;
+      for (let j = start; j < end; j++) sum += samples[j];
+      out[i] = sum / Math.max(1, end - start);
+    } else {
+      const pos = i * ratio;
+      const j = Math.floor(pos);
+      const next = samples[Math.min(j + 1, samples.length - 1)];
+      out[i] = samples[j] + (next - samples[j]) * (pos - j);
+    }
+  }
+  return out;
+};
+
+// Drops leading and trailing silence; an all-silent recording comes back empty
+export const trimSilence = (samples: Float32Array, sampleRate: number, threshold = SILENCE_RMS): Float32Array => {
+  const frame = Math.max(1, Math.round(sampleRate * FRAME_SECONDS));
+  let first = -1;
+  let last = -1;
+  for (let start = 0; start < samples.length; start += frame) {
+    const end = Math.min(samples.length, start + frame);
+    let energy = 0;
+    for (let i = start; i < end; i++) energy += samples[i] * samples[i];
+    if (Math.sqrt(energy / (end - start)) >= threshold) {
+      if (first < 0) first = start;
+      last = end;
+    }
+  }
+  if (first < 0) return new Float32Array(0);
+  const padding = Math.round(sampleRate * SPEECH_PADDING_SECONDS);
+  return samples.slice(Math.max(0, first - padding), Math.min(samples.length, last + padding));
+};
+
+// Clamps to [-1, 1] and scales asymmetrically so both -1 and 1 map to the int16 extremes
+export const encodePcm16 = (samples: Float32Array): Int16Array => {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = s < 0 ? Math.round(s * 0x8000) : Math.round(s * 0x7fff);
+  }
+  return pcm;
+};
+
+// Canonical 44-byte RIFF/WAVE header followed by mono 16-bit PCM
+export const encodeWav = (samples: Float32Array, sampleRate: number): ArrayBuffer => {
+  const pcm = encodePcm16(samples);
+  const buffer = new ArrayBuffer(44 + pcm.length * 2);
+  const view = new DataView(buffer);
+  const writeTag = (offset: number, tag: string) => [...tag].forEach((ch, i) => view.setUint8(offset + i, ch.charCodeAt(0)));
+
+  writeTag(0, 'RIFF');
+  view.setUint32(4, 36 + pcm.length * 2, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  view.setUint32(16, 16, true);             // fmt chunk size
+  view.setUint16(20, 1, true);              // PCM
+  view.setUint16(22, 1, true);              // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true);              // block align
+  view.setUint16(34, 16, true);             // bits per sample
+  writeTag(36, 'data');
+  view.setUint32(40, pcm.length * 2, true);
+  pcm.forEach((s, i) => view.setInt16(44 + i * 2, s, true));
+  return buffer;
+};
+
+const toBase64 = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+const concat = (blocks: Float32Array[], length: number) => {
+  const out = new Float32Array(length);
+  let offset = 0;
+  blocks.forEach(b => { out.set(b.subarray(0, length - offset), offset); offset += Math.min(b.length, length - offset); });
+  return out;
+};
+
+/**
+ * Starts recording from the microphone. Recording stops collecting at `maxSeconds` and calls
+ * `onLimit` so the caller can finish the session; `stop()` returns the trimmed 16 kHz WAV.
+ */
+export const startCapture = async (options: { maxSeconds?: number, onLimit?: () => void } = {}): Promise<AudioCaptureSession> => {
+  const { maxSeconds = DEFAULT_MAX_SECONDS, onLimit } = options;
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true }
+  });
+  const ctx = new (window.AudioContext || window.webkitAudioContext)();
+  const release = () => {
+    stream.getTracks().forEach(t => t.stop());
+    ctx.close().catch(() => undefined);
+  };
+
+  try {
+    if (!ctx.audioWorklet) throw new Error('AudioWorklet is not supported');
+    const moduleUrl = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+    await ctx.audioWorklet.addModule(moduleUrl).finally(() => URL.revokeObjectURL(moduleUrl));
+  } catch (e) {
+    release();
+    throw e;
+  }
+
+  const source = ctx.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(ctx, PROCESSOR_NAME);
+  const maxSamples = Math.round(maxSeconds * ctx.sampleRate);
+  const blocks: Float32Array[] = [];
+  let collected = 0;
+
+  node.port.onmessage = (e: MessageEvent<Float32Array>) => {
+    if (collected >= maxSamples) return;
+    blocks.push(e.data);
+    collected += e.data.length;
+    if (collected >= maxSamples) onLimit?.();
+  };
+  // The node must reach the destination to be pulled; it outputs silence
+  source.connect(node).connect(ctx.destination);
+
+  const finish = () => {
+    node.port.onmessage = null;
+    source.disconnect();
+    node.disconnect();
+    release();
+  };
+
+  return {
+    stop: async () => {
+      finish();
+      const raw = concat(blocks, Math.min(collected, maxSamples));
+      const speech = trimSilence(resample(raw, ctx.sampleRate, TARGET_SAMPLE_RATE), TARGET_SAMPLE_RATE);
+      const wav = encodeWav(speech, TARGET_SAMPLE_RATE);
+      return {
+        wav: new Blob([wav], { type: 'audio/wav' }),
+        base64: toBase64(wav),
+        mimeType: 'audio/wav',
+        durationSeconds: speech.length / TARGET_SAMPLE_RATE
+      };
+    },
+    cancel: finish
+  };
+};
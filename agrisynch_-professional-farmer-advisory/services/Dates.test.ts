@@ -0,0 +1,33 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { addDays, daysBetween, parseISODate, toISODate, todayISO } from './Dates';
+
+describe('local calendar dates', () => {
+  const zone = process.env.TZ;
+  beforeEach(() => {
+    process.env.TZ = 'Asia/Kolkata';
+    vi.useFakeTimers();
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+    process.env.TZ = zone;
+  });
+
+  it('names the Indian calendar day before 05:30 IST', () => {
+    // 01:30 IST on the 19th is still the 18th in UTC
+    vi.setSystemTime(new Date('2026-10-18T20:00:00Z'));
+    expect(todayISO()).toBe('2026-10-19');
+    expect(addDays(todayISO(), -1)).toBe('2026-10-18');
+  });
+
+  it('round-trips dates through local midnight', () => {
+    expect(toISODate(parseISODate('2024-02-29'))).toBe('2024-02-29');
+    expect(parseISODate('2024-02-29').getHours()).toBe(0);
+  });
+
+  it('steps across month and year ends', () => {
+    expect(addDays('2024-02-28', 1)).toBe('2024-02-29');
+    expect(addDays('2025-12-31', 1)).toBe('2026-01-01');
+    expect(addDays('2026-03-01', -1)).toBe('2026-02-28');
+    expect(daysBetween('2025-12-25', '2026-01-04')).toBe(10);
+  });
+});
@@ -0,0 +1,26 @@
+
+// Calendar dates are YYYY-MM-DD strings on the device's own calendar. toISOString() would
+// give the UTC day instead, which in India is still yesterday until 05:30.
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const toISODate = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+
+export const todayISO = () => toISODate(new Date());
+
+// Local midnight of a YYYY-MM-DD date; `new Date('2024-06-01')` would be UTC midnight
+export const parseISODate = (iso: string): Date => {
+  const [year, month, day] = iso.slice(0, 10).split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// Steps by calendar days, so daylight-saving changes never skip or repeat a date
+export const addDays = (iso: string, days: number) => {
+  const d = parseISODate(iso);
+  d.setDate(d.getDate() + days);
+  return toISODate(d);
+};
+
+export const daysBetween = (from: string, to: string) =>
+  Math.round((parseISODate(to).getTime() - parseISODate(from).getTime()) / DAY_MS);
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { Language } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { formatDiagnosis, parseDiagnosis } from './DiagnosisSchema';
+
+const response = (overrides: object = {}) => ({
+  suspectedProblem: ' Whitefly ',
+  confidence: 'high',
+  cause: 'Warm, humid spell',
+  interventions: [
+    { type: 'organic', action: 'Spray neem oil', dosage: '5 ml per litre' },
+    { type: 'mechanical', action: 'Hang yellow sticky traps', dosage: '' }
+  ],
+  prevention: ['Remove weed hosts'],
+  urgency: 'within-week',
+  ...overrides
+});
+
+describe('parseDiagnosis', () => {
+  it('accepts a well-formed response and trims its text', () => {
+    const d = parseDiagnosis(response());
+    expect(d.suspectedProblem).toBe('Whitefly');
+    expect(d.interventions).toEqual([
+      { type: 'organic', action: 'Spray neem oil', dosage: '5 ml per litre' },
+      { type: 'mechanical', action: 'Hang yellow sticky traps' }
+    ]);
+  });
+
+  it.each([
+    [null, 'body'],
+    [['not', 'an', 'object'], 'body'],
+    [response({ suspectedProblem: '  ' }), 'suspectedProblem'],
+    [response({ confidence: 'certain' }), 'confidence'],
+    [response({ interventions: [] }), 'interventions'],
+    [response({ interventions: [{ type: 'prayer', action: 'Hope' }] }), 'interventions[]'],
+    [response({ interventions: [{ type: 'organic', action: 'Neem', dosage: 5 }] }), 'interventions[]'],
+    [response({ prevention: 'Rotate crops' }), 'prevention'],
+    [response({ urgency: 'someday' }), 'urgency']
+  ])('rejects %j at %s', (raw, field) => {
+    expect(() => parseDiagnosis(raw)).toThrow(`Invalid ${field} in diagnosis response`);
+  });
+});
+
+describe('formatDiagnosis', () => {
+  it('labels the read-aloud text in the farmer language', () => {
+    const t = TRANSLATIONS[Language.HINDI];
+    const text = formatDiagnosis(parseDiagnosis(response()), Language.HINDI);
+    expect(text).toContain(`${t.confidence}: ${t.confidenceHigh}`);
+    expect(text).toContain(`${t.urgency}: ${t.urgencyWithinWeek}`);
+    expect(text).toContain(`${t.organic}: Spray neem oil (5 ml per litre)`);
+    expect(text).not.toContain('Cause:');
+  });
+});
@@ -0,0 +1,65 @@
+import { StructuredDiagnosis, DiagnosisConfidence, DiagnosisUrgency, DiagnosisIntervention, InterventionType, Language } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { isNonEmptyString, isOneOf, isRecord } from './Guards';
+
+export const CONFIDENCE_LEVELS: DiagnosisConfidence[] = ['low', 'medium', 'high'];
+export const URGENCY_LEVELS: DiagnosisUrgency[] = ['immediate', 'within-week', 'monitor'];
+export const INTERVENTION_TYPES: InterventionType[] = ['organic', 'chemical', 'mechanical'];
+
+const isIntervention = (i: unknown): i is DiagnosisIntervention =>
+  isRecord(i) && isOneOf(i.type, INTERVENTION_TYPES) && isNonEmptyString(i.action) &&
+  (i.dosage === undefined || typeof i.dosage === 'string');
+
+const invalid = (field: string): never => {
+  throw new Error(`Invalid ${field} in diagnosis response`);
+};
+
+/**
+ * Checks a model response against the StructuredDiagnosis shape. Throws on the first
+ * problem so a malformed answer is never stored as if it were a diagnosis.
+ */
+export const parseDiagnosis = (raw: unknown): StructuredDiagnosis => {
+  if (!isRecord(raw)) return invalid('body');
+  const { suspectedProblem, confidence, cause, interventions, prevention, urgency } = raw;
+  if (!isNonEmptyString(suspectedProblem)) return invalid('suspectedProblem');
+  if (!isOneOf(confidence, CONFIDENCE_LEVELS)) return invalid('confidence');
+  if (!isNonEmptyString(cause)) return invalid('cause');
+  if (!Array.isArray(interventions) || interventions.length === 0) return invalid('interventions');
+  if (!interventions.every(isIntervention)) return invalid('interventions[]');
+  if (!Array.isArray(prevention) || !prevention.every(isNonEmptyString)) return invalid('prevention');
+  if (!isOneOf(urgency, URGENCY_LEVELS)) return invalid('urgency');
+
+  return {
+    suspectedProblem: suspectedProblem.trim(),
+    confidence,
+    cause: cause.trim(),
+    interventions: interventions.map(i => ({
+      type: i.type,
+      action: i.action.trim(),
+      ...(isNonEmptyString(i.dosage) ? { dosage: i.dosage.trim() } : {})
+    })),
+    prevention: prevention.map(p => p.trim()),
+    urgency
+  };
+};
+
+export const confidenceLabel = (confidence: DiagnosisConfidence, language: Language) => {
+  const t = TRANSLATIONS[language];
+  return { low: t.confidenceLow, medium: t.confidenceMedium, high: t.confidenceHigh }[confidence];
+};
+
+export const urgencyLabel = (urgency: DiagnosisUrgency, language: Language) => {
+  const t = TRANSLATIONS[language];
+  return { 'immediate': t.urgencyImmediate, 'within-week': t.urgencyWithinWeek, 'monitor': t.urgencyMonitor }[urgency];
+};
+
+// Plain text for read-aloud and the legacy `diagnosis` field, labelled in the farmer's language
+export const formatDiagnosis = (d: StructuredDiagnosis, language: Language): string => {
+  const t = TRANSLATIONS[language];
+  return [
+    `${d.suspectedProblem} (${t.confidence}: ${confidenceLabel(d.confidence, language)}, ${t.urgency}: ${urgencyLabel(d.urgency, language)}).`,
+    `${t.cause}: ${d.cause}`,
+    ...d.interventions.map(i => `${t[i.type]}: ${i.action}${i.dosage ? ` (${i.dosage})` : ''}`),
+    `${t.prevention}: ${d.prevention.join('; ')}`
+  ].join('\n');
+};
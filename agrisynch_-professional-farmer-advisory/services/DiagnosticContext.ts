@@ -0,0 +1,43 @@
+
+import { AppState, FarmerCrop, DiagnosticContext, WeatherDay } from '../types';
+import { CROP_DATASETS, SOIL_PROFILES } from '../constants';
+import { calculateGrowthStage } from './StageModel';
+import { REGIONS } from './RegionService';
+import { todayISO } from './Dates';
+
+const RECENT_WEATHER_DAYS = 7;
+const PRIOR_CASE_LIMIT = 3;
+
+// Used when the farmer asks without picking a field
+export const GENERIC_CONTEXT: DiagnosticContext = { cropName: 'Unspecified crop', stage: 'Unknown' };
+
+const describeDay = (d: WeatherDay) =>
+  `${d.date}: ${d.condition}, ${d.tempMin}-${d.tempMax}°C, humidity ${d.humidity}%, rain ${d.rainMm} mm`;
+
+/**
+ * Snapshot of what the app knows about a field, for the diagnostic prompt. Captured at
+ * request time so a queued (offline) request describes the field as it was when asked.
+ */
+export const buildDiagnosticContext = (crop: FarmerCrop, state: AppState): DiagnosticContext => {
+  const soil = SOIL_PROFILES[crop.soilType];
+  const region = REGIONS.find(r => r.id === crop.region);
+  const today = todayISO();
+
+  // Observed days up to today, then whatever forecast is left
+  const observed = state.weatherHistory.filter(d => d.date < today).slice(-RECENT_WEATHER_DAYS);
+  const upcoming = state.weatherSnapshot.filter(d => d.date >= today).slice(0, 2);
+
+  const priorCases = state.diagnosticHistory
+    .filter(c => c.cropId === crop.id && c.status !== 'pending')
+    .slice(0, PRIOR_CASE_LIMIT)
+    .map(c => `${c.timestamp}: ${c.structured?.suspectedProblem || c.diagnosis.split('\n')[0]}`);
+
+  return {
+    cropName: CROP_DATASETS[crop.type].name,
+    stage: calculateGrowthStage(crop.type, crop.sowingDate, state.weatherHistory),
+    soil: `${soil.name} (water retention ${soil.waterRetention.toLowerCase()}, drainage ${soil.drainage.toLowerCase()})`,
+    region: region ? `${region.name}, ${region.state}` : undefined,
+    recentWeather: [...observed.map(describeDay), ...upcoming.map(d => `${describeDay(d)} (forecast)`)],
+    priorCases
+  };
+};
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AIErrorKind, AIResult, Language, PendingDiagnostic, StructuredDiagnosis } from '../types';
+import { getDiagnosticAdvice } from './AIService';
+import { getOutboxEntries, putOutboxEntry, settleOutboxEntry } from './StorageService';
+import { MAX_SEND_ATTEMPTS, flushOutbox } from './DiagnosticOutbox';
+
+// The outbox is exercised against in-memory stand-ins for IndexedDB and the AI call
+vi.mock('./StorageService', () => ({
+  getOutboxEntries: vi.fn(),
+  putOutboxEntry: vi.fn(async () => undefined),
+  deleteOutboxEntry: vi.fn(async () => undefined),
+  settleOutboxEntry: vi.fn(async () => undefined)
+}));
+vi.mock('./AIService', () => ({ getDiagnosticAdvice: vi.fn() }));
+
+const entry = (caseId: string, attempts = 0, language?: Language): PendingDiagnostic => ({
+  caseId, language, cropNickname: `Field ${caseId}`, context: { cropName: 'Cotton', stage: 'vegetative' }, description: `Symptoms ${caseId}`, queuedAt: `2024-08-01T00:00:0${caseId}Z`, attempts
+});
+
+const diagnosis: StructuredDiagnosis = {
+  suspectedProblem: 'Whitefly', confidence: 'high', cause: 'Humid spell', interventions: [], prevention: [], urgency: 'within-week'
+};
+
+const answers = (...results: AIResult<StructuredDiagnosis>[]) =>
+  results.forEach(r => vi.mocked(getDiagnosticAdvice).mockResolvedValueOnce(r));
+
+const failure = (error: AIErrorKind): AIResult<StructuredDiagnosis> => ({ ok: false, error });
+
+describe('flushOutbox', () => {
+  const onDelivered = vi.fn();
+  const onFailed = vi.fn();
+
+  beforeEach(() => {
+    vi.stubGlobal('navigator', { onLine: true });
+    vi.stubGlobal('window', {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.clearAllMocks();
+  });
+
+  it('hands the diagnosis to its case before removing the entry', async () => {
+    vi.mocked(getOutboxEntries).mockResolvedValue([entry('1')]);
+    answers({ ok: true, value: diagnosis });
+    expect(await flushOutbox(onDelivered, onFailed)).toBe(1);
+    expect(onDelivered).toHaveBeenCalledWith('1', diagnosis, Language.ENGLISH);
+    expect(onDelivered.mock.invocationCallOrder[0]).toBeLessThan(vi.mocked(settleOutboxEntry).mock.invocationCallOrder[0]);
+    expect(settleOutboxEntry).toHaveBeenCalledWith('1', expect.objectContaining({ structured: diagnosis, status: 'complete' }));
+  });
+
+  it('asks for the diagnosis in the language the request was queued in', async () => {
+    vi.mocked(getOutboxEntries).mockResolvedValue([entry('1', 0, Language.MARATHI)]);
+    answers({ ok: true, value: diagnosis });
+    await flushOutbox(onDelivered, onFailed);
+    expect(getDiagnosticAdvice).toHaveBeenCalledWith(expect.anything(), 'Symptoms 1', undefined, Language.MARATHI);
+    expect(onDelivered).toHaveBeenCalledWith('1', diagnosis, Language.MARATHI);
+  });
+
+  it('moves past a failing request instead of holding up the queue', async () => {
+    vi.mocked(getOutboxEntries).mockResolvedValue([entry('1'), entry('2')]);
+    answers(failure('unavailable'), { ok: true, value: diagnosis });
+    expect(await flushOutbox(onDelivered, onFailed)).toBe(1);
+    expect(putOutboxEntry).toHaveBeenCalledWith(expect.objectContaining({ caseId: '1', attempts: 1 }));
+    expect(onDelivered).toHaveBeenCalledWith('2', diagnosis, Language.ENGLISH);
+    expect(onFailed).not.toHaveBeenCalled();
+  });
+
+  it('gives up on a request once it runs out of attempts and marks its case', async () => {
+    vi.mocked(getOutboxEntries).mockResolvedValue([entry('1', MAX_SEND_ATTEMPTS - 1)]);
+    answers(failure('timeout'));
+    await flushOutbox(onDelivered, onFailed);
+    expect(onFailed).toHaveBeenCalledWith('1', 'timeout');
+    expect(settleOutboxEntry).toHaveBeenCalledWith('1', { status: 'complete', failure: 'timeout' });
+    expect(putOutboxEntry).not.toHaveBeenCalled();
+  });
+
+  it('gives up at once on a request that can never succeed', async () => {
+    vi.mocked(getOutboxEntries).mockResolvedValue([entry('1')]);
+    answers(failure('safety-blocked'));
+    await flushOutbox(onDelivered, onFailed);
+    expect(onFailed).toHaveBeenCalledWith('1', 'safety-blocked');
+  });
+
+  it('stops without counting an attempt when the connection drops', async () => {
+    vi.mocked(getOutboxEntries).mockResolvedValue([entry('1'), entry('2')]);
+    answers(failure('offline'));
+    expect(await flushOutbox(onDelivered, onFailed)).toBe(0);
+    expect(getDiagnosticAdvice).toHaveBeenCalledTimes(1);
+    expect(putOutboxEntry).not.toHaveBeenCalled();
+    expect(onFailed).not.toHaveBeenCalled();
+  });
+
+  it('stops at a quota error but counts it, so a server that always refuses cannot hold the queue', async () => {
+    vi.mocked(getOutboxEntries).mockResolvedValue([entry('1'), entry('2')]);
+    answers(failure('quota'));
+    await flushOutbox(onDelivered, onFailed);
+    expect(getDiagnosticAdvice).toHaveBeenCalledTimes(1);
+    expect(putOutboxEntry).toHaveBeenCalledWith(expect.objectContaining({ caseId: '1', attempts: 1 }));
+
+    vi.mocked(getOutboxEntries).mockResolvedValue([entry('1', MAX_SEND_ATTEMPTS - 1), entry('2')]);
+    answers(failure('quota'), { ok: true, value: diagnosis });
+    expect(await flushOutbox(onDelivered, onFailed)).toBe(1);
+    expect(onFailed).toHaveBeenCalledWith('1', 'quota');
+    expect(onDelivered).toHaveBeenCalledWith('2', diagnosis, Language.ENGLISH);
+  });
+});
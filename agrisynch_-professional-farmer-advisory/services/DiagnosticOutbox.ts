@@ -0,0 +1,109 @@
+
+import { AIErrorKind, Language, PendingDiagnostic, StructuredDiagnosis } from '../types';
+import { getDiagnosticAdvice } from './AIService';
+import { putOutboxEntry, getOutboxEntries, deleteOutboxEntry, settleOutboxEntry, CaseOutcome } from './StorageService';
+import { formatDiagnosis } from './DiagnosisSchema';
+import { routeHash } from './Router';
+import { TRANSLATIONS } from '../constants';
+
+export const OUTBOX_SYNC_TAG = 'diagnostic-outbox';
+
+export type DiagnosisDelivered = (caseId: string, diagnosis: StructuredDiagnosis, language: Language) => void;
+export type DiagnosisFailed = (caseId: string, error: AIErrorKind) => void;
+
+// Failures that will recur however often the request is resent
+const PERMANENT_ERRORS: AIErrorKind[] = ['safety-blocked', 'invalid-response'];
+
+// Sends before a request is given up on, so one that keeps failing can't sit in the queue forever
+export const MAX_SEND_ATTEMPTS = 5;
+
+// Failures that would hit every request behind this one too, so the run stops there
+const RUN_STOPPING_ERRORS: AIErrorKind[] = ['offline', 'quota'];
+
+export const deliveredOutcome = (diagnosis: StructuredDiagnosis, language: Language): CaseOutcome =>
+  ({ diagnosis: formatDiagnosis(diagnosis, language), structured: diagnosis, status: 'complete', provisional: false, failure: undefined });
+
+// A provisional result stays in place; the case shows why the expert never answered
+export const failedOutcome = (error: AIErrorKind): CaseOutcome => ({ status: 'complete', failure: error });
+
+// Ask the service worker to wake us when connectivity returns (Chromium only; elsewhere the `online` event covers it)
+const requestBackgroundSync = async () => {
+  try {
+    if (!('serviceWorker' in navigator)) return;
+    const reg = await navigator.serviceWorker.ready;
+    if (reg.sync) await reg.sync.register(OUTBOX_SYNC_TAG);
+  } catch (e) {
+    console.error("Background Sync Unavailable:", e);
+  }
+};
+
+export const queueDiagnostic = async (entry: Omit<PendingDiagnostic, 'queuedAt' | 'attempts'>) => {
+  await putOutboxEntry({ ...entry, queuedAt: new Date().toISOString(), attempts: 0 });
+  if ('Notification' in window && Notification.permission === 'default') {
+    Notification.requestPermission().catch(() => undefined);
+  }
+  await requestBackgroundSync();
+};
+
+// Drops queued requests whose cases were deleted, so they are never sent
+export const discardQueuedDiagnostics = async (caseIds: string[]) => {
+  for (const caseId of caseIds) await deleteOutboxEntry(caseId);
+};
+
+let flushing: Promise<number> | null = null;
+
+/**
+ * Sends queued requests oldest first. The answer is saved on its case before the entry goes.
+ * A request that fails is retried on the next run without holding up the ones behind it, and is
+ * given up on (with the failure shown on its case) once it can never succeed or runs out of attempts.
+ */
+const sendAll = async (onDelivered: DiagnosisDelivered, onFailed: DiagnosisFailed) => {
+  let delivered = 0;
+  for (const entry of await getOutboxEntries()) {
+    if (!navigator.onLine) break;
+    const language = entry.language || Language.ENGLISH;
+    const result = await getDiagnosticAdvice(entry.context, entry.description, entry.imageData, language);
+    if (result.ok) {
+      onDelivered(entry.caseId, result.value, language);
+      await settleOutboxEntry(entry.caseId, deliveredOutcome(result.value, language));
+      notifyDiagnosisReady(entry.caseId, entry.cropNickname, result.value.suspectedProblem, language);
+      delivered++;
+      continue;
+    }
+    // Losing the connection says nothing about the request. A quota error still counts, since a
+    // server that answers 429 to every retry would otherwise hold the queue forever.
+    if (result.error === 'offline') break;
+    const attempts = entry.attempts + 1;
+    if (PERMANENT_ERRORS.includes(result.error) || attempts >= MAX_SEND_ATTEMPTS) {
+      onFailed(entry.caseId, result.error);
+      await settleOutboxEntry(entry.caseId, failedOutcome(result.error));
+      continue;
+    }
+    await putOutboxEntry({ ...entry, attempts });
+    if (RUN_STOPPING_ERRORS.includes(result.error)) break;
+  }
+  return delivered;
+};
+
+export const flushOutbox = (onDelivered: DiagnosisDelivered, onFailed: DiagnosisFailed): Promise<number> => {
+  if (!flushing) {
+    flushing = sendAll(onDelivered, onFailed)
+      .catch(e => { console.error("Outbox Flush Failure:", e); return 0; })
+      .finally(() => { flushing = null; });
+  }
+  return flushing;
+};
+
+// Tapping the notification opens the case (see notificationclick in sw.js)
+export const notifyDiagnosisReady = async (caseId: string, cropNickname: string, summary: string, language: Language) => {
+  if (!('Notification' in window) || Notification.permission !== 'granted') return;
+  const title = `${TRANSLATIONS[language].diagnosisReady}: ${cropNickname}`;
+  const body = summary.length > 120 ? `${summary.slice(0, 117)}...` : summary;
+  try {
+    const reg = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+    if (reg) await reg.showNotification(title, { body, tag: OUTBOX_SYNC_TAG, data: { hash: routeHash({ view: 'case', caseId }) }, icon: 'https://cdn-icons-png.flaticon.com/512/2904/2904831.png' });
+    else new Notification(title, { body });
+  } catch (e) {
+    console.error("Notification Failure:", e);
+  }
+};
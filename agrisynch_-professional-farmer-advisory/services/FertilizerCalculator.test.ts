@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { CropType, FarmerCrop, SoilType } from '../types';
+import { FERTILIZER_PRODUCTS } from '../constants';
+import { calculateFertilizerPlan, toBags } from './FertilizerCalculator';
+
+const field = (overrides: Partial<FarmerCrop> = {}): FarmerCrop => ({
+  id: 'field-1',
+  type: CropType.COTTON,
+  sowingDate: '2024-06-15',
+  soilType: SoilType.BLACK,
+  region: 'vidarbha',
+  nickname: 'East field',
+  area: { value: 2.3, unit: 'acre' },
+  ...overrides
+});
+
+describe('calculateFertilizerPlan', () => {
+  it('waits for a field area', () => {
+    expect(calculateFertilizerPlan(field({ area: undefined }), { phosphorusSource: 'dap', roundToBags: false })).toBeNull();
+  });
+
+  it('totals each product across the stages', () => {
+    const plan = calculateFertilizerPlan(field(), { phosphorusSource: 'dap', roundToBags: false })!;
+    plan.totals.forEach(total => {
+      const stageKg = plan.stages.flatMap(s => s.products).filter(q => q.product === total.product).reduce((sum, q) => sum + q.kg, 0);
+      expect(total.kg).toBeCloseTo(stageKg, 0);
+      expect(total.bags).toBeUndefined();
+    });
+  });
+
+  it('gives whole or half bags in the totals when rounding to bags', () => {
+    const plan = calculateFertilizerPlan(field(), { phosphorusSource: 'ssp', roundToBags: true })!;
+    expect(plan.totals.length).toBeGreaterThan(0);
+    plan.totals.forEach(total => {
+      expect(Number.isInteger(total.bags! * 2)).toBe(true);
+      expect(total.kg).toBeCloseTo(total.bags! * FERTILIZER_PRODUCTS[total.product].bagKg, 5);
+    });
+  });
+});
+
+describe('toBags', () => {
+  it('buys nothing for a zero or negligible need', () => {
+    expect(toBags('urea', 0)).toBe(0);
+    expect(toBags('urea', 0.2)).toBe(0);
+    expect(toBags('dap', 4.9)).toBe(0);
+  });
+
+  it('rounds a real need to half bags, at least half a bag', () => {
+    expect(toBags('dap', 5)).toBe(0.5);
+    expect(toBags('dap', 60)).toBe(1);
+    expect(toBags('urea', 80)).toBe(2);
+  });
+
+  it('leaves negligible stages out of a tiny field\'s plan', () => {
+    const plan = calculateFertilizerPlan(field({ area: { value: 0.01, unit: 'acre' } }), { phosphorusSource: 'dap', roundToBags: true })!;
+    expect(plan.stages).toEqual([]);
+    expect(plan.totals).toEqual([]);
+  });
+});
@@ -0,0 +1,118 @@
+
+import {
+  FarmerCrop, FieldArea, SoilTest, NutrientAmounts, FertilizerPlan, FertilizerStageDose,
+  FertilizerProductId, ProductQuantity, GrowthStage
+} from '../types';
+import { CROP_DATASETS, AREA_UNIT_HECTARES, FERTILIZER_PRODUCTS } from '../constants';
+
+export type PhosphorusSource = 'dap' | 'ssp' | 'npk-10-26-26' | 'npk-12-32-16';
+
+export interface FertilizerOptions {
+  phosphorusSource: PhosphorusSource;
+  roundToBags: boolean;
+}
+
+const STAGE_ORDER = [GrowthStage.SOWING, GrowthStage.VEGETATIVE, GrowthStage.FLOWERING, GrowthStage.MATURITY, GrowthStage.HARVEST];
+
+// Soil health card ratings (kg/ha): [low below, high above]
+const SOIL_TEST_LIMITS: Record<keyof NutrientAmounts, [number, number]> = {
+  n: [280, 560],
+  p: [10, 25],
+  k: [108, 280]
+};
+// Low-testing soils get 25% more than the recommended dose, high-testing soils 25% less
+const SOIL_TEST_FACTOR = { low: 1.25, medium: 1, high: 0.75 };
+
+export const toHectares = (area: FieldArea) => area.value * AREA_UNIT_HECTARES[area.unit];
+
+const soilTestFactor = (nutrient: keyof NutrientAmounts, soilTest?: SoilTest) => {
+  const value = soilTest?.[nutrient];
+  if (value === undefined) return SOIL_TEST_FACTOR.medium;
+  const [low, high] = SOIL_TEST_LIMITS[nutrient];
+  return value < low ? SOIL_TEST_FACTOR.low : value > high ? SOIL_TEST_FACTOR.high : SOIL_TEST_FACTOR.medium;
+};
+
+// Under a tenth of a bag the need is dropped; above it, the nearest half bag and never less than half
+const MIN_BAGS = 0.1;
+
+export const toBags = (product: FertilizerProductId, kg: number) => {
+  const bags = kg / FERTILIZER_PRODUCTS[product].bagKg;
+  return bags < MIN_BAGS ? 0 : Math.max(0.5, Math.round(bags * 2) / 2);
+};
+
+const withRounding = (quantities: ProductQuantity[], roundToBags: boolean): ProductQuantity[] =>
+  quantities.flatMap(q => {
+    if (!roundToBags) return [{ ...q, kg: Math.round(q.kg * 10) / 10 }];
+    const bags = toBags(q.product, q.kg);
+    return bags ? [{ product: q.product, kg: bags * FERTILIZER_PRODUCTS[q.product].bagKg, bags }] : [];
+  });
+
+/**
+ * Convert one stage's nutrient need into products: the phosphorus source goes first
+ * (crediting the N and K it carries), MOP covers remaining potash and urea the remaining N.
+ */
+export const nutrientsToProducts = (need: NutrientAmounts, phosphorusSource: PhosphorusSource): ProductQuantity[] => {
+  const products: ProductQuantity[] = [];
+  let { n, k } = need;
+
+  if (need.p > 0) {
+    const source = FERTILIZER_PRODUCTS[phosphorusSource];
+    const kg = (need.p / source.content.p) * 100;
+    products.push({ product: source.id, kg });
+    n -= (kg * source.content.n) / 100;
+    k -= (kg * source.content.k) / 100;
+  }
+  if (k > 0) products.push({ product: 'mop', kg: (k / FERTILIZER_PRODUCTS.mop.content.k) * 100 });
+  if (n > 0) products.push({ product: 'urea', kg: (n / FERTILIZER_PRODUCTS.urea.content.n) * 100 });
+  return products;
+};
+
+/**
+ * Field-scaled fertilizer plan: the crop's recommended N:P2O5:K2O dose adjusted by soil test
+ * rating, multiplied by field area and split across growth stages. Returns null until the
+ * field has an area.
+ */
+export const calculateFertilizerPlan = (crop: FarmerCrop, options: FertilizerOptions): FertilizerPlan | null => {
+  if (!crop.area || crop.area.value <= 0) return null;
+  const dataset = CROP_DATASETS[crop.type];
+  const areaHa = toHectares(crop.area);
+
+  const target: NutrientAmounts = {
+    n: dataset.nutrientTarget.n * soilTestFactor('n', crop.soilTest),
+    p: dataset.nutrientTarget.p * soilTestFactor('p', crop.soilTest),
+    k: dataset.nutrientTarget.k * soilTestFactor('k', crop.soilTest)
+  };
+
+  const stages: FertilizerStageDose[] = STAGE_ORDER.flatMap(stage => {
+    const split = dataset.nutrientSplit[stage];
+    if (!split) return [];
+    const nutrients = {
+      n: target.n * split.n * areaHa,
+      p: target.p * split.p * areaHa,
+      k: target.k * split.k * areaHa
+    };
+    const products = withRounding(nutrientsToProducts(nutrients, options.phosphorusSource), options.roundToBags);
+    if (!products.length) return [];
+    return [{
+      stage,
+      nutrients: { n: Math.round(nutrients.n * 10) / 10, p: Math.round(nutrients.p * 10) / 10, k: Math.round(nutrients.k * 10) / 10 },
+      products
+    }];
+  });
+
+  // Season totals for buying: stage bag counts are already whole or half bags, so they are summed as they are
+  const totalsByProduct = new Map<FertilizerProductId, ProductQuantity>();
+  stages.forEach(s => s.products.forEach(q => {
+    const total = totalsByProduct.get(q.product) || { product: q.product, kg: 0, ...(q.bags !== undefined ? { bags: 0 } : {}) };
+    total.kg += q.kg;
+    if (total.bags !== undefined) total.bags += q.bags || 0;
+    totalsByProduct.set(q.product, total);
+  }));
+
+  return {
+    areaHa: Math.round(areaHa * 1000) / 1000,
+    target: { n: Math.round(target.n), p: Math.round(target.p), k: Math.round(target.k) },
+    stages,
+    totals: [...totalsByProduct.values()].map(q => ({ ...q, kg: Math.round(q.kg * 10) / 10 }))
+  };
+};
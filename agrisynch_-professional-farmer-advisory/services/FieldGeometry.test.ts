@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { CropType, FarmerCrop, GeoPoint, SoilType } from '../types';
+import { addWalkFix, areaInUnits, boundaryArea, fieldsToGeoJSON, fieldsToKML, geodesicAreaM2 } from './FieldGeometry';
+
+// A 0.001° square near Nagpur, corners clockwise from the south-west
+const square: GeoPoint[] = [
+  { lat: 21.1, lng: 79.1 },
+  { lat: 21.101, lng: 79.1 },
+  { lat: 21.101, lng: 79.101 },
+  { lat: 21.1, lng: 79.101 }
+];
+// One degree of arc on the WGS 84 equatorial radius, in metres
+const DEGREE_M = 6378137 * Math.PI / 180;
+const SQUARE_M2 = (0.001 * DEGREE_M) ** 2 * Math.cos(21.1005 * Math.PI / 180);
+
+const field = (id: string, boundary?: GeoPoint[], nickname = `Field ${id}`): FarmerCrop => ({
+  id, type: CropType.COTTON, sowingDate: '2024-06-15', soilType: SoilType.BLACK, region: 'vidarbha', nickname, boundary
+});
+
+describe('geodesicAreaM2', () => {
+  it('matches the flat-earth area of a small square', () => {
+    expect(Math.abs(geodesicAreaM2(square) - SQUARE_M2) / SQUARE_M2).toBeLessThan(0.001);
+  });
+
+  it('ignores the direction the boundary was walked', () => {
+    expect(geodesicAreaM2([...square].reverse())).toBeCloseTo(geodesicAreaM2(square), 6);
+  });
+
+  it('is zero until there are three corners', () => {
+    expect(geodesicAreaM2(square.slice(0, 2))).toBe(0);
+  });
+});
+
+describe('area units', () => {
+  it('converts square metres to every unit', () => {
+    const units = areaInUnits(10000);
+    expect(units.hectare).toBe(1);
+    expect(units.acre).toBeCloseTo(2.471, 3);
+    expect(units.guntha).toBeCloseTo(98.84, 2);
+  });
+
+  it('rounds a boundary area to two places in the chosen unit', () => {
+    expect(boundaryArea(square, 'hectare')).toEqual({ value: Math.round(SQUARE_M2 / 100) / 100, unit: 'hectare' });
+    expect(boundaryArea(square).unit).toBe('acre');
+  });
+});
+
+describe('addWalkFix', () => {
+  const start = { lat: 21.1, lng: 79.1, accuracyM: 5 };
+
+  it('keeps accurate fixes that moved', () => {
+    expect(addWalkFix([], start)).toEqual([{ lat: 21.1, lng: 79.1 }]);
+    expect(addWalkFix([square[0]], { lat: 21.1001, lng: 79.1, accuracyM: 5 })).toHaveLength(2);
+  });
+
+  it('skips inaccurate fixes and jitter', () => {
+    expect(addWalkFix([], { ...start, accuracyM: 50 })).toEqual([]);
+    expect(addWalkFix([square[0]], { lat: 21.10001, lng: 79.1, accuracyM: 5 })).toEqual([square[0]]);
+  });
+});
+
+describe('field export', () => {
+  const crops = [field('1', square, 'Well <east> & "back"'), field('2'), field('3', square.slice(0, 2))];
+
+  it('writes mapped fields as closed counter-clockwise GeoJSON rings', () => {
+    const geojson = JSON.parse(fieldsToGeoJSON(crops));
+    expect(geojson.type).toBe('FeatureCollection');
+    expect(geojson.features).toHaveLength(1);
+    const [feature] = geojson.features;
+    expect(feature).toMatchObject({ id: '1', properties: { name: 'Well <east> & "back"', crop: 'cotton', region: 'vidarbha' } });
+    const ring: number[][] = feature.geometry.coordinates[0];
+    expect(ring).toHaveLength(5);
+    expect(ring[4]).toEqual(ring[0]);
+    const signed = ring.slice(0, -1).reduce((sum, [lng, lat], i) => sum + (ring[i + 1][0] - lng) * (ring[i + 1][1] + lat), 0);
+    expect(signed).toBeLessThan(0);
+  });
+
+  it('writes mapped fields as escaped KML placemarks', () => {
+    const kml = fieldsToKML(crops);
+    expect(kml.match(/<Placemark/g)).toHaveLength(1);
+    expect(kml).toContain('<name>Well &lt;east&gt; &amp; &quot;back&quot;</name>');
+    expect(kml).toContain('<Data name="soilType"><value>black</value></Data>');
+    const coordinates = kml.match(/<coordinates>(.*)<\/coordinates>/)![1].split(' ');
+    expect(coordinates).toHaveLength(5);
+    expect(coordinates[4]).toBe(coordinates[0]);
+  });
+});
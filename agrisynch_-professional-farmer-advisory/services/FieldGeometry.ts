@@ -0,0 +1,111 @@
+
+import { AreaUnit, FarmerCrop, FieldArea, GeoPoint, LocationFix } from '../types';
+import { AREA_UNIT_HECTARES } from '../constants';
+
+const EARTH_RADIUS_M = 6378137;
+const RAD = Math.PI / 180;
+export const MIN_BOUNDARY_POINTS = 3;
+// While walking, fixes closer than this to the last kept corner are GPS jitter
+const MIN_WALK_STEP_M = 3;
+// Fixes less certain than this are skipped while walking
+const MAX_WALK_ACCURACY_M = 20;
+
+export const distanceM = (a: GeoPoint, b: GeoPoint): number => {
+  const dLat = (b.lat - a.lat) * RAD, dLng = (b.lng - a.lng) * RAD;
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(a.lat * RAD) * Math.cos(b.lat * RAD) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(h));
+};
+
+/**
+ * Area enclosed by the boundary on the sphere, in m², by the spherical-excess sum of
+ * Chamberlain & Duquette (the same formula GIS tools use). The ring closes itself.
+ */
+export const geodesicAreaM2 = (points: GeoPoint[]): number => {
+  if (points.length < MIN_BOUNDARY_POINTS) return 0;
+  const sum = points.reduce((total, p, i) => {
+    const q = points[(i + 1) % points.length];
+    return total + (q.lng - p.lng) * RAD * (2 + Math.sin(p.lat * RAD) + Math.sin(q.lat * RAD));
+  }, 0);
+  return Math.abs(sum * EARTH_RADIUS_M ** 2 / 2);
+};
+
+// The same area in every unit the app offers
+export const areaInUnits = (areaM2: number): Record<AreaUnit, number> => {
+  const hectares = areaM2 / 10000;
+  const units = Object.keys(AREA_UNIT_HECTARES) as AreaUnit[];
+  return units.reduce((all, unit) => ({ ...all, [unit]: hectares / AREA_UNIT_HECTARES[unit] }), {} as Record<AreaUnit, number>);
+};
+
+// "2.41 acre • 0.98 hectare • 96.4 guntha • 3.86 bigha"
+export const formatArea = (areaM2: number, units: AreaUnit[] = ['acre', 'hectare', 'guntha', 'bigha']) => {
+  const all = areaInUnits(areaM2);
+  return units.map(u => `${all[u].toFixed(u === 'guntha' ? 1 : 2)} ${u}`).join(' • ');
+};
+
+// The field's area for the fertilizer plan, in the unit the farmer already uses
+export const boundaryArea = (points: GeoPoint[], unit: AreaUnit = 'acre'): FieldArea => ({
+  value: Math.round(areaInUnits(geodesicAreaM2(points))[unit] * 100) / 100,
+  unit
+});
+
+// Adds a walking fix as the next corner unless it is inaccurate or barely moved from the last one
+export const addWalkFix = (points: GeoPoint[], fix: LocationFix): GeoPoint[] => {
+  if (fix.accuracyM > MAX_WALK_ACCURACY_M) return points;
+  const last = points[points.length - 1];
+  if (last && distanceM(last, fix) < MIN_WALK_STEP_M) return points;
+  return [...points, { lat: fix.lat, lng: fix.lng }];
+};
+
+const mapped = (crops: FarmerCrop[]) => crops.filter(c => (c.boundary?.length || 0) >= MIN_BOUNDARY_POINTS);
+
+// Closed [lng, lat] ring, counter-clockwise as RFC 7946 asks for outer rings
+const closedRing = (points: GeoPoint[]): number[][] => {
+  const signed = points.reduce((sum, p, i) => {
+    const q = points[(i + 1) % points.length];
+    return sum + (q.lng - p.lng) * (q.lat + p.lat);
+  }, 0);
+  const ordered = signed > 0 ? [...points].reverse() : points;
+  return [...ordered, ordered[0]].map(p => [Number(p.lng.toFixed(7)), Number(p.lat.toFixed(7))]);
+};
+
+const fieldProperties = (crop: FarmerCrop) => ({
+  name: crop.nickname,
+  crop: crop.type,
+  sowingDate: crop.sowingDate,
+  soilType: crop.soilType,
+  region: crop.region,
+  areaHectares: Math.round(geodesicAreaM2(crop.boundary!) / 100) / 100
+});
+
+// Mapped fields as a GeoJSON FeatureCollection; fields without a boundary are left out
+export const fieldsToGeoJSON = (crops: FarmerCrop[]): string => JSON.stringify({
+  type: 'FeatureCollection',
+  features: mapped(crops).map(crop => ({
+    type: 'Feature',
+    id: crop.id,
+    properties: fieldProperties(crop),
+    geometry: { type: 'Polygon', coordinates: [closedRing(crop.boundary!)] }
+  }))
+}, null, 2);
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&'"]/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' }[c]!));
+
+// Mapped fields as KML 2.2 placemarks, for Google Earth and most GIS tools
+export const fieldsToKML = (crops: FarmerCrop[]): string => [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<kml xmlns="http://www.opengis.net/kml/2.2">',
+  '<Document>',
+  '<name>AgriSynch fields</name>',
+  ...mapped(crops).map(crop => {
+    const data = Object.entries(fieldProperties(crop))
+      .filter(([key]) => key !== 'name')
+      .map(([key, value]) => `<Data name="${key}"><value>${escapeXml(String(value))}</value></Data>`)
+      .join('');
+    const coordinates = closedRing(crop.boundary!).map(([lng, lat]) => `${lng},${lat},0`).join(' ');
+    return `<Placemark id="${escapeXml(crop.id)}"><name>${escapeXml(crop.nickname)}</name><ExtendedData>${data}</ExtendedData>`
+      + `<Polygon><outerBoundaryIs><LinearRing><coordinates>${coordinates}</coordinates></LinearRing></outerBoundaryIs></Polygon></Placemark>`;
+  }),
+  '</Document>',
+  '</kml>'
+].join('\n');
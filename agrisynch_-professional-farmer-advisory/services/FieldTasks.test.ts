@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { CropType, FarmerCrop, Language, SoilType, StructuredDiagnosis } from '../types';
+import { dueTasks, hasTasksFromCase, tasksFromDiagnosis } from './FieldTasks';
+
+const diagnosis = (urgency: StructuredDiagnosis['urgency']): StructuredDiagnosis => ({
+  suspectedProblem: 'Leaf blast',
+  confidence: 'medium',
+  cause: 'Fungal spores after rain',
+  interventions: [
+    { type: 'chemical', action: 'Spray tricyclazole', dosage: '0.6 g per litre' },
+    { type: 'mechanical', action: 'Drain standing water' }
+  ],
+  prevention: ['Balanced nitrogen'],
+  urgency
+});
+
+const field = (overrides: Partial<FarmerCrop> = {}): FarmerCrop => ({
+  id: 'field-1', type: CropType.RICE, sowingDate: '2024-06-15', soilType: SoilType.ALLUVIAL, region: 'upper-gangetic', nickname: 'Paddy', ...overrides
+});
+
+describe('tasksFromDiagnosis', () => {
+  it('dates each treatment by urgency and adds a recheck a week later', () => {
+    const tasks = tasksFromDiagnosis('case-1', diagnosis('within-week'), Language.ENGLISH, '2024-08-30');
+    expect(tasks.map(t => [t.title, t.detail, t.dueDate])).toEqual([
+      ['Spray tricyclazole', '0.6 g per litre', '2024-09-02'],
+      ['Drain standing water', undefined, '2024-09-02'],
+      ['Check again: Leaf blast', undefined, '2024-09-09']
+    ]);
+    expect(tasks.every(t => t.caseId === 'case-1')).toBe(true);
+  });
+
+  it('makes immediate treatments due the same day', () => {
+    expect(tasksFromDiagnosis('case-1', diagnosis('immediate'), Language.ENGLISH, '2024-08-30')[0].dueDate).toBe('2024-08-30');
+  });
+});
+
+describe('dueTasks', () => {
+  it('lists open tasks due by the date, soonest first', () => {
+    const crop = field({ tasks: [
+      { id: 'a', title: 'Later', dueDate: '2024-09-05' },
+      { id: 'b', title: 'Overdue', dueDate: '2024-08-20' },
+      { id: 'c', title: 'Done', dueDate: '2024-08-21', done: true },
+      { id: 'd', title: 'Today', dueDate: '2024-08-30', caseId: 'case-1' }
+    ] });
+    expect(dueTasks(crop, '2024-08-30').map(t => t.title)).toEqual(['Overdue', 'Today']);
+    expect(hasTasksFromCase(crop, 'case-1')).toBe(true);
+    expect(hasTasksFromCase(crop, 'case-2')).toBe(false);
+  });
+});
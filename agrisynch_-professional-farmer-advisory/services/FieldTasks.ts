@@ -0,0 +1,36 @@
+import { FarmerCrop, FieldTask, Language, StructuredDiagnosis, DiagnosisUrgency } from '../types';
+import { TRANSLATIONS } from '../constants';
+import { addDays, todayISO } from './Dates';
+
+// Days from the diagnosis until its treatments are due
+const URGENCY_DUE_DAYS: Record<DiagnosisUrgency, number> = { 'immediate': 0, 'within-week': 3, 'monitor': 7 };
+// A week after treating, go back and see whether it worked
+const RECHECK_AFTER_DAYS = 7;
+
+/**
+ * One task per recommended treatment, due by the diagnosis urgency, and a follow-up
+ * check a week later. Ids are derived from the case so adding twice can be detected.
+ */
+export const tasksFromDiagnosis = (caseId: string, diagnosis: StructuredDiagnosis, language: Language, from = todayISO()): FieldTask[] => {
+  const dueDate = addDays(from, URGENCY_DUE_DAYS[diagnosis.urgency]);
+  const t = TRANSLATIONS[language];
+  return [
+    ...diagnosis.interventions.map((i, n): FieldTask => ({
+      id: `${caseId}:${n}`,
+      title: i.action,
+      ...(i.dosage ? { detail: i.dosage } : {}),
+      dueDate,
+      caseId
+    })),
+    { id: `${caseId}:recheck`, title: `${t.recheckTask}: ${diagnosis.suspectedProblem}`, dueDate: addDays(dueDate, RECHECK_AFTER_DAYS), caseId }
+  ];
+};
+
+export const hasTasksFromCase = (crop: FarmerCrop | undefined, caseId: string) =>
+  !!crop?.tasks?.some(task => task.caseId === caseId);
+
+// Tasks not yet ticked off, soonest first
+export const openTasks = (crop: FarmerCrop) =>
+  (crop.tasks || []).filter(task => !task.done).sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+
+export const dueTasks = (crop: FarmerCrop, date = todayISO()) => openTasks(crop).filter(task => task.dueDate <= date);
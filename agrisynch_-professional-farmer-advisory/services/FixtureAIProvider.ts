@@ -0,0 +1,23 @@
+
+import { AIProvider } from './AIProvider';
+import { matchFixtureIntent } from './FixtureIntents.mjs';
+import AI_FIXTURE from '../data/aiFixture.json';
+
+// The mock server's output rate, so fixture speech plays through the same path as real speech
+const SPEECH_SAMPLE_RATE = 24000;
+
+/**
+ * Canned answers from data/aiFixture.json, with no network. The same input always gets the
+ * same output, so AI flows can be exercised offline and without a key.
+ */
+export const fixtureAIProvider: AIProvider = {
+  id: 'fixture',
+  local: true,
+  diagnose: async () => structuredClone(AI_FIXTURE.diagnosis),
+  chat: async () => AI_FIXTURE.chatReply,
+  transcribe: async () => AI_FIXTURE.transcript,
+  parseIntent: async (text) => matchFixtureIntent(AI_FIXTURE, text),
+  speechVoice: 'silence',
+  // Silence of a fixed length: 16-bit zero samples
+  speak: async () => btoa('\0'.repeat(Math.round(SPEECH_SAMPLE_RATE * AI_FIXTURE.speechSeconds) * 2))
+};
@@ -0,0 +1,18 @@
+// Keyword matching over the intent table in data/aiFixture.json. Plain JavaScript so
+// FixtureAIProvider and scripts/mock-ai-server.mjs share it and answer a command alike.
+
+/**
+ * @typedef {{ keywords: string[], action: string, target?: string, message: string }} FixtureIntentEntry
+ * @typedef {{ intents: FixtureIntentEntry[], fallbackIntent: { action: string, message: string } }} FixtureIntentTable
+ */
+
+/**
+ * The first entry with a keyword in the command, else the fallback
+ * @param {FixtureIntentTable} table
+ * @param {string} text
+ */
+export const matchFixtureIntent = (table, text) => {
+  const lower = text.toLowerCase();
+  const hit = table.intents.find(i => i.keywords.some(k => lower.includes(k)));
+  return hit ? { action: hit.action, target: hit.target, message: hit.message } : table.fallbackIntent;
+};
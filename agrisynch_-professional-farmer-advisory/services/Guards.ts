@@ -0,0 +1,22 @@
+
+// Narrowing helpers for bundles and replies that arrive as `unknown` JSON
+
+export type JsonRecord = Record<string, unknown>;
+
+export const isRecord = (value: unknown): value is JsonRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// A record view of anything, so optional fields can be read off malformed entries while reporting them
+export const asRecord = (value: unknown): JsonRecord => isRecord(value) ? value : {};
+
+export const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+export const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+export const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+export const isOneOf = <T>(value: unknown, allowed: readonly T[]): value is T => allowed.includes(value as T);
+
+export const isSubsetOf = <T>(values: unknown, allowed: readonly T[]): values is T[] =>
+  Array.isArray(values) && values.every(v => allowed.includes(v as T));
@@ -0,0 +1,124 @@
+
+import { FarmerCrop, WeatherDay, GrowthStage, IrrigationSchedule, SoilProfile } from '../types';
+import { CROP_DATASETS, SOIL_PROFILES } from '../constants';
+import { stageSeries } from './StageModel';
+import { DAY_MS, addDays, todayISO } from './Dates';
+import { getRegionCentroid, REGIONS } from './RegionService';
+
+// Plant-available water per metre of root zone, by the soil profile's retention class
+const AVAILABLE_WATER_MM_PER_M: Record<SoilProfile['waterRetention'], number> = { Low: 80, Medium: 140, High: 200 };
+// Share of mature rooting depth explored at each stage
+const ROOT_FRACTION: Record<GrowthStage, number> = {
+  [GrowthStage.SOWING]: 0.3,
+  [GrowthStage.VEGETATIVE]: 0.7,
+  [GrowthStage.FLOWERING]: 1,
+  [GrowthStage.MATURITY]: 1,
+  [GrowthStage.HARVEST]: 1
+};
+const MIN_ROOT_DEPTH_M = 0.15;
+const PROJECTION_DAYS = 14;
+// Central India; used when the field's region is unknown
+const DEFAULT_LATITUDE = 20;
+
+const dayOfYear = (iso: string) => {
+  const d = new Date(iso);
+  return Math.floor((d.getTime() - Date.UTC(d.getUTCFullYear(), 0, 0)) / DAY_MS);
+};
+
+// FAO-56 eq. 21: extraterrestrial radiation (MJ/m²/day) for a latitude and date
+export const extraterrestrialRadiation = (latitude: number, isoDate: string) => {
+  const J = dayOfYear(isoDate);
+  const phi = (latitude * Math.PI) / 180;
+  const dr = 1 + 0.033 * Math.cos((2 * Math.PI * J) / 365);
+  const delta = 0.409 * Math.sin((2 * Math.PI * J) / 365 - 1.39);
+  const ws = Math.acos(Math.max(-1, Math.min(1, -Math.tan(phi) * Math.tan(delta))));
+  return ((24 * 60) / Math.PI) * 0.082 * dr *
+    (ws * Math.sin(phi) * Math.sin(delta) + Math.cos(phi) * Math.cos(delta) * Math.sin(ws));
+};
+
+// Hargreaves reference evapotranspiration (mm/day) from min/max temperature only
+export const hargreavesEt0 = (day: WeatherDay, latitude: number) => {
+  const ra = extraterrestrialRadiation(latitude, day.date) * 0.408;
+  const tMean = (day.tempMax + day.tempMin) / 2;
+  return Math.max(0, 0.0023 * ra * (tMean + 17.8) * Math.sqrt(Math.max(0, day.tempMax - day.tempMin)));
+};
+
+// Light showers mostly evaporate from the canopy; heavier rain is ~80% effective
+export const effectiveRainfall = (rainMm: number) => rainMm < 5 ? 0 : rainMm * 0.8;
+
+export const getFieldLatitude = (crop: FarmerCrop) => {
+  const region = REGIONS.find(r => r.id === crop.region);
+  return region ? getRegionCentroid(region).lat : DEFAULT_LATITUDE;
+};
+
+/**
+ * Daily root-zone water balance from sowing (assumed at field capacity) to today, then
+ * projected over the forecast to find when depletion crosses the readily available water.
+ * Days without recorded weather use the mean ET of known days and no rain.
+ * Returns null when there is no weather at all or the crop no longer needs water.
+ */
+export const scheduleIrrigation = (
+  crop: FarmerCrop,
+  history: WeatherDay[],
+  forecast: WeatherDay[],
+  latitude: number = getFieldLatitude(crop)
+): IrrigationSchedule | null => {
+  const dataset = CROP_DATASETS[crop.type];
+  const soil = SOIL_PROFILES[crop.soilType];
+  const today = todayISO();
+  const sowing = crop.sowingDate.slice(0, 10);
+  if (sowing > today) return null;
+
+  const weatherByDate = new Map<string, WeatherDay>();
+  history.forEach(d => weatherByDate.set(d.date, d));
+  forecast.forEach(d => weatherByDate.set(d.date, d));
+  const known = [...weatherByDate.values()];
+  if (!known.length) return null;
+  const meanEt0 = known.reduce((sum, d) => sum + hargreavesEt0(d, latitude), 0) / known.length;
+
+  const irrigationByDate = new Map<string, number>();
+  (crop.irrigationLog || []).forEach(e => irrigationByDate.set(e.date, (irrigationByDate.get(e.date) || 0) + e.amountMm));
+
+  const totalAvailableOn = (stage: GrowthStage) =>
+    AVAILABLE_WATER_MM_PER_M[soil.waterRetention] * Math.max(MIN_ROOT_DEPTH_M, dataset.waterUse.rootDepthM * ROOT_FRACTION[stage]);
+  const stepDepletion = (depletion: number, date: string, stage: GrowthStage) => {
+    const day = weatherByDate.get(date);
+    const etc = (day ? hargreavesEt0(day, latitude) : meanEt0) * dataset.waterUse.kc[stage];
+    const rain = day ? effectiveRainfall(day.rainMm) : 0;
+    const next = depletion + etc - rain - (irrigationByDate.get(date) || 0);
+    return { depletion: Math.min(totalAvailableOn(stage), Math.max(0, next)), etc };
+  };
+
+  let depletion = 0;
+  let todayEtc = 0;
+  const stages = stageSeries(crop.type, sowing, history, today);
+  stages.forEach((stageThatDay, i) => {
+    ({ depletion, etc: todayEtc } = stepDepletion(depletion, addDays(sowing, i), stageThatDay));
+  });
+  const stage = stages[stages.length - 1];
+
+  if (dataset.waterUse.kc[stage] === 0 || stage === GrowthStage.HARVEST) return null;
+
+  const totalAvailableMm = totalAvailableOn(stage);
+  const readilyAvailableMm = totalAvailableMm * dataset.waterUse.depletionFraction;
+
+  let projected = depletion;
+  let daysUntilIrrigation = PROJECTION_DAYS;
+  for (let k = 0; k < PROJECTION_DAYS; k++) {
+    if (projected >= readilyAvailableMm) {
+      daysUntilIrrigation = k;
+      break;
+    }
+    projected = stepDepletion(projected, addDays(today, k + 1), stage).depletion;
+  }
+
+  return {
+    depletionMm: Math.round(depletion),
+    totalAvailableMm: Math.round(totalAvailableMm),
+    readilyAvailableMm: Math.round(readilyAvailableMm),
+    todayEtcMm: Math.round(todayEtc * 10) / 10,
+    daysUntilIrrigation,
+    // Refill to field capacity at the point irrigation falls due
+    recommendedMm: Math.round(Math.max(projected, readilyAvailableMm))
+  };
+};
@@ -0,0 +1,103 @@
+
+import { GeoBounds, GeoPoint } from '../types';
+
+// Web Mercator in pixels at integer zoom levels, as used by slippy-map tiles
+export const TILE_SIZE = 256;
+export const MAX_ZOOM = 19;
+// Web Mercator is undefined at the poles; tiles stop here
+const MAX_LAT = 85.0511;
+
+export interface MapView {
+  center: GeoPoint;
+  zoom: number;
+}
+
+export interface PixelPoint {
+  x: number;
+  y: number;
+}
+
+// One slippy-map tile, as in {z}/{x}/{y} tile URLs
+export interface TileCoord {
+  z: number;
+  x: number;
+  y: number;
+}
+
+const worldSize = (zoom: number) => TILE_SIZE * 2 ** zoom;
+
+export const project = (point: GeoPoint, zoom: number): PixelPoint => {
+  const lat = Math.max(-MAX_LAT, Math.min(MAX_LAT, point.lat)) * Math.PI / 180;
+  const size = worldSize(zoom);
+  return {
+    x: (point.lng + 180) / 360 * size,
+    y: (1 - Math.log(Math.tan(lat) + 1 / Math.cos(lat)) / Math.PI) / 2 * size
+  };
+};
+
+export const unproject = (pixel: PixelPoint, zoom: number): GeoPoint => {
+  const size = worldSize(zoom);
+  const n = Math.PI * (1 - 2 * pixel.y / size);
+  return {
+    lat: Math.atan(Math.sinh(n)) * 180 / Math.PI,
+    lng: pixel.x / size * 360 - 180
+  };
+};
+
+// Position of `point` inside a width × height viewport showing `view`
+export const toScreen = (point: GeoPoint, view: MapView, width: number, height: number): PixelPoint => {
+  const p = project(point, view.zoom), c = project(view.center, view.zoom);
+  return { x: p.x - c.x + width / 2, y: p.y - c.y + height / 2 };
+};
+
+export const fromScreen = (pixel: PixelPoint, view: MapView, width: number, height: number): GeoPoint => {
+  const c = project(view.center, view.zoom);
+  return unproject({ x: pixel.x + c.x - width / 2, y: pixel.y + c.y - height / 2 }, view.zoom);
+};
+
+// The closest integer zoom that shows every point with `padding` pixels to spare
+export const fitView = (points: GeoPoint[], width: number, height: number, padding = 24, maxZoom = MAX_ZOOM): MapView => {
+  const lats = points.map(p => p.lat), lngs = points.map(p => p.lng);
+  const sw = { lat: Math.min(...lats), lng: Math.min(...lngs) };
+  const ne = { lat: Math.max(...lats), lng: Math.max(...lngs) };
+  const center = { lat: (sw.lat + ne.lat) / 2, lng: (sw.lng + ne.lng) / 2 };
+  let zoom = maxZoom;
+  while (zoom > 0) {
+    const a = project(sw, zoom), b = project(ne, zoom);
+    if (Math.abs(b.x - a.x) <= width - 2 * padding && Math.abs(a.y - b.y) <= height - 2 * padding) break;
+    zoom--;
+  }
+  return { center, zoom };
+};
+
+// Ground distance covered by one pixel at the view's centre
+export const metresPerPixel = (view: MapView) =>
+  40075016.686 * Math.cos(view.center.lat * Math.PI / 180) / worldSize(view.zoom);
+
+const tileIndex = (pixel: number, zoom: number) => Math.max(0, Math.min(2 ** zoom - 1, Math.floor(pixel / TILE_SIZE)));
+
+// Every tile at `zoom` that touches the bounds
+export const tilesInBounds = (bounds: GeoBounds, zoom: number): TileCoord[] => {
+  const nw = project({ lat: bounds.maxLat, lng: bounds.minLng }, zoom);
+  const se = project({ lat: bounds.minLat, lng: bounds.maxLng }, zoom);
+  const tiles: TileCoord[] = [];
+  for (let x = tileIndex(nw.x, zoom); x <= tileIndex(se.x, zoom); x++) {
+    for (let y = tileIndex(nw.y, zoom); y <= tileIndex(se.y, zoom); y++) tiles.push({ z: zoom, x, y });
+  }
+  return tiles;
+};
+
+// The tiles a width × height viewport needs, with the screen position of each tile's corner
+export const visibleTiles = (view: MapView, width: number, height: number): (TileCoord & { left: number, top: number })[] => {
+  const zoom = Math.round(view.zoom);
+  const c = project(view.center, zoom);
+  const x0 = c.x - width / 2, y0 = c.y - height / 2;
+  const tiles: (TileCoord & { left: number, top: number })[] = [];
+  for (let x = Math.floor(x0 / TILE_SIZE); x <= Math.floor((x0 + width) / TILE_SIZE); x++) {
+    for (let y = Math.floor(y0 / TILE_SIZE); y <= Math.floor((y0 + height) / TILE_SIZE); y++) {
+      if (x < 0 || y < 0 || x >= 2 ** zoom || y >= 2 ** zoom) continue;
+      tiles.push({ z: zoom, x, y, left: x * TILE_SIZE - x0, top: y * TILE_SIZE - y0 });
+    }
+  }
+  return tiles;
+};
@@ -0,0 +1,198 @@
+import { readFileSync } from 'node:fs';
+import { spawn, ChildProcess } from 'node:child_process';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GeoPoint } from '../types';
+import { TileCoord, tilesInBounds } from './MapProjection';
+import { planOfflineTiles } from './OfflineTiles';
+
+const TILE_CACHE = 'agrisynch-tiles';
+const FIELD: GeoPoint[] = [{ lat: 20.70, lng: 77.00 }, { lat: 20.71, lng: 77.01 }];
+const REGION: GeoPoint[] = [{ lat: 19, lng: 76 }, { lat: 21, lng: 76 }, { lat: 21, lng: 79 }, { lat: 19, lng: 79 }];
+const MB = 1024 * 1024;
+
+describe('planOfflineTiles', () => {
+  it('covers the fields in full detail before the regions', () => {
+    const tiles = planOfflineTiles([REGION], [FIELD], 50 * MB);
+    const zooms = tiles.map(t => t.z);
+    expect(zooms.slice(0, zooms.indexOf(5)).every(z => z >= 13 && z <= 17)).toBe(true);
+    expect(new Set(zooms)).toEqual(new Set([13, 14, 15, 16, 17, 5, 6, 7, 8, 9, 10, 11, 12]));
+  });
+
+  it('plans each tile once', () => {
+    const tiles = planOfflineTiles([REGION, REGION], [FIELD, FIELD], 50 * MB);
+    expect(new Set(tiles.map(t => `${t.z}/${t.x}/${t.y}`)).size).toBe(tiles.length);
+  });
+
+  it('adds whole region zoom levels only while the estimate fits the budget', () => {
+    const tiles = planOfflineTiles([REGION], [FIELD], 2 * MB);
+    expect(tiles.length).toBeLessThanOrEqual(2 * MB / (20 * 1024));
+    const regionZooms = [...new Set(tiles.filter(t => t.z < 13).map(t => t.z))];
+    regionZooms.forEach(z => {
+      const level = tilesInBounds({ minLat: 19, maxLat: 21, minLng: 76, maxLng: 79 }, z);
+      expect(tiles.filter(t => t.z === z)).toHaveLength(level.length);
+    });
+    expect(Math.max(...regionZooms)).toBeLessThan(12);
+  });
+
+  it('cuts the plan to the budget from the end, keeping field tiles first', () => {
+    const tiles = planOfflineTiles([REGION], [FIELD], 200 * 1024);
+    expect(tiles).toHaveLength(10);
+    expect(tiles.every(t => t.z >= 13)).toBe(true);
+  });
+
+  it('plans nothing without fields or regions', () => {
+    expect(planOfflineTiles([], [[]])).toEqual([]);
+  });
+});
+
+// In-memory Cache Storage, enough of it for sw.js
+class MemoryCache {
+  entries = new Map<string, Response>();
+  private url = (request: RequestInfo) => typeof request === 'string' ? request : request.url;
+  async match(request: RequestInfo) { return this.entries.get(this.url(request))?.clone(); }
+  async put(request: RequestInfo, response: Response) { this.entries.set(this.url(request), response); }
+  async delete(request: RequestInfo) { return this.entries.delete(this.url(request)); }
+  async keys() { return [...this.entries.keys()].map(url => new Request(url)); }
+  async addAll() {}
+}
+
+const memoryCaches = () => {
+  const stores = new Map<string, MemoryCache>();
+  const open = async (name: string) => {
+    if (!stores.has(name)) stores.set(name, new MemoryCache());
+    return stores.get(name)!;
+  };
+  return {
+    stores,
+    open,
+    keys: async () => [...stores.keys()],
+    delete: async (name: string) => stores.delete(name),
+    match: async (request: RequestInfo) => {
+      for (const cache of stores.values()) {
+        const hit = await cache.match(request);
+        if (hit) return hit;
+      }
+      return undefined;
+    }
+  };
+};
+
+type WorkerEvent = Record<string, unknown>;
+
+// Runs sw.js against the in-memory caches and a counted fetch, and returns its event listeners
+const loadServiceWorker = (caches: ReturnType<typeof memoryCaches>, network: typeof fetch) => {
+  const listeners = new Map<string, (event: WorkerEvent) => void>();
+  const self = { addEventListener: (type: string, listener: (event: WorkerEvent) => void) => listeners.set(type, listener), skipWaiting: () => undefined };
+  new Function('self', 'caches', 'fetch', readFileSync('sw.js', 'utf8'))(self, caches, network);
+  return listeners;
+};
+
+describe('offline tiles through sw.js and the mock tile server', () => {
+  const port = 19000 + Math.floor(Math.random() * 1000);
+  const template = `http://localhost:${port}/tiles/{z}/{x}/{y}.png`;
+  let server: ChildProcess;
+  let caches: ReturnType<typeof memoryCaches>;
+  let worker: ReturnType<typeof loadServiceWorker>;
+  const network = vi.fn((input: RequestInfo | URL, init?: RequestInit) => fetch(input, init));
+  let tiles: typeof import('./OfflineTiles');
+
+  const tileAt = (z: number, x: number, y: number): TileCoord => ({ z, x, y });
+  const row = (n: number) => Array.from({ length: n }, (_, i) => tileAt(10, 700 + i, 450));
+
+  beforeAll(async () => {
+    server = spawn(process.execPath, ['scripts/mock-tile-server.mjs'], { env: { ...process.env, MOCK_TILE_PORT: String(port) } });
+    await new Promise<void>((resolve, reject) => {
+      server.stdout!.once('data', () => resolve());
+      server.once('error', reject);
+    });
+    vi.stubEnv('MAP_TILE_URL', template);
+    vi.resetModules();
+    tiles = await import('./OfflineTiles');
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+    server.kill();
+  });
+
+  beforeEach(() => {
+    caches = memoryCaches();
+    worker = loadServiceWorker(caches, network as typeof fetch);
+    const active = {
+      postMessage: (data: object, ports: MessagePort[]) => worker.get('message')!({ data, ports, waitUntil: () => undefined })
+    };
+    vi.stubGlobal('navigator', { serviceWorker: { ready: Promise.resolve({ active }) } });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    network.mockClear();
+  });
+
+  const cachedUrls = () => [...(caches.stores.get(TILE_CACHE)?.entries.keys() || [])];
+
+  it('saves every planned tile with its size and skips the ones already saved', async () => {
+    const planned = row(6);
+    const result = await tiles.downloadOfflineTiles(planned);
+    expect(result).toMatchObject({ done: 6, failed: 0, total: 6, evicted: 0, stoppedByBudget: false });
+    expect(cachedUrls().sort()).toEqual(planned.map(tiles.tileUrl).sort());
+
+    const saved = await caches.stores.get(TILE_CACHE)!.match(tiles.tileUrl(planned[0]));
+    expect(saved!.headers.get('content-type')).toBe('image/png');
+    const usage = await tiles.offlineTileUsage();
+    expect(usage).toEqual({ count: 6, bytes: result.bytes });
+
+    network.mockClear();
+    expect(await tiles.downloadOfflineTiles(planned)).toMatchObject({ done: 6, bytes: result.bytes });
+    expect(network).not.toHaveBeenCalled();
+  });
+
+  it('stops at the budget', async () => {
+    const one = (await (await fetch(tiles.tileUrl(tileAt(10, 700, 450)))).arrayBuffer()).byteLength;
+    const result = await tiles.downloadOfflineTiles(row(6), undefined, Math.floor(one * 2.5));
+    expect(result.stoppedByBudget).toBe(true);
+    expect(cachedUrls()).toHaveLength(2);
+    expect(result.bytes).toBeLessThanOrEqual(one * 2.5);
+  });
+
+  it('drops tiles the new plan leaves out', async () => {
+    await tiles.downloadOfflineTiles(row(4));
+    const result = await tiles.downloadOfflineTiles(row(2));
+    expect(result.evicted).toBe(2);
+    expect(cachedUrls().sort()).toEqual(row(2).map(tiles.tileUrl).sort());
+  });
+
+  it('counts tiles the server fails on without stopping', async () => {
+    const result = await tiles.downloadOfflineTiles([tileAt(10, 700, 450), tileAt(3, 99, 99)]);
+    expect(result).toMatchObject({ done: 1, failed: 1 });
+  });
+
+  it('empties the tile cache on request', async () => {
+    await tiles.downloadOfflineTiles(row(2));
+    expect(await tiles.clearOfflineTiles()).toEqual({ bytes: 0, count: 0 });
+    expect(caches.stores.has(TILE_CACHE)).toBe(false);
+  });
+
+  const request = (url: string) => {
+    let response: Promise<Response | undefined> | undefined;
+    worker.get('fetch')!({ request: new Request(url), respondWith: (r: Promise<Response | undefined>) => { response = r; } });
+    return response!;
+  };
+
+  it('answers saved tiles from the cache without the network', async () => {
+    await tiles.downloadOfflineTiles(row(1));
+    network.mockClear();
+    const res = await request(tiles.tileUrl(row(1)[0]));
+    expect(res!.status).toBe(200);
+    expect(res!.headers.get('content-type')).toBe('image/png');
+    expect(network).not.toHaveBeenCalled();
+  });
+
+  it('fetches tiles it has not saved, without keeping them', async () => {
+    const url = tiles.tileUrl(tileAt(11, 1400, 900));
+    const res = await request(url);
+    expect(res!.status).toBe(200);
+    expect(network).toHaveBeenCalledTimes(1);
+    expect(await caches.match(url)).toBeUndefined();
+  });
+});
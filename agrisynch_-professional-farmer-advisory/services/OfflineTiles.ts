@@ -0,0 +1,119 @@
+
+import { GeoBounds, GeoPoint } from '../types';
+import { TileCoord, tilesInBounds } from './MapProjection';
+
+// XYZ template for the base map, e.g. https://tiles.example.org/{z}/{x}/{y}.png.
+// Unset, the maps draw only fields, region outlines and pest reports.
+export const TILE_URL_TEMPLATE = process.env.MAP_TILE_URL || '';
+// Most storage the offline map may take
+export const TILE_BUDGET_BYTES = (Number(process.env.MAP_TILE_BUDGET_MB) || 50) * 1024 * 1024;
+// A typical raster tile, to plan a download before any tile has been fetched
+const ESTIMATED_TILE_BYTES = 20 * 1024;
+// Share of the browser's remaining quota the tiles may use, so farmer data always has room
+const FREE_SPACE_SHARE = 0.5;
+const REGION_MIN_ZOOM = 5;
+const REGION_MAX_ZOOM = 12;
+const FIELD_MIN_ZOOM = 13;
+const FIELD_MAX_ZOOM = 17;
+// About a kilometre around each field, for the tracks and landmarks nearby
+const FIELD_MARGIN_DEG = 0.01;
+
+export interface TileDownloadProgress {
+  done: number;
+  failed: number;
+  total: number;
+  bytes: number;
+}
+
+export interface TileDownloadResult extends TileDownloadProgress {
+  // Tiles from an earlier download that the new plan no longer covers
+  evicted: number;
+  stoppedByBudget: boolean;
+}
+
+export interface TileCacheUsage {
+  bytes: number;
+  count: number;
+}
+
+const tileKey = (t: TileCoord) => `${t.z}/${t.x}/${t.y}`;
+
+export const tileUrl = (t: TileCoord) =>
+  TILE_URL_TEMPLATE.replace('{z}', String(t.z)).replace('{x}', String(t.x)).replace('{y}', String(t.y));
+
+const boundsOf = (points: GeoPoint[], margin = 0): GeoBounds => ({
+  minLat: Math.min(...points.map(p => p.lat)) - margin,
+  maxLat: Math.max(...points.map(p => p.lat)) + margin,
+  minLng: Math.min(...points.map(p => p.lng)) - margin,
+  maxLng: Math.max(...points.map(p => p.lng)) + margin
+});
+
+/**
+ * Tiles to keep for offline use, most useful first so that a download cut short still covers
+ * what matters: the fields in full detail, then the regions one zoom level at a time from the
+ * widest view inward, stopping before the estimated size would pass the budget. Region
+ * outlines are covered one polygon at a time, so islands don't pull in the sea between them.
+ */
+export const planOfflineTiles = (regionOutlines: GeoPoint[][], fields: GeoPoint[][], budgetBytes = TILE_BUDGET_BYTES): TileCoord[] => {
+  const maxTiles = Math.floor(budgetBytes / ESTIMATED_TILE_BYTES);
+  const planned = new Map<string, TileCoord>();
+  const levelOf = (bounds: GeoBounds[], zoom: number) => {
+    const level = new Map<string, TileCoord>();
+    bounds.flatMap(b => tilesInBounds(b, zoom)).forEach(t => { if (!planned.has(tileKey(t))) level.set(tileKey(t), t); });
+    return level;
+  };
+
+  const fieldAreas = fields.filter(points => points.length > 0).map(points => boundsOf(points, FIELD_MARGIN_DEG));
+  const regionAreas = regionOutlines.filter(points => points.length > 0).map(points => boundsOf(points));
+  for (let zoom = FIELD_MIN_ZOOM; zoom <= FIELD_MAX_ZOOM; zoom++) {
+    levelOf(fieldAreas, zoom).forEach((t, key) => planned.set(key, t));
+  }
+  for (let zoom = REGION_MIN_ZOOM; zoom <= REGION_MAX_ZOOM; zoom++) {
+    const level = levelOf(regionAreas, zoom);
+    if (planned.size + level.size > maxTiles) break;
+    level.forEach((t, key) => planned.set(key, t));
+  }
+  return [...planned.values()].slice(0, maxTiles);
+};
+
+// Requests to sw.js are answered on their own MessageChannel, so replies can't cross
+const askWorker = async <T>(message: object, onProgress?: (progress: TileDownloadProgress) => void): Promise<T> => {
+  if (!('serviceWorker' in navigator)) throw new Error('Service worker unavailable');
+  const registration = await navigator.serviceWorker.ready;
+  return new Promise<T>((resolve, reject) => {
+    if (!registration.active) return reject(new Error('Service worker not active'));
+    const channel = new MessageChannel();
+    channel.port1.onmessage = (e) => {
+      if (e.data?.type === 'progress') onProgress?.(e.data);
+      else if (e.data?.type === 'error') reject(new Error(e.data.message));
+      else resolve(e.data as T);
+    };
+    registration.active.postMessage(message, [channel.port2]);
+  });
+};
+
+export const offlineTileUsage = () => askWorker<TileCacheUsage>({ type: 'tile-usage' });
+
+export const clearOfflineTiles = () => askWorker<TileCacheUsage>({ type: 'clear-tiles' });
+
+/**
+ * Fetches the tiles into the worker's tile cache, skipping those already there and dropping
+ * cached tiles the plan no longer includes. The budget covers the whole cache and shrinks to
+ * what the device can spare; tiles past it are left out.
+ */
+export const downloadOfflineTiles = async (
+  tiles: TileCoord[],
+  onProgress?: (progress: TileDownloadProgress) => void,
+  budgetBytes = TILE_BUDGET_BYTES
+): Promise<TileDownloadResult> => {
+  if (!TILE_URL_TEMPLATE) throw new Error('No map tile server configured');
+  // Persistent storage keeps the browser from evicting the tiles when space runs low
+  await navigator.storage?.persist?.().catch(() => false);
+  const estimate = await navigator.storage?.estimate?.().catch(() => undefined);
+  const current = await offlineTileUsage();
+  const spare = estimate?.quota ? Math.max(0, estimate.quota - (estimate.usage || 0)) * FREE_SPACE_SHARE : Infinity;
+  return askWorker<TileDownloadResult>(
+    { type: 'cache-tiles', urls: tiles.map(tileUrl), budgetBytes: Math.min(budgetBytes, current.bytes + spare) },
+    onProgress
+  );
+};
@@ -0,0 +1,97 @@
+
+import { AIProvider, ChatTurn, DIAGNOSIS_JSON_SCHEMA, diagnosisPrompt, intentPrompt, speechText, TRANSCRIPTION_PROMPT } from './AIProvider';
+import { aiError } from './AIRequest';
+
+// Audio model names as OpenAI spells them; local servers (LocalAI, speaches, the mock) accept the same
+const TRANSCRIPTION_MODEL = 'whisper-1';
+const SPEECH_MODEL = 'tts-1';
+const SPEECH_VOICE = 'alloy';
+
+const baseUrl = () => {
+  if (!process.env.AI_BASE_URL) throw new Error('AI_BASE_URL is not configured');
+  return process.env.AI_BASE_URL.replace(/\/$/, '');
+};
+
+const authHeaders = (): Record<string, string> =>
+  process.env.AI_API_KEY ? { Authorization: `Bearer ${process.env.AI_API_KEY}` } : {};
+
+const post = async (path: string, body: BodyInit, signal: AbortSignal, headers: Record<string, string> = {}) => {
+  const res = await fetch(`${baseUrl()}${path}`, { method: 'POST', headers: { ...authHeaders(), ...headers }, body, signal });
+  if (!res.ok) throw Object.assign(new Error(`AI server returned ${res.status} for ${path}`), { status: res.status });
+  return res;
+};
+
+const toMessage = (turn: ChatTurn) => ({
+  role: turn.role === 'model' ? 'assistant' : 'user',
+  content: turn.imageUrl
+    ? [{ type: 'image_url', image_url: { url: turn.imageUrl } }, { type: 'text', text: turn.text }]
+    : turn.text
+});
+
+const complete = async (messages: ReturnType<typeof toMessage>[], signal: AbortSignal, responseFormat?: object): Promise<string> => {
+  const res = await post('/chat/completions', JSON.stringify({
+    model: process.env.AI_MODEL || 'default',
+    messages,
+    ...(responseFormat ? { response_format: responseFormat } : {})
+  }), signal, { 'Content-Type': 'application/json' });
+  const choice = (await res.json()).choices?.[0];
+  if (choice?.finish_reason === 'content_filter') throw aiError('safety-blocked', 'AI server filtered the response');
+  return choice?.message?.content || '';
+};
+
+const fromBase64 = (b64: string) => Uint8Array.from(atob(b64), c => c.charCodeAt(0));
+
+const toBase64 = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+};
+
+/**
+ * Any server speaking the OpenAI REST dialect (`AI_BASE_URL`, e.g. http://localhost:8787/v1):
+ * a hosted API, a local model server, or scripts/mock-ai-server.mjs during development.
+ */
+export const openAICompatibleProvider: AIProvider = {
+  id: 'openai-compatible',
+
+  diagnose: async (context, description, imageData, language, signal) => {
+    const content = await complete(
+      [toMessage({ role: 'user', text: diagnosisPrompt(context, description, language), imageUrl: imageData && `data:image/jpeg;base64,${imageData}` })],
+      signal,
+      { type: 'json_schema', json_schema: { name: 'diagnosis', schema: DIAGNOSIS_JSON_SCHEMA } }
+    );
+    return JSON.parse(content);
+  },
+
+  chat: (turns, signal) => complete(turns.map(toMessage), signal),
+
+  // The translations endpoint returns English whatever the spoken language
+  transcribe: async (base64Audio, signal) => {
+    const form = new FormData();
+    form.append('file', new Blob([fromBase64(base64Audio)], { type: 'audio/wav' }), 'voice-note.wav');
+    form.append('model', TRANSCRIPTION_MODEL);
+    form.append('prompt', TRANSCRIPTION_PROMPT);
+    const data = await (await post('/audio/translations', form, signal)).json();
+    return data.text || '';
+  },
+
+  parseIntent: async (text, signal) => JSON.parse(await complete(
+    [toMessage({ role: 'user', text: intentPrompt(text) })],
+    signal,
+    { type: 'json_object' }
+  ) || '{}'),
+
+  speechVoice: SPEECH_VOICE,
+
+  // `pcm` is 24 kHz 16-bit mono, the same format Gemini returns
+  speak: async (text, signal) => {
+    const res = await post('/audio/speech', JSON.stringify({
+      model: SPEECH_MODEL,
+      voice: SPEECH_VOICE,
+      input: speechText(text),
+      response_format: 'pcm'
+    }), signal, { 'Content-Type': 'application/json' });
+    return toBase64(await res.arrayBuffer());
+  }
+};
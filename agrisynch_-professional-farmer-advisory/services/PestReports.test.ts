@@ -0,0 +1,122 @@
+import { spawn, ChildProcess } from 'node:child_process';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { CropType, DiagnosticCase, FarmerCrop, SoilType, StructuredDiagnosis } from '../types';
+import { getMeta, updateMeta } from './StorageService';
+import { loadCommunityReports, pestReportsFromCases } from './PestReports';
+
+// The saved feed lives in an in-memory stand-in for the meta store
+vi.mock('./StorageService', () => ({
+  getMeta: vi.fn(async () => undefined),
+  updateMeta: vi.fn(async (_key: string, update: (current: unknown) => unknown) => update(undefined))
+}));
+
+const NOW = new Date('2024-08-20T06:00:00.000Z');
+
+const field: FarmerCrop = {
+  id: 'field-1', type: CropType.COTTON, sowingDate: '2024-06-15', soilType: SoilType.BLACK, region: 'vidarbha',
+  nickname: 'East field', location: { lat: 20.7, lng: 77.0 }
+};
+
+const structured: StructuredDiagnosis = {
+  suspectedProblem: 'Whitefly', confidence: 'high', cause: 'Humid spell', interventions: [], prevention: [], urgency: 'within-week'
+};
+
+const diagnosed = (id: string, createdAt?: string): DiagnosticCase => ({
+  id, cropId: field.id, cropNickname: field.nickname, description: 'Sticky leaves', diagnosis: 'Whitefly', structured,
+  // What toLocaleString() gives in hi-IN; Date can't read it back
+  timestamp: '१८/८/२०२४, ११:३०:०० am', createdAt
+});
+
+const sighting = (overrides: object = {}) => ({
+  id: 'c-1', location: { lat: 20.5, lng: 77.2 }, problem: 'Pink bollworm', cropType: 'cotton', reportedAt: '2024-08-18T05:00:00Z', ...overrides
+});
+
+describe('pestReportsFromCases', () => {
+  it('dates reports by the ISO creation time, whatever the display locale', () => {
+    const reports = pestReportsFromCases([diagnosed('1', '2024-08-18T06:00:00.000Z')], [field], NOW);
+    expect(reports).toEqual([{
+      id: '1', location: field.location, problem: 'Whitefly', cropType: CropType.COTTON, reportedAt: '2024-08-18T06:00:00.000Z', source: 'own-case'
+    }]);
+  });
+
+  it('leaves out old cases and ones that were never dated', () => {
+    expect(pestReportsFromCases([diagnosed('1', '2024-05-01T06:00:00.000Z'), diagnosed('2')], [field], NOW)).toEqual([]);
+  });
+});
+
+describe('loadCommunityReports', () => {
+  it('marks reports as community sightings and drops stale ones', () => {
+    const { reports, errors } = loadCommunityReports({ reports: [sighting(), sighting({ id: 'c-2', reportedAt: '2024-01-01T00:00:00Z' })] }, NOW);
+    expect(errors).toEqual([]);
+    expect(reports).toEqual([{ ...sighting(), reportedAt: '2024-08-18T05:00:00.000Z', source: 'community' }]);
+  });
+
+  it('drops malformed reports one by one and says why', () => {
+    const { reports, errors } = loadCommunityReports({ reports: [
+      sighting({ id: '' }),
+      sighting({ id: 'c-2', location: { lat: 120, lng: 77 } }),
+      sighting({ id: 'c-3', cropType: 'banana' }),
+      sighting({ id: 'c-4', reportedAt: '18/08/2024' }),
+      sighting({ id: 'c-5', problem: ' ' })
+    ] }, NOW);
+    expect(reports).toEqual([]);
+    expect(errors).toEqual([
+      'report[0] "": missing id',
+      'report[1] "c-2": location must be a lat/lng point',
+      'report[2] "c-3": unknown crop type "banana"',
+      'report[3] "c-4": reportedAt must be an ISO time',
+      'report[4] "c-5": missing problem'
+    ]);
+    expect(loadCommunityReports({}).errors).toEqual(['Pest feed has no "reports" list']);
+  });
+});
+
+describe('community feed from the mock endpoint', () => {
+  const port = 20000 + Math.floor(Math.random() * 1000);
+  const bounds = { minLat: 19, maxLat: 22, minLng: 76, maxLng: 80 };
+  let server: ChildProcess;
+  let feed: typeof import('./PestReports');
+
+  beforeAll(async () => {
+    server = spawn(process.execPath, ['scripts/mock-pest-feed.mjs'], { env: { ...process.env, MOCK_PEST_PORT: String(port) } });
+    await new Promise<void>((resolve, reject) => {
+      server.stdout!.once('data', () => resolve());
+      server.once('error', reject);
+    });
+    vi.stubEnv('PEST_FEED_URL', `http://localhost:${port}/pest-reports`);
+    vi.resetModules();
+    feed = await import('./PestReports');
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+    server.kill();
+  });
+
+  afterEach(() => vi.clearAllMocks());
+
+  it('fetches valid sightings inside the bounds and saves them for offline use', async () => {
+    const reports = await feed.fetchCommunityReports(bounds);
+    expect(reports.length).toBeGreaterThan(0);
+    reports.forEach(r => {
+      expect(r.source).toBe('community');
+      expect(r.location.lat).toBeGreaterThanOrEqual(bounds.minLat);
+      expect(r.location.lng).toBeLessThanOrEqual(bounds.maxLng);
+    });
+    await expect(vi.mocked(updateMeta).mock.results[0].value).resolves.toEqual(reports);
+  });
+
+  it('reads the saved sightings back, without stale ones', async () => {
+    const fresh = { ...sighting(), source: 'community' };
+    vi.mocked(getMeta).mockResolvedValueOnce([fresh, { ...fresh, id: 'old', reportedAt: '2024-01-01T00:00:00.000Z' }]);
+    expect(await feed.cachedCommunityReports(NOW)).toEqual([fresh]);
+  });
+
+  it('keeps the saved sightings when the feed fails', async () => {
+    vi.stubEnv('PEST_FEED_URL', `http://localhost:${port}/missing`);
+    vi.resetModules();
+    const broken = await import('./PestReports');
+    await expect(broken.fetchCommunityReports(bounds)).rejects.toThrow('Pest feed request failed (404)');
+    expect(updateMeta).not.toHaveBeenCalled();
+  });
+});
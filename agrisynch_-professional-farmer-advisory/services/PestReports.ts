@@ -0,0 +1,98 @@
+
+import { CropType, DiagnosticCase, FarmerCrop, GeoBounds, GeoPoint, PestReport } from '../types';
+import { MIN_BOUNDARY_POINTS } from './FieldGeometry';
+import { DAY_MS } from './Dates';
+import { asRecord, isFiniteNumber, isNonEmptyString, isOneOf } from './Guards';
+import { getMeta, updateMeta } from './StorageService';
+
+// Shared sightings from other farmers: GET `${PEST_FEED_URL}?minLat=&maxLat=&minLng=&maxLng=&since=`
+// answers `{ reports: [...] }`. Unset, the map shows only the farmer's own cases.
+export const PEST_FEED_URL = process.env.PEST_FEED_URL || '';
+
+// Sightings older than this no longer say much about what is in the fields now
+const REPORT_WINDOW_DAYS = 60;
+// The last feed answer, so the map still shows nearby sightings offline
+const FEED_CACHE_KEY = 'pestFeed';
+
+const windowStart = (now: Date) => now.getTime() - REPORT_WINDOW_DAYS * DAY_MS;
+
+// Middle of the mapped field, else where it was registered
+const fieldPoint = (crop: FarmerCrop): GeoPoint | undefined => {
+  const boundary = crop.boundary || [];
+  if (boundary.length >= MIN_BOUNDARY_POINTS) {
+    return {
+      lat: boundary.reduce((sum, p) => sum + p.lat, 0) / boundary.length,
+      lng: boundary.reduce((sum, p) => sum + p.lng, 0) / boundary.length
+    };
+  }
+  return crop.location;
+};
+
+/**
+ * Recent diagnosed cases as map sightings, placed on their field. Other farmers' sightings
+ * come from the community feed below in the same shape.
+ */
+export const pestReportsFromCases = (cases: DiagnosticCase[], crops: FarmerCrop[], now = new Date()): PestReport[] => {
+  const since = windowStart(now);
+  return cases.flatMap(c => {
+    const crop = crops.find(f => f.id === c.cropId);
+    const location = crop && fieldPoint(crop);
+    const problem = c.structured?.suspectedProblem;
+    if (!crop || !location || !problem || !c.createdAt || Date.parse(c.createdAt) < since) return [];
+    return [{ id: c.id, location, problem, cropType: crop.type, reportedAt: c.createdAt, source: 'own-case' as const }];
+  });
+};
+
+const isGeoPoint = (value: unknown): value is GeoPoint => {
+  const p = asRecord(value);
+  return isFiniteNumber(p.lat) && isFiniteNumber(p.lng) && Math.abs(p.lat) <= 90 && Math.abs(p.lng) <= 180;
+};
+
+// Per-entry validation in the style of loadRules: bad or stale reports are dropped, the bad ones reported
+export const loadCommunityReports = (raw: unknown, now = new Date()): { reports: PestReport[], errors: string[] } => {
+  const list = asRecord(raw).reports;
+  if (!Array.isArray(list)) return { reports: [], errors: ['Pest feed has no "reports" list'] };
+  const reports: PestReport[] = [];
+  const errors: string[] = [];
+  const since = windowStart(now);
+  list.forEach((entry: unknown, i: number) => {
+    const r = asRecord(entry);
+    const where = `report[${i}]${typeof r.id === 'string' ? ` "${r.id}"` : ''}`;
+    const problem =
+      !isNonEmptyString(r.id) ? 'missing id' :
+      !isGeoPoint(r.location) ? 'location must be a lat/lng point' :
+      !isNonEmptyString(r.problem) ? 'missing problem' :
+      !isOneOf(r.cropType, Object.values(CropType)) ? `unknown crop type "${r.cropType}"` :
+      typeof r.reportedAt !== 'string' || isNaN(Date.parse(r.reportedAt)) ? 'reportedAt must be an ISO time' :
+      null;
+    if (problem) errors.push(`${where}: ${problem}`);
+    else if (Date.parse(r.reportedAt as string) >= since) {
+      reports.push({ ...(r as unknown as PestReport), reportedAt: new Date(r.reportedAt as string).toISOString(), source: 'community' });
+    }
+  });
+  return { reports, errors };
+};
+
+// The last feed answer still inside the report window, for the map while offline
+export const cachedCommunityReports = async (now = new Date()): Promise<PestReport[]> => {
+  const cached = await getMeta<PestReport[]>(FEED_CACHE_KEY);
+  return (cached || []).filter(r => Date.parse(r.reportedAt) >= windowStart(now));
+};
+
+/**
+ * Sightings inside `bounds` from the community feed, kept for offline use. A bad answer
+ * throws, so it never replaces the reports already saved.
+ */
+export const fetchCommunityReports = async (bounds: GeoBounds, signal?: AbortSignal, now = new Date()): Promise<PestReport[]> => {
+  if (!PEST_FEED_URL) throw new Error('PEST_FEED_URL is not configured');
+  const query = new URLSearchParams({
+    minLat: String(bounds.minLat), maxLat: String(bounds.maxLat), minLng: String(bounds.minLng), maxLng: String(bounds.maxLng),
+    since: new Date(windowStart(now)).toISOString()
+  });
+  const res = await fetch(`${PEST_FEED_URL}?${query}`, { signal });
+  if (!res.ok) throw new Error(`Pest feed request failed (${res.status})`);
+  const { reports, errors } = loadCommunityReports(await res.json(), now);
+  if (errors.length) console.error("Pest Feed Errors:", errors);
+  await updateMeta<PestReport[]>(FEED_CACHE_KEY, () => reports);
+  return reports;
+};
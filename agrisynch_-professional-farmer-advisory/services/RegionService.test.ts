@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { SoilType } from '../types';
+import { REGIONS, loadRegions } from './RegionService';
+import REGIONS_JSON from '../data/regions.json';
+
+const square = [[[76, 20], [77, 20], [77, 21], [76, 21], [76, 20]]];
+
+const feature = (properties: object, geometry: object = { type: 'Polygon', coordinates: square }) => ({
+  type: 'Feature',
+  properties: { id: 'zone', name: 'Zone', hindiName: 'क्षेत्र', marathiName: 'विभाग', state: 'Maharashtra', defaultSoil: SoilType.BLACK, ...properties },
+  geometry
+});
+
+describe('loadRegions', () => {
+  it('accepts the bundled regions', () => {
+    expect(REGIONS).toHaveLength(REGIONS_JSON.features.length);
+  });
+
+  it('rejects a bundle without a features list', () => {
+    expect(loadRegions(null).errors).toEqual(['Region bundle has no "features" list']);
+    expect(loadRegions({ features: 'none' }).regions).toEqual([]);
+  });
+
+  it('drops invalid features one by one and says why', () => {
+    const { regions, errors } = loadRegions({ features: [
+      feature({ id: 'good' }),
+      'not a feature',
+      feature({ id: 'good' }),
+      feature({ id: 'bad-soil', defaultSoil: 'clay' }),
+      feature({ id: 'open-ring' }, { type: 'Polygon', coordinates: [square[0].slice(0, 4)] }),
+      feature({ id: 'bad-position' }, { type: 'Polygon', coordinates: [[[76, 20], [77, '20'], [77, 21], [76, 20]]] }),
+      feature({ id: 'point' }, { type: 'Point', coordinates: [76, 20] }),
+      feature({ id: 'orphan', parentId: 'nowhere' })
+    ] });
+    expect(regions.map(r => r.id)).toEqual(['good', 'orphan']);
+    expect(regions[0].bounds).toEqual({ minLat: 20, maxLat: 21, minLng: 76, maxLng: 77 });
+    expect(errors).toEqual([
+      'feature[1]: missing id',
+      'feature[2] "good": duplicate id',
+      'feature[3] "bad-soil": unknown soil type "clay"',
+      'feature[4] "open-ring": geometry must be a Polygon or MultiPolygon of closed rings',
+      'feature[5] "bad-position": geometry must be a Polygon or MultiPolygon of closed rings',
+      'feature[6] "point": geometry must be a Polygon or MultiPolygon of closed rings',
+      'region "orphan": unknown parent "nowhere"'
+    ]);
+  });
+});
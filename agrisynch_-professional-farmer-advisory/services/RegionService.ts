@@ -1,20 +1,245 @@
+import { GeoBounds, GeoPoint, Language, LocationFix, Region, RegionGeometry, RegionMatch, SoilType } from '../types';
+import REGIONS_JSON from '../data/regions.json';
+import { asRecord, isFiniteNumber, isOneOf } from './Guards';
 
-import { REGIONS } from '../constants';
-import { Region } from '../types';
+type Ring = number[][];
+// Outer ring first, then holes
+type Rings = Ring[];
 
-// Map lat/lng to pre-bundled region bounding boxes (Offline)
-export const getOfflineRegion = (lat: number, lng: number): Region | null => {
-  for (const region of REGIONS) {
-    const { minLat, maxLat, minLng, maxLng } = region.bounds;
-    if (lat >= minLat && lat <= maxLat && lng >= minLng && lng <= maxLng) {
-      return region;
+// Spatial index cell size; a cell is about 110 km across
+const CELL_DEGREES = 1;
+const KM_PER_DEGREE = 111.32;
+// Outside every polygon, the nearest region still counts when its edge is this close: the
+// bundled borders and coastlines are simplified to roughly 10 km
+const MAX_SNAP_KM = 25;
+const TEXT_FIELDS = ['name', 'hindiName', 'marathiName', 'state'];
+
+// A feature's properties once checked; geometry and bounds come from the feature itself
+type RegionProperties = Omit<Region, 'geometry' | 'bounds'>;
+
+const isPosition = (p: unknown): p is number[] =>
+  Array.isArray(p) && p.length >= 2 && p.every(isFiniteNumber) && Math.abs(p[0]) <= 180 && Math.abs(p[1]) <= 90;
+
+const isRing = (r: unknown): r is Ring =>
+  Array.isArray(r) && r.length >= 4 && r.every(isPosition) && r[0][0] === r[r.length - 1][0] && r[0][1] === r[r.length - 1][1];
+
+const isPolygon = (p: unknown): p is Rings => Array.isArray(p) && p.length > 0 && p.every(isRing);
+
+const isGeometry = (value: unknown): value is RegionGeometry => {
+  const g = asRecord(value);
+  return g.type === 'Polygon' ? isPolygon(g.coordinates) :
+    g.type === 'MultiPolygon' ? Array.isArray(g.coordinates) && g.coordinates.length > 0 && g.coordinates.every(isPolygon) :
+    false;
+};
+
+const polygonsOf = (geometry: RegionGeometry): Rings[] =>
+  geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+
+const ringBounds = (ring: Ring): GeoBounds => ({
+  minLat: Math.min(...ring.map(p => p[1])),
+  maxLat: Math.max(...ring.map(p => p[1])),
+  minLng: Math.min(...ring.map(p => p[0])),
+  maxLng: Math.max(...ring.map(p => p[0]))
+});
+
+const mergeBounds = (all: GeoBounds[]): GeoBounds => ({
+  minLat: Math.min(...all.map(b => b.minLat)),
+  maxLat: Math.max(...all.map(b => b.maxLat)),
+  minLng: Math.min(...all.map(b => b.minLng)),
+  maxLng: Math.max(...all.map(b => b.maxLng))
+});
+
+/**
+ * Validate a GeoJSON FeatureCollection of regions. Each feature's properties carry the
+ * Region fields; its Polygon or MultiPolygon becomes the region's geometry and bounds.
+ * Invalid features are dropped individually and reported, in the style of loadRules.
+ */
+export const loadRegions = (raw: unknown): { regions: Region[], errors: string[] } => {
+  const list = asRecord(raw).features;
+  if (!Array.isArray(list)) return { regions: [], errors: ['Region bundle has no "features" list'] };
+
+  const regions: Region[] = [];
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  list.forEach((entry: unknown, i: number) => {
+    const f = asRecord(entry);
+    const p = asRecord(f.properties);
+    const where = `feature[${i}]${typeof p.id === 'string' ? ` "${p.id}"` : ''}`;
+    const problem =
+      typeof p.id !== 'string' || !p.id ? 'missing id' :
+      seen.has(p.id) ? 'duplicate id' :
+      !TEXT_FIELDS.every(k => typeof p[k] === 'string' && p[k]) ? 'missing name or state' :
+      !isOneOf(p.defaultSoil, Object.values(SoilType)) ? `unknown soil type "${p.defaultSoil}"` :
+      p.imdDistrictId !== undefined && typeof p.imdDistrictId !== 'string' ? 'imdDistrictId must be text' :
+      p.parentId !== undefined && (typeof p.parentId !== 'string' || p.parentId === p.id) ? 'parentId must be another region id' :
+      !isGeometry(f.geometry) ? 'geometry must be a Polygon or MultiPolygon of closed rings' :
+      null;
+    if (problem) {
+      errors.push(`${where}: ${problem}`);
+      return;
+    }
+    const props = p as unknown as RegionProperties;
+    const geometry = f.geometry as RegionGeometry;
+    seen.add(props.id);
+    regions.push({
+      id: props.id,
+      name: props.name,
+      hindiName: props.hindiName,
+      marathiName: props.marathiName,
+      state: props.state,
+      defaultSoil: props.defaultSoil,
+      geometry,
+      bounds: mergeBounds(polygonsOf(geometry).map(rings => ringBounds(rings[0]))),
+      imdDistrictId: props.imdDistrictId,
+      parentId: props.parentId
+    });
+  });
+
+  // Parents may come later in the bundle, so they are checked once everything is loaded
+  const ids = new Set(regions.map(r => r.id));
+  regions.filter(r => r.parentId && !ids.has(r.parentId)).forEach(r => {
+    errors.push(`region "${r.id}": unknown parent "${r.parentId}"`);
+    delete r.parentId;
+  });
+
+  return { regions, errors };
+};
+
+const bundled = loadRegions(REGIONS_JSON);
+if (bundled.errors.length) console.error("Region Bundle Errors:", bundled.errors);
+
+// ICAR agro-climatic zones plus the older advisory regions, already validated
+export const REGIONS: Region[] = bundled.regions;
+
+// Shoelace area (square degrees, signed) and centroid of a ring
+const ringShape = (ring: Ring) => {
+  let twiceArea = 0, cx = 0, cy = 0;
+  for (let i = 1; i < ring.length; i++) {
+    const [x0, y0] = ring[i - 1], [x1, y1] = ring[i];
+    const cross = x0 * y1 - x1 * y0;
+    twiceArea += cross;
+    cx += (x0 + x1) * cross;
+    cy += (y0 + y1) * cross;
+  }
+  return { area: twiceArea / 2, lng: cx / (3 * twiceArea), lat: cy / (3 * twiceArea) };
+};
+
+// Roughly in km², enough to tell a district from the zone around it
+const polygonArea = (rings: Rings) => {
+  const [outer, ...holes] = rings.map(r => Math.abs(ringShape(r).area));
+  const midLat = (ringBounds(rings[0]).minLat + ringBounds(rings[0]).maxLat) / 2;
+  return (outer - holes.reduce((sum, a) => sum + a, 0)) * KM_PER_DEGREE ** 2 * Math.cos(midLat * Math.PI / 180);
+};
+
+// Ray casting: a horizontal ray from the point crosses the ring an odd number of times when inside
+const insideRing = (lat: number, lng: number, ring: Ring) => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i], [xj, yj] = ring[j];
+    if ((yi > lat) !== (yj > lat) && lng < (xj - xi) * (lat - yi) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+// Even-odd across all rings, so a point inside a hole is outside the polygon
+const insidePolygon = (lat: number, lng: number, rings: Rings) =>
+  rings.reduce((inside, ring) => insideRing(lat, lng, ring) ? !inside : inside, false);
+
+// Distances near the point on an equirectangular projection; accurate to well under 1% at these scales
+const distanceToRingKm = (lat: number, lng: number, ring: Ring) => {
+  const kx = KM_PER_DEGREE * Math.cos(lat * Math.PI / 180);
+  let best = Infinity;
+  for (let i = 1; i < ring.length; i++) {
+    const ax = (ring[i - 1][0] - lng) * kx, ay = (ring[i - 1][1] - lat) * KM_PER_DEGREE;
+    const dx = (ring[i][0] - lng) * kx - ax, dy = (ring[i][1] - lat) * KM_PER_DEGREE - ay;
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSq)) : 0;
+    best = Math.min(best, Math.hypot(ax + t * dx, ay + t * dy));
+  }
+  return best;
+};
+
+// A lower bound on the distance to anything inside `b`, to skip far regions cheaply
+const distanceToBoundsKm = (lat: number, lng: number, b: GeoBounds) => {
+  const dLat = Math.max(b.minLat - lat, 0, lat - b.maxLat);
+  const dLng = Math.max(b.minLng - lng, 0, lng - b.maxLng);
+  return Math.hypot(dLat * KM_PER_DEGREE, dLng * KM_PER_DEGREE * Math.cos(Math.min(89, Math.abs(lat) + dLat) * Math.PI / 180));
+};
+
+interface IndexedRegion {
+  region: Region;
+  polygons: Rings[];
+  area: number;
+}
+
+const cellKey = (lat: number, lng: number) => `${Math.floor(lat / CELL_DEGREES)}:${Math.floor(lng / CELL_DEGREES)}`;
+
+/**
+ * Point-to-region lookup over a grid index: each cell lists the regions whose polygons'
+ * bounding boxes touch it, so a lookup only ray-casts a handful of polygons. Where
+ * regions overlap the smallest one wins, being the most specific. A point outside every
+ * polygon gets the nearest region with the distance to its edge.
+ */
+export const createRegionLocator = (regions: Region[]) => {
+  const entries: IndexedRegion[] = regions.map(region => {
+    const polygons = polygonsOf(region.geometry);
+    return { region, polygons, area: polygons.reduce((sum, rings) => sum + polygonArea(rings), 0) };
+  });
+
+  const cells = new Map<string, IndexedRegion[]>();
+  entries.forEach(entry => entry.polygons.forEach(rings => {
+    const b = ringBounds(rings[0]);
+    for (let lat = Math.floor(b.minLat / CELL_DEGREES); lat <= Math.floor(b.maxLat / CELL_DEGREES); lat++) {
+      for (let lng = Math.floor(b.minLng / CELL_DEGREES); lng <= Math.floor(b.maxLng / CELL_DEGREES); lng++) {
+        const key = `${lat}:${lng}`;
+        const list = cells.get(key) || [];
+        if (!list.includes(entry)) cells.set(key, [...list, entry]);
+      }
     }
+  }));
+
+  return (lat: number, lng: number): RegionMatch | null => {
+    const containing = (cells.get(cellKey(lat, lng)) || [])
+      .filter(e => e.polygons.some(rings => insidePolygon(lat, lng, rings)))
+      .sort((a, b) => a.area - b.area);
+    if (containing.length) return { region: containing[0].region, inside: true, distanceKm: 0 };
+
+    let nearest: RegionMatch | null = null;
+    entries.forEach(e => {
+      if (nearest && distanceToBoundsKm(lat, lng, e.region.bounds) >= nearest.distanceKm) return;
+      const distanceKm = Math.min(...e.polygons.map(rings => distanceToRingKm(lat, lng, rings[0])));
+      if (!nearest || distanceKm < nearest.distanceKm) nearest = { region: e.region, inside: false, distanceKm };
+    });
+    return nearest;
+  };
+};
+
+// Lookup over the bundled regions (Offline)
+export const locateRegion = createRegionLocator(REGIONS);
+
+// The region containing lat/lng, or one just across a simplified border; null out at sea or abroad
+export const getOfflineRegion = (lat: number, lng: number): Region | null => {
+  const match = locateRegion(lat, lng);
+  return match && match.distanceKm <= MAX_SNAP_KM ? match.region : null;
+};
+
+// The region and its parents, most specific first; unknown ids give an empty chain
+export const regionChain = (regionId: string): Region[] => {
+  const chain: Region[] = [];
+  let region = REGIONS.find(r => r.id === regionId);
+  while (region && !chain.includes(region)) {
+    chain.push(region);
+    region = REGIONS.find(r => r.id === region!.parentId);
   }
-  return null;
+  return chain;
 };
 
+export const localRegionName = (region: Region, language: Language) =>
+  language === Language.HINDI ? region.hindiName : language === Language.MARATHI ? region.marathiName : region.name;
+
 // Geolocation wrapper
-export const detectCurrentLocation = (): Promise<{ lat: number, lng: number }> => {
+export const detectCurrentLocation = (): Promise<GeoPoint> => {
   return new Promise((resolve, reject) => {
     if (!navigator.geolocation) {
       reject(new Error("Geolocation not supported"));
@@ -28,3 +253,29 @@ export const detectCurrentLocation = (): Promise<{ lat: number, lng: number }> =
     );
   });
 };
+
+// Continuous high-accuracy fixes, for walking a field boundary; returns a function that stops watching
+export const watchLocation = (onFix: (fix: LocationFix) => void, onError: (err: Error) => void): (() => void) => {
+  if (!navigator.geolocation) {
+    onError(new Error("Geolocation not supported"));
+    return () => {};
+  }
+  const id = navigator.geolocation.watchPosition(
+    (pos) => onFix({ lat: pos.coords.latitude, lng: pos.coords.longitude, accuracyM: pos.coords.accuracy }),
+    (err) => onError(new Error(err.message)),
+    { enableHighAccuracy: true, maximumAge: 0 }
+  );
+  return () => navigator.geolocation.clearWatch(id);
+};
+
+// Centroid of the region's largest polygon, used as its forecast point
+export const getRegionCentroid = (region: Region): GeoPoint => {
+  const largest = polygonsOf(region.geometry)
+    .map(rings => ringShape(rings[0]))
+    .sort((a, b) => Math.abs(b.area) - Math.abs(a.area))[0];
+  return { lat: largest.lat, lng: largest.lng };
+};
+
+// Outer rings of the region's polygons as map points, for drawing its outline
+export const regionOutlines = (region: Region): GeoPoint[][] =>
+  polygonsOf(region.geometry).map(rings => rings[0].map(([lng, lat]) => ({ lat, lng })));
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { CropType, GrowthStage } from '../types';
+import { CROP_DATASETS } from '../constants';
+import { loadRegionOverlays, resolveAdvisory } from './RegionalAdvisory';
+import OVERLAYS_JSON from '../data/regionAdvisories.json';
+
+const overlay = (region: string, stages: Record<string, unknown>, crop: string = CropType.WHEAT) => ({ region, crop, stages });
+
+describe('loadRegionOverlays', () => {
+  it('accepts the bundled overlays', () => {
+    const { overlays, errors } = loadRegionOverlays(OVERLAYS_JSON);
+    expect(errors).toEqual([]);
+    expect(overlays.length).toBe(OVERLAYS_JSON.overlays.length);
+  });
+
+  it('rejects malformed overlays and keeps the rest', () => {
+    const good = overlay('upper-gangetic', { sowing: { fertilizer: 'DAP 50kg/acre', extraTips: ['Sow by 15 November'] } });
+    const { overlays, errors } = loadRegionOverlays({
+      overlays: [
+        good,
+        null,
+        overlay('atlantis', { sowing: { fertilizer: 'DAP' } }),
+        overlay('vidarbha', { sowing: { fertilizer: 'DAP' } }, 'tea'),
+        overlay('vidarbha', { ripening: { fertilizer: 'DAP' } }),
+        overlay('vidarbha', { sowing: { fertilizer: '  ', tips: ['Weed', ''], extraTips: 'Weed', spray: 'Neem' } }),
+        overlay('vidarbha', { sowing: 'DAP' }),
+        { region: 'vidarbha', crop: CropType.WHEAT },
+        good
+      ]
+    });
+    expect(overlays).toEqual([good]);
+    expect(errors).toEqual([
+      'overlay[1]: unknown region "undefined"',
+      'overlay[1]: unknown crop type "undefined"',
+      'overlay[1]: missing stages',
+      'overlay[2] "atlantis/wheat": unknown region "atlantis"',
+      'overlay[3] "vidarbha/tea": unknown crop type "tea"',
+      'overlay[4] "vidarbha/wheat": unknown growth stage "ripening"',
+      'overlay[5] "vidarbha/wheat".stages.sowing.fertilizer: missing text',
+      'overlay[5] "vidarbha/wheat".stages.sowing.tips: must be a list of text',
+      'overlay[5] "vidarbha/wheat".stages.sowing.extraTips: must be a list of text',
+      'overlay[5] "vidarbha/wheat".stages.sowing: unknown field "spray"',
+      'overlay[6] "vidarbha/wheat".stages.sowing: must be an object',
+      'overlay[7] "vidarbha/wheat": missing stages',
+      'overlay[8] "upper-gangetic/wheat": duplicate region and crop'
+    ]);
+  });
+
+  it('reports a bundle without an overlays list', () => {
+    expect(loadRegionOverlays([overlay('vidarbha', {})])).toEqual({ overlays: [], errors: ['Overlay bundle has no "overlays" list'] });
+  });
+});
+
+describe('resolveAdvisory', () => {
+  const { overlays } = loadRegionOverlays({
+    overlays: [
+      overlay('indo-gangetic', { sowing: { fertilizer: 'Zone dose', irrigation: 'Zone irrigation', tips: ['Zone tip'] } }),
+      overlay('upper-gangetic', { sowing: { fertilizer: 'District dose', extraTips: ['District tip'] } })
+    ]
+  });
+
+  it('applies the parent region first and the field\'s own region last', () => {
+    const advisory = resolveAdvisory(CropType.WHEAT, GrowthStage.SOWING, 'upper-gangetic', overlays);
+    expect(advisory).toMatchObject({ fertilizer: 'District dose', irrigation: 'Zone irrigation', tips: ['Zone tip', 'District tip'] });
+    expect(advisory.sources.map(r => r.id)).toEqual(['upper-gangetic', 'indo-gangetic']);
+  });
+
+  it('keeps the national advisory where no overlay applies', () => {
+    const advisory = resolveAdvisory(CropType.WHEAT, GrowthStage.HARVEST, 'upper-gangetic', overlays);
+    expect(advisory).toMatchObject(CROP_DATASETS[CropType.WHEAT].advisories[GrowthStage.HARVEST]);
+    expect(advisory.sources).toEqual([]);
+  });
+});
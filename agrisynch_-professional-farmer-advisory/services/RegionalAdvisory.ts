@@ -0,0 +1,93 @@
+
+import { AdvisoryOverride, CropType, GrowthStage, RegionAdvisoryOverlay, ResolvedAdvisory } from '../types';
+import { CROP_DATASETS } from '../constants';
+import { REGIONS, regionChain } from './RegionService';
+import { asRecord, isNonEmptyString, isOneOf, isRecord, isStringList } from './Guards';
+import OVERLAYS_JSON from '../data/regionAdvisories.json';
+
+const TEXT_FIELDS = ['fertilizer', 'pestAlert', 'irrigation'];
+const LIST_FIELDS = ['tips', 'extraTips'];
+const CROP_TYPES = Object.values(CropType);
+const GROWTH_STAGES = Object.values(GrowthStage);
+
+const validateOverride = (value: unknown, where: string): string[] => {
+  if (!isRecord(value)) return [`${where}: must be an object`];
+  const errors: string[] = [];
+  Object.entries(value).forEach(([key, field]) => {
+    if (TEXT_FIELDS.includes(key)) {
+      if (!isNonEmptyString(field)) errors.push(`${where}.${key}: missing text`);
+    } else if (LIST_FIELDS.includes(key)) {
+      if (!isStringList(field) || !field.every(isNonEmptyString)) errors.push(`${where}.${key}: must be a list of text`);
+    } else errors.push(`${where}: unknown field "${key}"`);
+  });
+  return errors;
+};
+
+// Per-entry validation in the style of loadRules: bad overlays are dropped and reported
+export const loadRegionOverlays = (raw: unknown): { overlays: RegionAdvisoryOverlay[], errors: string[] } => {
+  const list = asRecord(raw).overlays;
+  if (!Array.isArray(list)) return { overlays: [], errors: ['Overlay bundle has no "overlays" list'] };
+
+  const overlays: RegionAdvisoryOverlay[] = [];
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  const regionIds = REGIONS.map(r => r.id);
+
+  list.forEach((item: unknown, i: number) => {
+    const o = asRecord(item);
+    const key = `${String(o.region)}/${String(o.crop)}`;
+    const where = `overlay[${i}]${typeof o.region === 'string' ? ` "${key}"` : ''}`;
+    const overlayErrors: string[] = [];
+    if (!isOneOf(o.region, regionIds)) overlayErrors.push(`${where}: unknown region "${String(o.region)}"`);
+    if (!isOneOf(o.crop, CROP_TYPES)) overlayErrors.push(`${where}: unknown crop type "${String(o.crop)}"`);
+    else if (seen.has(key)) overlayErrors.push(`${where}: duplicate region and crop`);
+    if (!isRecord(o.stages)) overlayErrors.push(`${where}: missing stages`);
+    else Object.entries(o.stages).forEach(([stage, override]) => {
+      if (!isOneOf(stage, GROWTH_STAGES)) overlayErrors.push(`${where}: unknown growth stage "${stage}"`);
+      else overlayErrors.push(...validateOverride(override, `${where}.stages.${stage}`));
+    });
+
+    if (overlayErrors.length) errors.push(...overlayErrors);
+    else {
+      seen.add(key);
+      overlays.push(o as unknown as RegionAdvisoryOverlay);
+    }
+  });
+
+  return { overlays, errors };
+};
+
+const bundled = loadRegionOverlays(OVERLAYS_JSON);
+if (bundled.errors.length) console.error("Region Overlay Errors:", bundled.errors);
+
+// Overlays shipped with the app, already validated
+export const BUNDLED_OVERLAYS: RegionAdvisoryOverlay[] = bundled.overlays;
+
+/**
+ * The crop's stage advisory for a field in `regionId`. The national CROP_DATASETS entry is
+ * the base; overlays for the region's parents apply next, widest first, and the region's
+ * own overlay last, so the most specific region wins. `tips` replaces the tips so far,
+ * `extraTips` adds to them.
+ */
+export const resolveAdvisory = (
+  crop: CropType,
+  stage: GrowthStage,
+  regionId: string,
+  overlays: RegionAdvisoryOverlay[] = BUNDLED_OVERLAYS
+): ResolvedAdvisory => {
+  const base = CROP_DATASETS[crop].advisories[stage];
+  const resolved: ResolvedAdvisory = { ...base, tips: [...base.tips], sources: [] };
+
+  [...regionChain(regionId)].reverse().forEach(region => {
+    const override: AdvisoryOverride | undefined = overlays.find(o => o.region === region.id && o.crop === crop)?.stages[stage];
+    if (!override) return;
+    if (override.fertilizer) resolved.fertilizer = override.fertilizer;
+    if (override.pestAlert) resolved.pestAlert = override.pestAlert;
+    if (override.irrigation) resolved.irrigation = override.irrigation;
+    if (override.tips) resolved.tips = [...override.tips];
+    if (override.extraTips) resolved.tips.push(...override.extraTips);
+    resolved.sources.unshift(region);
+  });
+
+  return resolved;
+};
@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getCachedResponse, putCachedResponse } from './StorageService';
+import { CACHE_LIMIT_BYTES, fingerprint, readCache, writeCache } from './ResponseCache';
+
+// The cache is exercised against in-memory stand-ins for the IndexedDB store
+vi.mock('./StorageService', () => ({
+  getCachedResponse: vi.fn(),
+  putCachedResponse: vi.fn(async () => undefined)
+}));
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.clearAllMocks();
+  vi.restoreAllMocks();
+});
+
+describe('fingerprint', () => {
+  it('gives the same SHA-256 hex for the same input', async () => {
+    const key = await fingerprint(['speak', 'hi', 'पानी दें']);
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+    expect(await fingerprint(['speak', 'hi', 'पानी दें'])).toBe(key);
+  });
+
+  it('keeps the boundaries between parts', async () => {
+    expect(await fingerprint(['ab', 'c'])).not.toBe(await fingerprint(['a', 'bc']));
+  });
+
+  it('disables caching without SubtleCrypto', async () => {
+    vi.stubGlobal('crypto', {});
+    expect(await fingerprint(['speak'])).toBeNull();
+  });
+});
+
+describe('readCache', () => {
+  it('returns the stored value', async () => {
+    vi.mocked(getCachedResponse).mockResolvedValueOnce({ key: 'k', kind: 'text', value: 'Irrigate today', size: 14, createdAt: '', lastUsedAt: 0 });
+    expect(await readCache<string>('k')).toBe('Irrigate today');
+  });
+
+  it('misses without a key or when the store fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    expect(await readCache(null)).toBeUndefined();
+    expect(getCachedResponse).not.toHaveBeenCalled();
+    vi.mocked(getCachedResponse).mockRejectedValueOnce(new Error('QuotaExceededError'));
+    expect(await readCache('k')).toBeUndefined();
+  });
+});
+
+describe('writeCache', () => {
+  it('stores the value with its size under the kind limit', async () => {
+    await writeCache('k', 'text', { answer: 'Irrigate' });
+    expect(putCachedResponse).toHaveBeenCalledWith(
+      expect.objectContaining({ key: 'k', kind: 'text', value: { answer: 'Irrigate' }, size: 21 }),
+      CACHE_LIMIT_BYTES.text
+    );
+  });
+
+  it('skips values larger than the whole cache, and calls without a key', async () => {
+    await writeCache('k', 'text', 'x'.repeat(CACHE_LIMIT_BYTES.text + 1));
+    await writeCache(null, 'speech', 'UklGRg==');
+    expect(putCachedResponse).not.toHaveBeenCalled();
+  });
+
+  it('swallows store failures', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.mocked(putCachedResponse).mockRejectedValueOnce(new Error('QuotaExceededError'));
+    await expect(writeCache('k', 'speech', 'UklGRg==')).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,45 @@
+
+import { CachedResponseKind } from '../types';
+import { getCachedResponse, putCachedResponse } from './StorageService';
+
+// Speech is ~48 KB per second of audio; a few hundred read-alouds fit comfortably
+export const CACHE_LIMIT_BYTES: Record<CachedResponseKind, number> = {
+  speech: 25 * 1024 * 1024,
+  text: 2 * 1024 * 1024
+};
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), b => b.toString(16).padStart(2, '0')).join('');
+
+/**
+ * SHA-256 over the parts, separated so ['ab', 'c'] and ['a', 'bc'] differ. Null where
+ * SubtleCrypto is missing (insecure origins), which simply disables caching.
+ */
+export const fingerprint = async (parts: string[]): Promise<string | null> => {
+  if (!globalThis.crypto?.subtle) return null;
+  const data = new TextEncoder().encode(parts.map(p => `${p.length}:${p}`).join('|'));
+  return toHex(await crypto.subtle.digest('SHA-256', data));
+};
+
+const sizeOf = (value: unknown) => typeof value === 'string' ? value.length : JSON.stringify(value).length;
+
+export const readCache = async <T>(key: string | null): Promise<T | undefined> => {
+  if (!key) return undefined;
+  try {
+    return (await getCachedResponse(key))?.value as T | undefined;
+  } catch (e) {
+    console.error("Cache Read Failure:", e);
+    return undefined;
+  }
+};
+
+export const writeCache = async (key: string | null, kind: CachedResponseKind, value: unknown) => {
+  if (!key) return;
+  const size = sizeOf(value);
+  if (size > CACHE_LIMIT_BYTES[kind]) return;
+  try {
+    await putCachedResponse({ key, kind, value, size, createdAt: new Date().toISOString(), lastUsedAt: Date.now() }, CACHE_LIMIT_BYTES[kind]);
+  } catch (e) {
+    console.error("Cache Write Failure:", e);
+  }
+};
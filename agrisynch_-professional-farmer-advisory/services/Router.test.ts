@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { Route } from '../types';
+import { parseRoute, routeHash } from './Router';
+
+describe('parseRoute', () => {
+  it('reads the static paths, with or without a trailing slash', () => {
+    expect(parseRoute('')).toEqual({ view: 'home' });
+    expect(parseRoute('#/')).toEqual({ view: 'home' });
+    expect(parseRoute('#/crops/')).toEqual({ view: 'crops' });
+    expect(parseRoute('#/settings/privacy')).toEqual({ view: 'privacy' });
+  });
+
+  it('reads ids from the path and the query', () => {
+    expect(parseRoute('#/crops/field%201')).toEqual({ view: 'detail', cropId: 'field 1' });
+    expect(parseRoute('#/crops/17/edit')).toEqual({ view: 'add', cropId: '17' });
+    expect(parseRoute('#/cases?focus=42')).toEqual({ view: 'caseLog', caseId: '42' });
+    expect(parseRoute('#/diagnostics?crop=17')).toEqual({ view: 'diagnostics', cropId: '17' });
+  });
+
+  it('gives null for unknown hashes', () => {
+    ['#/weather', '#/crops/17/delete', '#/cases/1/2', '#/diagnostics/17', '#crops'].forEach(hash =>
+      expect(parseRoute(hash)).toBeNull());
+  });
+
+  it('gives null for malformed escapes instead of throwing', () => {
+    expect(parseRoute('#/crops/%E0')).toBeNull();
+    expect(parseRoute('#/cases/%')).toBeNull();
+    expect(() => parseRoute('#/cases?focus=%E0')).not.toThrow();
+  });
+});
+
+describe('routeHash', () => {
+  const routes: Route[] = [
+    { view: 'home' },
+    { view: 'crops' },
+    { view: 'library' },
+    { view: 'settings' },
+    { view: 'privacy' },
+    { view: 'add' },
+    { view: 'add', cropId: '17' },
+    { view: 'detail', cropId: 'खेत #1/उत्तर' },
+    { view: 'case', caseId: '1722470400000' },
+    { view: 'caseLog' },
+    { view: 'caseLog', caseId: 'a?b&c' },
+    { view: 'diagnostics' },
+    { view: 'diagnostics', cropId: '100% cotton' }
+  ];
+
+  it.each(routes)('round-trips %o through parseRoute', route => {
+    expect(parseRoute(routeHash(route))).toEqual(route);
+  });
+});
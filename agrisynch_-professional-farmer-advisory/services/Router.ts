@@ -0,0 +1,138 @@
+
+import { RefObject, useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { AppView, Route } from '../types';
+
+export const HOME_ROUTE: Route = { view: 'home' };
+
+// Kept on each history entry so back/forward can put the screen where the farmer left it
+interface HistoryEntry {
+  depth: number;
+  scrollTop: number;
+}
+
+// Views whose hash is a fixed path with no id
+const STATIC_PATHS: Partial<Record<AppView, string>> = {
+  home: '/',
+  crops: '/crops',
+  library: '/library',
+  settings: '/settings',
+  privacy: '/settings/privacy'
+};
+
+const STATIC_VIEWS = new Map(Object.entries(STATIC_PATHS).map(([view, path]) => [path, view as AppView]));
+
+/**
+ * Reads `#/crops/:id`, `#/crops/:id/edit`, `#/crops/new`, `#/cases`, `#/cases?focus=:id`,
+ * `#/cases/:id`, `#/diagnostics?crop=:id` and the static paths. Null for anything else,
+ * including ids that don't decode.
+ */
+export const parseRoute = (hash: string): Route | null => {
+  const [rawPath, rawQuery = ''] = hash.replace(/^#/, '').split('?');
+  const path = rawPath.replace(/\/+$/, '') || '/';
+  const query = new URLSearchParams(rawQuery);
+  let segments: string[];
+  try {
+    segments = path.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch (e) {
+    // A malformed escape such as `%E0`
+    return null;
+  }
+
+  const staticView = STATIC_VIEWS.get(path);
+  if (staticView) return { view: staticView };
+
+  switch (segments[0]) {
+    case 'crops':
+      if (segments.length === 2) return segments[1] === 'new' ? { view: 'add' } : { view: 'detail', cropId: segments[1] };
+      if (segments.length === 3 && segments[2] === 'edit') return { view: 'add', cropId: segments[1] };
+      return null;
+    case 'cases':
+      if (segments.length === 1) return { view: 'caseLog', caseId: query.get('focus') || undefined };
+      if (segments.length === 2) return { view: 'case', caseId: segments[1] };
+      return null;
+    case 'diagnostics':
+      return segments.length === 1 ? { view: 'diagnostics', cropId: query.get('crop') || undefined } : null;
+    default:
+      return null;
+  }
+};
+
+// The hash for a route; parseRoute(routeHash(r)) gives r back
+export const routeHash = (route: Route): string => {
+  const id = (value: string) => encodeURIComponent(value);
+  switch (route.view) {
+    case 'detail': return `#/crops/${id(route.cropId || '')}`;
+    case 'add': return route.cropId ? `#/crops/${id(route.cropId)}/edit` : '#/crops/new';
+    case 'case': return `#/cases/${id(route.caseId || '')}`;
+    case 'caseLog': return route.caseId ? `#/cases?focus=${id(route.caseId)}` : '#/cases';
+    case 'diagnostics': return route.cropId ? `#/diagnostics?crop=${id(route.cropId)}` : '#/diagnostics';
+    default: return `#${STATIC_PATHS[route.view]}`;
+  }
+};
+
+const currentEntry = (): HistoryEntry => ({ depth: 0, scrollTop: 0, ...(history.state || {}) });
+
+/**
+ * The app's location as a Route. Navigation pushes history entries so the Android back
+ * button steps back through screens instead of leaving the app; unknown hashes are
+ * replaced with home. Each entry remembers the scroll position of `scroller` (or the
+ * page) and restores it on back/forward.
+ */
+export const useHashRouter = (scroller?: RefObject<HTMLElement | null>) => {
+  const [route, setRoute] = useState<Route>(() => parseRoute(location.hash) || HOME_ROUTE);
+  // Scroll to apply once the route's screen has rendered
+  const pendingScroll = useRef<number | null>(null);
+
+  const readScroll = () => Math.max(scroller?.current?.scrollTop || 0, window.scrollY);
+  const writeScroll = (top: number) => {
+    if (scroller?.current) scroller.current.scrollTop = top;
+    window.scrollTo(0, top);
+  };
+
+  useEffect(() => {
+    history.scrollRestoration = 'manual';
+    // Normalise the entry we start on: unknown hashes become home, known ones get a depth
+    const initial = parseRoute(location.hash);
+    history.replaceState({ ...currentEntry() }, '', routeHash(initial || HOME_ROUTE));
+
+    // Back/forward, and hashes typed or followed from links, which arrive without state
+    const onPop = () => {
+      const next = parseRoute(location.hash);
+      if (!next) {
+        history.replaceState({ ...currentEntry() }, '', routeHash(HOME_ROUTE));
+        setRoute(HOME_ROUTE);
+        return;
+      }
+      pendingScroll.current = currentEntry().scrollTop;
+      setRoute(next);
+    };
+    window.addEventListener('popstate', onPop);
+    return () => window.removeEventListener('popstate', onPop);
+  }, []);
+
+  useLayoutEffect(() => {
+    if (pendingScroll.current === null) return;
+    writeScroll(pendingScroll.current);
+    pendingScroll.current = null;
+  }, [route]);
+
+  const navigate = useCallback((next: Route, options: { replace?: boolean } = {}) => {
+    const entry = currentEntry();
+    if (options.replace) {
+      history.replaceState({ depth: entry.depth, scrollTop: 0 }, '', routeHash(next));
+    } else {
+      history.replaceState({ ...entry, scrollTop: readScroll() }, '');
+      history.pushState({ depth: entry.depth + 1, scrollTop: 0 }, '', routeHash(next));
+    }
+    pendingScroll.current = 0;
+    setRoute(next);
+  }, []);
+
+  // In-app back arrows: step back in history when we pushed the current screen, else go to `fallback`
+  const back = useCallback((fallback: Route) => {
+    if (currentEntry().depth > 0) history.back();
+    else navigate(fallback, { replace: true });
+  }, [navigate]);
+
+  return { route, navigate, back };
+};
@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import { CropType, FarmerCrop, GrowthStage, InsightPriority, Language, SoilType, WeatherDay } from '../types';
+import { BUNDLED_RULES, RuleContext, evaluateRules, evaluationWindow, loadRules, renderTemplate } from './RuleEngine';
+import { SOIL_PROFILES } from '../constants';
+import RULES_JSON from '../data/advisoryRules.json';
+
+// Fixture states: a field, a forecast and the context the engine sees, with overrides per test
+
+const field = (overrides: Partial<FarmerCrop> = {}): FarmerCrop => ({
+  id: 'field-1',
+  type: CropType.COTTON,
+  sowingDate: '2024-06-15',
+  soilType: SoilType.BLACK,
+  region: 'vidarbha',
+  nickname: 'East field',
+  ...overrides
+});
+
+const day = (date: string, overrides: Partial<WeatherDay> = {}): WeatherDay => ({
+  date, tempMin: 22, tempMax: 30, condition: 'sunny', precipChance: 0, humidity: 50, windSpeed: 5, rainMm: 0, hourly: [], ...overrides
+});
+
+const forecast = (...overrides: Partial<WeatherDay>[]) =>
+  ['2024-08-01', '2024-08-02', '2024-08-03', '2024-08-04'].map((date, i) => day(date, overrides[i]));
+
+const context = (overrides: Partial<RuleContext> = {}): RuleContext => ({
+  crop: field(),
+  stage: GrowthStage.VEGETATIVE,
+  weather: forecast(),
+  language: Language.ENGLISH,
+  ...overrides
+});
+
+const firing = (ctx: RuleContext) => evaluateRules(BUNDLED_RULES, ctx).map(i => i.ruleId);
+
+const rule = (overrides: object) => ({
+  id: 'test-rule',
+  category: 'Weather',
+  priority: 'normal',
+  actionDay: 0,
+  when: {},
+  messages: Object.fromEntries(Object.values(Language).map(lang => [lang, { title: 'Title', description: 'Text' }])),
+  ...overrides
+});
+
+describe('bundled rules', () => {
+  it('all pass validation', () => {
+    expect(BUNDLED_RULES).toHaveLength(RULES_JSON.rules.length);
+  });
+
+  it('stay quiet on calm, dry weather', () => {
+    expect(firing(context())).toEqual([]);
+  });
+
+  it('warn of waterlogging on poorly drained soil when heavy rain is due', () => {
+    const ctx = context({ weather: forecast({}, { rainMm: 12, precipChance: 60 }, { rainMm: 30, precipChance: 90 }) });
+    expect(firing(ctx)).toEqual(['waterlogging-poor-drainage', 'delay-fertilizer-rain']);
+    expect(firing({ ...ctx, crop: field({ soilType: SoilType.ALLUVIAL }) })).toEqual(['delay-fertilizer-rain']);
+  });
+
+  it('call for irrigation in a heatwave by soil water retention', () => {
+    const weather = forecast({ tempMax: 38 }, { tempMax: 39 });
+    expect(firing(context({ weather, crop: field({ soilType: SoilType.SANDY }) }))).toContain('immediate-irrigation-heat');
+    expect(firing(context({ weather }))).toContain('prepare-irrigation-heat');
+    expect(firing(context({ weather, stage: GrowthStage.MATURITY }))).toEqual([]);
+  });
+
+  it('flag whitefly only on cotton', () => {
+    const weather = forecast({}, { humidity: 85 });
+    expect(firing(context({ weather }))).toEqual(['whitefly-watch']);
+    expect(firing(context({ weather, crop: field({ type: CropType.RICE }) }))).toEqual(['pest-scouting-humid']);
+  });
+
+  it('use the irrigation schedule when one is given', () => {
+    const irrigation = { daysUntilIrrigation: 1, recommendedMm: 35 } as RuleContext['irrigation'];
+    const [insight] = evaluateRules(BUNDLED_RULES, context({ irrigation }));
+    expect(insight.ruleId).toBe('irrigation-due');
+    expect(insight.actionDate).toBe('2024-08-02');
+  });
+
+  it('list the most urgent insight first', () => {
+    const ctx = context({ weather: forecast({ windSpeed: 20 }, {}, { rainMm: 25 }) });
+    expect(evaluateRules(BUNDLED_RULES, ctx).map(i => i.priority)).toEqual([
+      InsightPriority.CRITICAL, InsightPriority.WARNING, InsightPriority.WARNING
+    ]);
+  });
+});
+
+describe('message templates', () => {
+  it('quote rain from the window that triggered the rule, not the whole forecast', () => {
+    const ctx = context({ weather: forecast({}, { rainMm: 8 }, { rainMm: 24 }, { rainMm: 90 }) });
+    const [insight] = evaluateRules(BUNDLED_RULES, ctx);
+    expect(insight.ruleId).toBe('waterlogging-poor-drainage');
+    expect(insight.description).toMatch(/^24mm rain coming/);
+  });
+
+  it('quote the heat from the days the rule tested', () => {
+    const ctx = context({ crop: field({ soilType: SoilType.SANDY }), weather: forecast({ tempMax: 36 }, { tempMax: 37 }, { tempMax: 44 }) });
+    const insight = evaluateRules(BUNDLED_RULES, ctx).find(i => i.ruleId === 'immediate-irrigation-heat')!;
+    expect(insight.description).toContain('(37°C)');
+  });
+
+  it('render localized soil names and dashes for missing values', () => {
+    const { rules } = loadRules({ rules: [rule({ messages: {
+      en: { title: '{{soil}}', description: '{{irrigationMm}} {{day.rainMm}}' },
+      hi: { title: '{{soil}}', description: '-' },
+      mr: { title: '{{soil}}', description: '-' }
+    } })] });
+    expect(renderTemplate('{{soil}}', rules[0], context({ language: Language.HINDI }))).toBe(SOIL_PROFILES[SoilType.BLACK].hindiName);
+    expect(renderTemplate('{{irrigationMm}} / {{day.rainMm}}', rules[0], context({ weather: [] }))).toBe('– / –');
+  });
+
+  it('fall back to the action day for rules without weather conditions', () => {
+    const { rules } = loadRules({ rules: [rule({ actionDay: 2 })] });
+    expect(evaluationWindow(rules[0], forecast(), 'rainMm').map(d => d.date)).toEqual(['2024-08-03']);
+  });
+});
+
+describe('region conditions', () => {
+  it('match fields in zones inside the rule region', () => {
+    const { rules } = loadRules({ rules: [rule({ when: { regions: ['indo-gangetic'] } })] });
+    expect(evaluateRules(rules, context({ crop: field({ region: 'upper-gangetic' }) }))).toHaveLength(1);
+    expect(evaluateRules(rules, context({ crop: field({ region: 'vidarbha' }) }))).toHaveLength(0);
+  });
+});
+
+describe('loadRules', () => {
+  it('rejects a bundle without a rules list', () => {
+    expect(loadRules(null).errors).toEqual(['Rule bundle has no "rules" list']);
+    expect(loadRules({ rules: 'none' }).rules).toEqual([]);
+  });
+
+  it('drops invalid rules one by one and says why', () => {
+    const { rules, errors } = loadRules({ rules: [
+      rule({ id: 'good' }),
+      'not a rule',
+      rule({ id: 'good' }),
+      rule({ id: 'bad-metric', when: { weather: [{ days: [0, 1], metric: 'snow', op: 'gt', value: 1 }] } }),
+      rule({ id: 'bad-days', when: { weatherAny: [{ days: [2, 1], metric: 'rainMm', op: 'gt', value: 1 }] } }),
+      rule({ id: 'bad-placeholder', messages: { en: { title: '{{farmer}}', description: 'x' }, hi: { title: 'x', description: 'x' }, mr: { title: 'x', description: 'x' } } })
+    ] });
+    expect(rules.map(r => r.id)).toEqual(['good']);
+    expect(errors).toEqual(expect.arrayContaining([
+      'rule[1]: missing id',
+      'rule[2] "good": duplicate id',
+      'rule[3] "bad-metric".weather[0]: unknown metric "snow"',
+      'rule[4] "bad-days".weatherAny[0]: days must be an ordered [from, to] pair of day indices',
+      'rule[5] "bad-placeholder".messages.en.title: unknown placeholder {{farmer}}'
+    ]));
+  });
+});
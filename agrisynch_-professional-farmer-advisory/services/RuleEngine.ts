@@ -0,0 +1,228 @@
+
+import {
+  InsightRule, RuleConditions, WeatherRuleCondition, OfflineInsight, FarmerCrop, GrowthStage,
+  WeatherDay, Language, CropType, SoilType, InsightPriority, SoilProfile, WeatherMetric, ComparisonOp,
+  IrrigationSchedule
+} from '../types';
+import { SOIL_PROFILES } from '../constants';
+import { findSprayWindow } from './WeatherService';
+import { regionChain } from './RegionService';
+import { todayISO } from './Dates';
+import { asRecord, isOneOf, isRecord, isStringList, isSubsetOf } from './Guards';
+import RULES_JSON from '../data/advisoryRules.json';
+
+export interface RuleContext {
+  crop: FarmerCrop;
+  stage: GrowthStage;
+  weather: WeatherDay[];
+  language: Language;
+  irrigation?: IrrigationSchedule | null;
+}
+
+const CATEGORIES: InsightRule['category'][] = ['Weather', 'Soil', 'Pest', 'Fertilizer'];
+const METRICS: (WeatherMetric | 'condition')[] = ['tempMin', 'tempMax', 'precipChance', 'humidity', 'windSpeed', 'windGust', 'rainMm', 'condition'];
+const OPS: ComparisonOp[] = ['gt', 'gte', 'lt', 'lte', 'eq'];
+const CONDITIONS: WeatherDay['condition'][] = ['sunny', 'cloudy', 'rainy', 'storm'];
+const RETENTION: SoilProfile['waterRetention'][] = ['Low', 'Medium', 'High'];
+const PLACEHOLDERS = ['crop', 'soil', 'stage', 'date', 'maxRainMm', 'maxTempMax', 'sprayWindow', 'irrigationMm', 'irrigationDays'];
+const PRIORITY_RANK: Record<InsightPriority, number> = {
+  [InsightPriority.CRITICAL]: 0, [InsightPriority.WARNING]: 1, [InsightPriority.NORMAL]: 2
+};
+
+const compare = (actual: number, op: ComparisonOp, expected: number) => {
+  switch (op) {
+    case 'gt': return actual > expected;
+    case 'gte': return actual >= expected;
+    case 'lt': return actual < expected;
+    case 'lte': return actual <= expected;
+    case 'eq': return actual === expected;
+  }
+};
+
+const isDayPair = (value: unknown): value is [number, number] =>
+  Array.isArray(value) && value.length === 2 &&
+  value.every(d => typeof d === 'number' && Number.isInteger(d) && d >= 0) && value[0] <= value[1];
+
+const validateWeatherCondition = (raw: unknown, where: string): string[] => {
+  if (!isRecord(raw)) return [`${where}: must be an object`];
+  const c = raw;
+  const errors: string[] = [];
+  if (!isDayPair(c.days)) errors.push(`${where}: days must be an ordered [from, to] pair of day indices`);
+  if (!isOneOf(c.metric, METRICS)) errors.push(`${where}: unknown metric "${String(c.metric)}"`);
+  else if (c.metric === 'condition') {
+    if (!isSubsetOf(c.in, CONDITIONS) || !c.in.length) errors.push(`${where}: condition needs a non-empty "in" list`);
+  } else if (!isOneOf(c.op, OPS) || typeof c.value !== 'number') {
+    errors.push(`${where}: numeric metric needs "op" and "value"`);
+  }
+  if (c.match !== undefined && c.match !== 'any' && c.match !== 'all') errors.push(`${where}: match must be "any" or "all"`);
+  return errors;
+};
+
+const validateConditions = (when: unknown, where: string): string[] => {
+  if (!isRecord(when)) return [`${where}: missing "when"`];
+  const errors: string[] = [];
+  if (when.cropTypes !== undefined && !isSubsetOf(when.cropTypes, Object.values(CropType))) errors.push(`${where}: unknown crop type`);
+  if (when.stages !== undefined && !isSubsetOf(when.stages, Object.values(GrowthStage))) errors.push(`${where}: unknown growth stage`);
+  if (when.regions !== undefined && !isStringList(when.regions)) errors.push(`${where}: regions must be a list of region ids`);
+  if (when.soil !== undefined) {
+    const soil = asRecord(when.soil);
+    if (!isRecord(when.soil)) errors.push(`${where}: soil must be an object`);
+    if (soil.types !== undefined && !isSubsetOf(soil.types, Object.values(SoilType))) errors.push(`${where}: unknown soil type`);
+    if (soil.waterRetention !== undefined && !isSubsetOf(soil.waterRetention, RETENTION)) errors.push(`${where}: unknown water retention`);
+    if (soil.drainageKeyword !== undefined && typeof soil.drainageKeyword !== 'string') errors.push(`${where}: drainageKeyword must be text`);
+  }
+  (['weather', 'weatherAny'] as const).forEach(key => {
+    const list = when[key];
+    if (list === undefined) return;
+    if (!Array.isArray(list)) errors.push(`${where}: ${key} must be a list`);
+    else list.forEach((c: unknown, i: number) => errors.push(...validateWeatherCondition(c, `${where}.${key}[${i}]`)));
+  });
+  if (when.sprayWindowDay !== undefined && !Number.isInteger(when.sprayWindowDay)) errors.push(`${where}: sprayWindowDay must be a day index`);
+  if (when.irrigationDueWithinDays !== undefined && !Number.isInteger(when.irrigationDueWithinDays)) errors.push(`${where}: irrigationDueWithinDays must be a day count`);
+  return errors;
+};
+
+const validateTemplate = (text: unknown, where: string): string[] => {
+  if (typeof text !== 'string' || !text.trim()) return [`${where}: missing text`];
+  return [...text.matchAll(/\{\{\s*([\w.]+)\s*\}\}/g)]
+    .map(m => m[1])
+    .filter(name => !PLACEHOLDERS.includes(name) && !(name.startsWith('day.') && METRICS.includes(name.slice(4) as WeatherMetric)))
+    .map(name => `${where}: unknown placeholder {{${name}}}`);
+};
+
+/**
+ * Validate a rule bundle. Invalid rules are dropped individually so one bad entry
+ * cannot silence the whole advisory feed; the reasons are returned for logging.
+ */
+export const loadRules = (raw: unknown): { rules: InsightRule[], errors: string[] } => {
+  const list = asRecord(raw).rules;
+  if (!Array.isArray(list)) return { rules: [], errors: ['Rule bundle has no "rules" list'] };
+
+  const rules: InsightRule[] = [];
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  list.forEach((entry: unknown, i: number) => {
+    const r = asRecord(entry);
+    const id = r.id;
+    const where = `rule[${i}]${typeof id === 'string' ? ` "${id}"` : ''}`;
+    const ruleErrors: string[] = [];
+    if (typeof id !== 'string' || !id) ruleErrors.push(`${where}: missing id`);
+    else if (seen.has(id)) ruleErrors.push(`${where}: duplicate id`);
+    if (!isOneOf(r.category, CATEGORIES)) ruleErrors.push(`${where}: unknown category "${String(r.category)}"`);
+    if (!isOneOf(r.priority, Object.values(InsightPriority))) ruleErrors.push(`${where}: unknown priority "${String(r.priority)}"`);
+    if (typeof r.actionDay !== 'number' || !Number.isInteger(r.actionDay) || r.actionDay < 0) ruleErrors.push(`${where}: actionDay must be a day index`);
+    ruleErrors.push(...validateConditions(r.when, where));
+    const messages = asRecord(r.messages);
+    Object.values(Language).forEach(lang => {
+      const message = asRecord(messages[lang]);
+      ruleErrors.push(...validateTemplate(message.title, `${where}.messages.${lang}.title`));
+      ruleErrors.push(...validateTemplate(message.description, `${where}.messages.${lang}.description`));
+    });
+
+    if (ruleErrors.length || typeof id !== 'string') errors.push(...ruleErrors);
+    else {
+      seen.add(id);
+      rules.push(r as unknown as InsightRule);
+    }
+  });
+
+  return { rules, errors };
+};
+
+const bundled = loadRules(RULES_JSON);
+if (bundled.errors.length) console.error("Advisory Rule Errors:", bundled.errors);
+
+// Rules shipped with the app, already validated
+export const BUNDLED_RULES: InsightRule[] = bundled.rules;
+
+const weatherConditionHolds = (c: WeatherRuleCondition, weather: WeatherDay[]) => {
+  const window = weather.slice(c.days[0], c.days[1] + 1);
+  if (!window.length) return false;
+  const test = (d: WeatherDay) => {
+    if (c.metric === 'condition') return c.in!.includes(d.condition);
+    const actual = d[c.metric];
+    return actual !== undefined && compare(actual, c.op!, c.value!);
+  };
+  return c.match === 'all' ? window.every(test) : window.some(test);
+};
+
+// True when every condition present on the rule holds for this crop and weather
+export const matchesConditions = (when: RuleConditions, ctx: RuleContext): boolean => {
+  const soil = SOIL_PROFILES[ctx.crop.soilType];
+  if (when.cropTypes && !when.cropTypes.includes(ctx.crop.type)) return false;
+  if (when.stages && !when.stages.includes(ctx.stage)) return false;
+  // A rule for a region also covers the zones inside it
+  if (when.regions && !regionChain(ctx.crop.region).some(r => when.regions!.includes(r.id))) return false;
+  if (when.soil) {
+    if (when.soil.types && !when.soil.types.includes(ctx.crop.soilType)) return false;
+    if (when.soil.waterRetention && !when.soil.waterRetention.includes(soil.waterRetention)) return false;
+    if (when.soil.drainageKeyword && !soil.drainage.toLowerCase().includes(when.soil.drainageKeyword.toLowerCase())) return false;
+  }
+  if (when.weather && !when.weather.every(c => weatherConditionHolds(c, ctx.weather))) return false;
+  if (when.weatherAny && !when.weatherAny.some(c => weatherConditionHolds(c, ctx.weather))) return false;
+  if (when.sprayWindowDay !== undefined && !findSprayWindow(ctx.weather[when.sprayWindowDay])) return false;
+  if (when.irrigationDueWithinDays !== undefined &&
+      !(ctx.irrigation && ctx.irrigation.daysUntilIrrigation <= when.irrigationDueWithinDays)) return false;
+  return true;
+};
+
+const localizedSoilName = (soil: SoilProfile, language: Language) =>
+  language === Language.HINDI ? soil.hindiName : language === Language.MARATHI ? soil.marathiName : soil.name;
+
+/**
+ * The forecast days a rule's weather conditions looked at, preferring the conditions on
+ * `metric`, so a figure quoted in the message comes from the period that triggered it.
+ * Rules without weather conditions look at their action day.
+ */
+export const evaluationWindow = (rule: InsightRule, weather: WeatherDay[], metric: WeatherMetric): WeatherDay[] => {
+  const conditions = [...(rule.when.weather || []), ...(rule.when.weatherAny || [])];
+  const onMetric = conditions.filter(c => c.metric === metric);
+  const used = onMetric.length ? onMetric : conditions;
+  if (!used.length) return weather.slice(rule.actionDay, rule.actionDay + 1);
+  return weather.filter((_, i) => used.some(c => i >= c.days[0] && i <= c.days[1]));
+};
+
+const windowMax = (rule: InsightRule, weather: WeatherDay[], metric: 'rainMm' | 'tempMax') => {
+  const window = evaluationWindow(rule, weather, metric);
+  return window.length ? Math.max(...window.map(d => d[metric])) : undefined;
+};
+
+// Fill {{placeholders}}; values that are unavailable render as a dash
+export const renderTemplate = (template: string, rule: InsightRule, ctx: RuleContext): string => {
+  const day = ctx.weather[rule.actionDay];
+  const values: Record<string, string | number | null | undefined> = {
+    crop: ctx.crop.nickname || ctx.crop.type,
+    soil: localizedSoilName(SOIL_PROFILES[ctx.crop.soilType], ctx.language),
+    stage: ctx.stage,
+    date: day?.date,
+    maxRainMm: windowMax(rule, ctx.weather, 'rainMm'),
+    maxTempMax: windowMax(rule, ctx.weather, 'tempMax'),
+    sprayWindow: rule.when.sprayWindowDay !== undefined ? findSprayWindow(ctx.weather[rule.when.sprayWindowDay]) : undefined,
+    irrigationMm: ctx.irrigation?.recommendedMm,
+    irrigationDays: ctx.irrigation?.daysUntilIrrigation
+  };
+  return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, name: string) => {
+    const value = name.startsWith('day.') ? day?.[name.slice(4) as WeatherMetric] : values[name];
+    return value === undefined || value === null ? '–' : String(value);
+  });
+};
+
+// Turn every matching rule into an insight for this crop, most urgent first
+export const evaluateRules = (rules: InsightRule[], ctx: RuleContext): OfflineInsight[] =>
+  rules
+    .filter(rule => matchesConditions(rule.when, ctx))
+    .sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority])
+    .map(rule => {
+      const message = rule.messages[ctx.language] || rule.messages[Language.ENGLISH];
+      return {
+        ruleId: rule.id,
+        cropId: ctx.crop.id,
+        cropNickname: ctx.crop.nickname || ctx.crop.type,
+        title: renderTemplate(message.title, rule, ctx),
+        description: renderTemplate(message.description, rule, ctx),
+        priority: rule.priority,
+        actionDate: ctx.weather[rule.actionDay]?.date || todayISO(),
+        category: rule.category
+      };
+    });
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { CropType, GrowthStage, WeatherDay } from '../types';
+import { calculateStageProgress, dailyGdd, stageSeries } from './StageModel';
+import { addDays } from './Dates';
+
+const SOWING = '2024-06-15';
+
+const day = (date: string, tempMin: number, tempMax: number): WeatherDay => ({
+  date, tempMin, tempMax, condition: 'sunny', precipChance: 0, humidity: 60, windSpeed: 5, rainMm: 0, hourly: []
+});
+
+// A warm season with one week of missing records and a cooler spell after day 60
+const season = (days: number, gapFrom = 20, gapDays = 7): WeatherDay[] =>
+  Array.from({ length: days }, (_, i) => i).filter(i => i < gapFrom || i >= gapFrom + gapDays)
+    .map(i => i < 60 ? day(addDays(SOWING, i), 24, 34) : day(addDays(SOWING, i), 18, 28));
+
+const perDay = (crop: CropType, history: WeatherDay[], days: number) =>
+  Array.from({ length: days + 1 }, (_, i) => calculateStageProgress(crop, SOWING, history, [], addDays(SOWING, i)).stage);
+
+describe('calculateStageProgress', () => {
+  // Rice: base 10 °C, stages end at 420/1020/1530/1870 GDD or on days 25/60/90/110
+  const hot = (days: number) => Array.from({ length: days }, (_, i) => day(addDays(SOWING, i), 30, 40));
+
+  it('counts degree days above the base temperature, never below zero', () => {
+    expect(dailyGdd(day(SOWING, 24, 34), 10)).toBe(19);
+    expect(dailyGdd(day(SOWING, 2, 12), 10)).toBe(0);
+  });
+
+  it('moves ahead of the calendar on thermal time in a hot spell', () => {
+    const progress = calculateStageProgress(CropType.RICE, SOWING, hot(20), [], addDays(SOWING, 19));
+    expect(progress).toMatchObject({
+      stage: GrowthStage.VEGETATIVE,
+      nextStage: GrowthStage.FLOWERING,
+      method: 'thermal',
+      accumulatedGdd: 500
+    });
+    expect(progress.progress).toBeCloseTo(80 / 600);
+    // 520 GDD to go at 25 a day
+    expect(progress.nextStageDate).toBe(addDays(SOWING, 40));
+  });
+
+  it('projects the next stage from the forecast when there is one', () => {
+    const forecast = [day(addDays(SOWING, 20), 10, 20)];
+    expect(calculateStageProgress(CropType.RICE, SOWING, hot(20), forecast, addDays(SOWING, 19)).nextStageDate)
+      .toBe(addDays(SOWING, 19 + 104));
+  });
+
+  it('falls back to calendar days without enough weather', () => {
+    const sparse = hot(31).filter((_, i) => i % 3 === 0);
+    for (const history of [[], sparse]) {
+      const progress = calculateStageProgress(CropType.RICE, SOWING, history, [], addDays(SOWING, 30));
+      expect(progress).toMatchObject({ stage: GrowthStage.VEGETATIVE, method: 'calendar', nextStageDate: addDays(SOWING, 60) });
+      expect(progress.progress).toBeCloseTo(5 / 35);
+    }
+  });
+
+  it('ends at harvest with no next stage', () => {
+    expect(calculateStageProgress(CropType.RICE, SOWING, [], [], addDays(SOWING, 200))).toMatchObject({
+      stage: GrowthStage.HARVEST, progress: 1, nextStage: null, nextStageDate: null
+    });
+  });
+});
+
+describe('stageSeries', () => {
+  it.each([CropType.RICE, CropType.COTTON, CropType.WHEAT])('matches the day-by-day stage model for %s', (crop) => {
+    const history = season(130);
+    const until = addDays(SOWING, 130);
+    expect(stageSeries(crop, SOWING, history, until)).toEqual(perDay(crop, history, 130));
+  });
+
+  it('follows the calendar while weather coverage is too thin', () => {
+    const series = stageSeries(CropType.RICE, SOWING, [], addDays(SOWING, 40));
+    expect(series).toHaveLength(41);
+    expect(series).toEqual(perDay(CropType.RICE, [], 40));
+    expect(series[0]).toBe(GrowthStage.SOWING);
+  });
+
+  it('starts on the sowing day', () => {
+    expect(stageSeries(CropType.RICE, SOWING, season(10), SOWING)).toEqual([GrowthStage.SOWING]);
+  });
+});
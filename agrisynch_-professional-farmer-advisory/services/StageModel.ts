@@ -0,0 +1,153 @@
+
+import { GrowthStage, CropType, WeatherDay, StageProgress, StageThresholds, StageTimelineEntry } from '../types';
+import { CROP_DATASETS } from '../constants';
+import { addDays, daysBetween, todayISO } from './Dates';
+
+const STAGE_ORDER = [GrowthStage.SOWING, GrowthStage.VEGETATIVE, GrowthStage.FLOWERING, GrowthStage.MATURITY, GrowthStage.HARVEST];
+// Share of days since sowing that must have recorded weather before thermal time is trusted
+const MIN_WEATHER_COVERAGE = 0.8;
+
+// Daily growing degree days (simple average method, floored at zero)
+export const dailyGdd = (day: WeatherDay, baseTemp: number) =>
+  Math.max(0, (day.tempMax + day.tempMin) / 2 - baseTemp);
+
+// Locate `value` within cumulative stage boundaries: stage index and fraction through it
+const locateStage = (value: number, thresholds: StageThresholds) => {
+  const index = thresholds.findIndex(t => value < t);
+  if (index === -1) return { index: STAGE_ORDER.length - 1, progress: 1 };
+  const start = index === 0 ? 0 : thresholds[index - 1];
+  return { index, progress: Math.min(1, Math.max(0, (value - start) / (thresholds[index] - start))) };
+};
+
+/**
+ * Growth stage with progress through it and a projected date for the next stage.
+ * Uses thermal time when the crop has a GDD model and enough daily weather since sowing
+ * (gaps are filled with the mean of recorded days); otherwise falls back to calendar days.
+ * `asOf` evaluates the stage on an earlier ISO date instead of today.
+ */
+export const calculateStageProgress = (
+  cropType: CropType,
+  sowingDate: string,
+  history: WeatherDay[] = [],
+  forecast: WeatherDay[] = [],
+  asOf?: string
+): StageProgress => {
+  const dataset = CROP_DATASETS[cropType] || CROP_DATASETS[CropType.VEGETABLES];
+  const today = asOf || todayISO();
+  const sowing = sowingDate.slice(0, 10);
+  const elapsedDays = Math.max(0, daysBetween(sowing, today));
+
+  const recorded = history.filter(d => d.date >= sowing && d.date <= today);
+  const thermal = dataset.thermal;
+
+  if (thermal && elapsedDays > 0 && recorded.length / (elapsedDays + 1) >= MIN_WEATHER_COVERAGE) {
+    const recordedGdd = recorded.reduce((sum, d) => sum + dailyGdd(d, thermal.baseTemp), 0);
+    const meanGdd = recordedGdd / recorded.length;
+    const accumulatedGdd = recordedGdd + (elapsedDays + 1 - recorded.length) * meanGdd;
+    const { index, progress } = locateStage(accumulatedGdd, thermal.stageGdd);
+
+    let nextStageDate: string | null = null;
+    if (index < thermal.stageGdd.length) {
+      // Project with the upcoming forecast where available, recent history otherwise
+      const upcoming = forecast.filter(d => d.date > today);
+      const rateDays = upcoming.length ? upcoming : recorded.slice(-7);
+      const rate = rateDays.reduce((sum, d) => sum + dailyGdd(d, thermal.baseTemp), 0) / rateDays.length;
+      if (rate > 0) nextStageDate = addDays(today, Math.ceil((thermal.stageGdd[index] - accumulatedGdd) / rate));
+    }
+
+    return {
+      stage: STAGE_ORDER[index],
+      progress,
+      nextStage: STAGE_ORDER[index + 1] ?? null,
+      nextStageDate,
+      method: 'thermal',
+      accumulatedGdd: Math.round(accumulatedGdd)
+    };
+  }
+
+  const { index, progress } = locateStage(elapsedDays, dataset.stageDays);
+  return {
+    stage: STAGE_ORDER[index],
+    progress,
+    nextStage: STAGE_ORDER[index + 1] ?? null,
+    nextStageDate: index < dataset.stageDays.length ? addDays(sowing, dataset.stageDays[index]) : null,
+    method: 'calendar'
+  };
+};
+
+/**
+ * Start date of every stage in the season. Past boundaries come from the day thermal time
+ * crossed each threshold (calendar days when weather history is missing); future ones keep
+ * the calendar spacing, anchored on the projected date of the next stage.
+ */
+export const calculateSeasonTimeline = (
+  cropType: CropType,
+  sowingDate: string,
+  history: WeatherDay[] = [],
+  forecast: WeatherDay[] = []
+): StageTimelineEntry[] => {
+  const dataset = CROP_DATASETS[cropType] || CROP_DATASETS[CropType.VEGETABLES];
+  const progress = calculateStageProgress(cropType, sowingDate, history, forecast);
+  const currentIndex = STAGE_ORDER.indexOf(progress.stage);
+  const sowing = sowingDate.slice(0, 10);
+  const starts = [sowing, ...dataset.stageDays.map(d => addDays(sowing, d))];
+
+  if (progress.method === 'thermal' && dataset.thermal) {
+    const { baseTemp, stageGdd } = dataset.thermal;
+    const today = todayISO();
+    let accumulated = 0;
+    let crossed = 0;
+    history.filter(d => d.date >= sowing && d.date <= today).forEach(d => {
+      accumulated += dailyGdd(d, baseTemp);
+      while (crossed < currentIndex && accumulated >= stageGdd[crossed]) {
+        starts[crossed + 1] = d.date;
+        crossed++;
+      }
+    });
+  }
+
+  if (progress.nextStageDate) {
+    const shift = daysBetween(starts[currentIndex + 1], progress.nextStageDate);
+    for (let i = currentIndex + 1; i < starts.length; i++) starts[i] = addDays(starts[i], shift);
+  }
+
+  return STAGE_ORDER.map((stage, i) => ({
+    stage,
+    startDate: starts[i],
+    status: i < currentIndex ? 'done' : i === currentIndex ? 'current' : 'upcoming'
+  }));
+};
+
+// Determine growth stage from thermal time, or sowing date when weather history is missing
+export const calculateGrowthStage = (cropType: CropType, sowingDate: string, history: WeatherDay[] = []): GrowthStage =>
+  calculateStageProgress(cropType, sowingDate, history).stage;
+
+/**
+ * The stage on each day from sowing to `until`, as calculateStageProgress would give with
+ * `asOf` set to that day, in one pass over the season instead of one pass per day.
+ * Index 0 is the sowing day.
+ */
+export const stageSeries = (cropType: CropType, sowingDate: string, history: WeatherDay[], until: string): GrowthStage[] => {
+  const dataset = CROP_DATASETS[cropType] || CROP_DATASETS[CropType.VEGETABLES];
+  const thermal = dataset.thermal;
+  const sowing = sowingDate.slice(0, 10);
+  const days = daysBetween(sowing, until);
+  const gddByDate = new Map(thermal ? history.map(d => [d.date, dailyGdd(d, thermal.baseTemp)] as const) : []);
+
+  const series: GrowthStage[] = [];
+  let recorded = 0;
+  let recordedGdd = 0;
+  for (let elapsed = 0; elapsed <= days; elapsed++) {
+    const gdd = gddByDate.get(addDays(sowing, elapsed));
+    if (gdd !== undefined) {
+      recorded++;
+      recordedGdd += gdd;
+    }
+    const useThermal = thermal && elapsed > 0 && recorded / (elapsed + 1) >= MIN_WEATHER_COVERAGE;
+    const { index } = useThermal
+      ? locateStage(recordedGdd + (elapsed + 1 - recorded) * (recordedGdd / recorded), thermal.stageGdd)
+      : locateStage(elapsed, dataset.stageDays);
+    series.push(STAGE_ORDER[index]);
+  }
+  return series;
+};
@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { CropType, DiagnosticCase, FarmerCrop, Language, SoilType } from '../types';
+import { readLegacyState, upgradeCaseCreatedAt, upgradeCropRegions, upgradeOutboxEntry } from './StorageService';
+import { getOfflineRegion } from './RegionService';
+
+const queued = { caseId: '1', cropNickname: 'East field', description: 'Yellow leaves', queuedAt: '2024-08-01T05:00:00.000Z', attempts: 2 };
+
+describe('readLegacyState', () => {
+  const field = { id: 'f1', type: CropType.RICE, sowingDate: '2023-06-20', soilType: SoilType.ALLUVIAL, region: 'konkan', nickname: 'Home plot' };
+  const diagnosis = { id: '1690000000000', timestamp: '22/7/2023, 10:00:00', cropNickname: 'Home plot', description: 'Spots', diagnosis: 'Blast' };
+
+  it('imports the slices of a well-formed blob', () => {
+    const state = readLegacyState({
+      language: 'hi',
+      user: { name: 'Sunita', phone: '98', village: 'Wai', experience: '10' },
+      lastSyncTime: '22/7/2023',
+      crops: [field],
+      diagnosticHistory: [diagnosis],
+      weatherSnapshot: [{ date: '22/07/2023', temp: 30, condition: 'rainy', precipChance: 80 }]
+    });
+    expect(state).toMatchObject({ language: Language.HINDI, user: { name: 'Sunita' }, lastSyncTime: '22/7/2023', crops: [field], diagnosticHistory: [diagnosis] });
+    expect(state.weatherSnapshot).toHaveLength(1);
+    expect(state.weatherMeta).toBeNull();
+  });
+
+  it('drops entries that do not validate', () => {
+    const state = readLegacyState({
+      language: 'fr',
+      user: 'Sunita',
+      crops: [field, null, { ...field, id: '' }, { ...field, type: 'Tea' }, { nickname: 'No id' }],
+      cachedInsights: [{ cropId: 'f1' }, 'Irrigate'],
+      diagnosticHistory: [diagnosis, { id: 7, diagnosis: 'Blast' }],
+      weatherHistory: 'sunny'
+    });
+    expect(state).not.toHaveProperty('language');
+    expect(state).not.toHaveProperty('user');
+    expect(state.crops).toEqual([field]);
+    expect(state.cachedInsights).toEqual([]);
+    expect(state.diagnosticHistory).toEqual([diagnosis]);
+    expect(state.weatherHistory).toEqual([]);
+  });
+
+  it('reads nothing from a blob that is not an object', () => {
+    expect(readLegacyState([1, 2])).toMatchObject({ crops: [], cachedInsights: [], diagnosticHistory: [] });
+  });
+});
+
+describe('upgradeOutboxEntry', () => {
+  it('moves the crop name and stage of an old row into its context', () => {
+    expect(upgradeOutboxEntry({ ...queued, cropName: 'Cotton', stage: 'flowering' })).toEqual({
+      ...queued, context: { cropName: 'Cotton', stage: 'flowering' }
+    });
+  });
+
+  it('leaves a current row as it is', () => {
+    const current = { ...queued, context: { cropName: 'Rice', stage: 'vegetative', soil: 'Alluvial' } };
+    expect(upgradeOutboxEntry(current)).toEqual(current);
+  });
+
+  it('fills in a row missing both', () => {
+    expect(upgradeOutboxEntry(queued).context).toEqual({ cropName: 'Unknown', stage: 'Unknown' });
+  });
+});
+
+describe('upgradeCropRegions', () => {
+  const crop = (id: string, overrides: Partial<FarmerCrop> = {}): FarmerCrop => ({
+    id, type: CropType.COTTON, sowingDate: '2024-06-15', soilType: SoilType.BLACK, region: 'Default', nickname: `Field ${id}`, ...overrides
+  });
+
+  it('places a field by its GPS fix or boundary', () => {
+    const location = { lat: 30.9, lng: 75.85 };
+    const expected = getOfflineRegion(location.lat, location.lng)!.id;
+    const [fix, walked] = upgradeCropRegions([crop('1', { location }), crop('2', { boundary: [location, location, location] })]);
+    expect(fix.region).toBe(expected);
+    expect(walked.region).toBe(expected);
+  });
+
+  it("falls back to the region most of the farmer's fields are in", () => {
+    const crops = [crop('1'), crop('2', { region: 'vidarbha' }), crop('3', { region: 'vidarbha' })];
+    expect(upgradeCropRegions(crops).map(c => c.region)).toEqual(['vidarbha', 'vidarbha', 'vidarbha']);
+  });
+
+  it('leaves fields it cannot place, and ones already in a region, as they are', () => {
+    const placed = crop('2', { region: 'vidarbha' });
+    expect(upgradeCropRegions([crop('1')])[0].region).toBe('Default');
+    expect(upgradeCropRegions([placed])[0]).toBe(placed);
+  });
+});
+
+describe('upgradeCaseCreatedAt', () => {
+  const legacy = (id: string, timestamp: string): Pick<DiagnosticCase, 'id' | 'timestamp' | 'createdAt'> => ({ id, timestamp });
+  const stored = legacy('1723962600000', '१८/८/२०२४, ११:३०:०० am');
+
+  it('dates an old case by its id, which is its creation time', () => {
+    expect(upgradeCaseCreatedAt(stored).createdAt).toBe('2024-08-18T06:30:00.000Z');
+  });
+
+  it('falls back to a timestamp Date can read, and otherwise leaves the case undated', () => {
+    expect(upgradeCaseCreatedAt(legacy('case-a', '2024-08-18T06:30:00Z')).createdAt).toBe('2024-08-18T06:30:00.000Z');
+    expect(upgradeCaseCreatedAt(legacy('case-a', '18/8/2024, 11:30:00 am')).createdAt).toBeUndefined();
+  });
+
+  it('keeps a case that already has one', () => {
+    const current = { ...stored, createdAt: '2024-08-01T00:00:00.000Z' };
+    expect(upgradeCaseCreatedAt(current)).toBe(current);
+  });
+});
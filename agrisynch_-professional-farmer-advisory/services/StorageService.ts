@@ -0,0 +1,478 @@
+
+import {
+  AppState, DiagnosticCase, DiagnosticContext, CaseMessage, FarmerCrop, PendingDiagnostic, CachedResponse,
+  Language, CropType, SoilType, UserProfile, UserSettings, WeatherMeta, OfflineInsight
+} from '../types';
+import { migrateWeatherSnapshot } from './WeatherService';
+import { JsonRecord, isRecord, asRecord, isNonEmptyString, isOneOf } from './Guards';
+import { REGIONS, getOfflineRegion } from './RegionService';
+
+const DB_NAME = 'agrisynch';
+const LEGACY_STORAGE_KEY = 'agrisynch_store_v12';
+const SAVE_DEBOUNCE_MS = 400;
+
+export type PersistedState = Omit<AppState, 'isOnline'>;
+
+// Photos live in the media store; cases and thread messages only keep a reference
+interface StoredMessage extends Omit<CaseMessage, 'imageUrl'> {
+  mediaId?: string;
+}
+
+interface StoredCase extends Omit<DiagnosticCase, 'imageUrl' | 'thread'> {
+  mediaId?: string;
+  thread?: StoredMessage[];
+}
+
+interface StoredMedia {
+  id: string;
+  dataUrl: string;
+  createdAt: string;
+}
+
+type StoreName = 'meta' | 'crops' | 'insights' | 'weather' | 'cases' | 'media';
+const STORES: StoreName[] = ['meta', 'crops', 'insights', 'weather', 'cases', 'media'];
+
+interface Migration {
+  version: number;
+  description: string;
+  upgrade: (db: IDBDatabase, tx: IDBTransaction) => void;
+}
+
+// Records of the legacy array that pass `valid`; anything else is dropped
+const legacyList = <T>(value: unknown, valid: (item: JsonRecord) => boolean): T[] =>
+  Array.isArray(value) ? value.filter(item => isRecord(item) && valid(item)) as unknown as T[] : [];
+
+/**
+ * The slices of the old localStorage blob that still have the shape the stores expect.
+ * Entries that don't validate are dropped rather than imported half-formed.
+ */
+export const readLegacyState = (raw: unknown): Partial<PersistedState> => {
+  const legacy = asRecord(raw);
+  const user = asRecord(legacy.user);
+  const weatherMeta = asRecord(legacy.weatherMeta);
+  return {
+    ...(isOneOf(legacy.language, Object.values(Language)) ? { language: legacy.language } : {}),
+    ...(isNonEmptyString(user.name) ? { user: user as unknown as UserProfile } : {}),
+    ...(isRecord(legacy.settings) ? { settings: legacy.settings as unknown as UserSettings } : {}),
+    ...(typeof legacy.lastSyncTime === 'string' ? { lastSyncTime: legacy.lastSyncTime } : {}),
+    crops: legacyList<FarmerCrop>(legacy.crops, c =>
+      isNonEmptyString(c.id) && isOneOf(c.type, Object.values(CropType)) && isOneOf(c.soilType, Object.values(SoilType)) &&
+      isNonEmptyString(c.sowingDate) && typeof c.nickname === 'string'),
+    cachedInsights: legacyList<OfflineInsight>(legacy.cachedInsights, i => isNonEmptyString(i.cropId) && isNonEmptyString(i.title)),
+    diagnosticHistory: legacyList<DiagnosticCase>(legacy.diagnosticHistory, c =>
+      isNonEmptyString(c.id) && typeof c.timestamp === 'string' && typeof c.diagnosis === 'string'),
+    weatherSnapshot: migrateWeatherSnapshot(legacy.weatherSnapshot),
+    weatherHistory: migrateWeatherSnapshot(legacy.weatherHistory),
+    weatherMeta: isNonEmptyString(weatherMeta.source) && isNonEmptyString(weatherMeta.issuedAt) ? weatherMeta as unknown as WeatherMeta : null
+  };
+};
+
+// Outbox rows queued before field context was sent carried only the crop name and stage
+type LegacyPendingDiagnostic = Omit<PendingDiagnostic, 'context'> & { context?: DiagnosticContext; cropName?: string; stage?: string };
+
+export const upgradeOutboxEntry = ({ cropName, stage, ...entry }: LegacyPendingDiagnostic): PendingDiagnostic => ({
+  ...entry,
+  context: entry.context || { cropName: cropName || 'Unknown', stage: stage || 'Unknown' }
+});
+
+/**
+ * Fields saved before regions existed carry `region: 'Default'`. Each gets the region its GPS
+ * fix or boundary falls in, else the one most of the farmer's other fields are in. A field
+ * with neither keeps its value, and the plot form asks for the region when it is next edited.
+ */
+export const upgradeCropRegions = (crops: FarmerCrop[]): FarmerCrop[] => {
+  const known = (id: string) => REGIONS.some(r => r.id === id);
+  const counts = new Map<string, number>();
+  crops.filter(c => known(c.region)).forEach(c => counts.set(c.region, (counts.get(c.region) || 0) + 1));
+  const usual = [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+  return crops.map(crop => {
+    if (known(crop.region)) return crop;
+    const point = crop.location || crop.boundary?.[0];
+    const region = (point && getOfflineRegion(point.lat, point.lng)?.id) || usual;
+    return region ? { ...crop, region } : crop;
+  });
+};
+
+// Cases opened before `createdAt` kept only locale display text, but their ids are the creation time in ms
+export const upgradeCaseCreatedAt = <T extends Pick<DiagnosticCase, 'id' | 'timestamp' | 'createdAt'>>(c: T): T => {
+  if (c.createdAt) return c;
+  const created = /^\d{12,}$/.test(c.id) ? Number(c.id) : Date.parse(c.timestamp);
+  return Number.isFinite(created) ? { ...c, createdAt: new Date(created).toISOString() } : c;
+};
+
+const messageMediaId = (caseId: string, messageId: string) => `${caseId}:${messageId}`;
+
+const toStoredCase = ({ imageUrl, thread, ...rest }: DiagnosticCase): StoredCase => ({
+  ...rest,
+  ...(imageUrl ? { mediaId: rest.id } : {}),
+  ...(thread ? {
+    thread: thread.map(({ imageUrl: url, ...m }) => url ? { ...m, mediaId: messageMediaId(rest.id, m.id) } : m)
+  } : {})
+});
+
+// Every image a case owns, keyed by media id
+const caseMedia = (c: DiagnosticCase): [string, string][] => [
+  ...(c.imageUrl ? [[c.id, c.imageUrl] as [string, string]] : []),
+  ...(c.thread || []).flatMap(m => m.imageUrl ? [[messageMediaId(c.id, m.id), m.imageUrl] as [string, string]] : [])
+];
+
+// Writes every slice of a state blob into the stores of an open transaction
+const putAll = (tx: IDBTransaction, state: Partial<PersistedState>) => {
+  const meta = tx.objectStore('meta');
+  if (state.language !== undefined) meta.put(state.language, 'language');
+  if (state.user !== undefined) meta.put(state.user, 'user');
+  if (state.settings !== undefined) meta.put(state.settings, 'settings');
+  if (state.lastSyncTime !== undefined) meta.put(state.lastSyncTime, 'lastSyncTime');
+
+  const weather = tx.objectStore('weather');
+  if (state.weatherSnapshot !== undefined) weather.put(state.weatherSnapshot, 'snapshot');
+  if (state.weatherHistory !== undefined) weather.put(state.weatherHistory, 'history');
+  if (state.weatherMeta !== undefined) weather.put(state.weatherMeta, 'meta');
+
+  if (state.crops) {
+    const crops = tx.objectStore('crops');
+    crops.clear();
+    state.crops.forEach(c => crops.put(c));
+  }
+  if (state.cachedInsights) {
+    const insights = tx.objectStore('insights');
+    insights.clear();
+    state.cachedInsights.forEach((ins, i) => insights.put(ins, i));
+  }
+  if (state.diagnosticHistory) {
+    const cases = tx.objectStore('cases');
+    cases.clear();
+    state.diagnosticHistory.forEach((c, order) => cases.put({ ...toStoredCase(c), order }));
+  }
+};
+
+// Numbered, append-only. Never edit a shipped migration; add a new one instead.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create object stores',
+    upgrade: (db) => {
+      db.createObjectStore('meta');
+      db.createObjectStore('crops', { keyPath: 'id' });
+      db.createObjectStore('insights');
+      db.createObjectStore('weather');
+      db.createObjectStore('cases', { keyPath: 'id' }).createIndex('cropId', 'cropId');
+      db.createObjectStore('media', { keyPath: 'id' });
+    }
+  },
+  {
+    version: 2,
+    description: `Import the ${LEGACY_STORAGE_KEY} localStorage blob`,
+    upgrade: (_db, tx) => {
+      const raw = localStorage.getItem(LEGACY_STORAGE_KEY);
+      if (!raw) return;
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(raw);
+      } catch (e) {
+        console.error("Legacy Store Unreadable:", e);
+        return;
+      }
+      const legacy = readLegacyState(parsed);
+      putAll(tx, legacy);
+      const media = tx.objectStore('media');
+      legacy.diagnosticHistory.forEach(c => {
+        if (c.imageUrl) media.put({ id: c.id, dataUrl: c.imageUrl, createdAt: new Date().toISOString() } as StoredMedia);
+      });
+      // Only drop the old key once everything above has committed
+      tx.addEventListener('complete', () => localStorage.removeItem(LEGACY_STORAGE_KEY));
+    }
+  },
+  {
+    version: 3,
+    description: 'Add diagnostic outbox',
+    upgrade: (db) => {
+      db.createObjectStore('outbox', { keyPath: 'caseId' });
+    }
+  },
+  {
+    version: 4,
+    description: 'Add AI response cache',
+    upgrade: (db) => {
+      db.createObjectStore('responseCache', { keyPath: 'key' }).createIndex('kindLastUsed', ['kind', 'lastUsedAt']);
+    }
+  },
+  {
+    version: 5,
+    description: 'Give queued requests from before field context a DiagnosticContext',
+    upgrade: (_db, tx) => {
+      const cursorRequest = tx.objectStore('outbox').openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        const entry: LegacyPendingDiagnostic = cursor.value;
+        if (!entry.context) cursor.update(upgradeOutboxEntry(entry));
+        cursor.continue();
+      };
+    }
+  },
+  {
+    version: 6,
+    description: "Replace the 'Default' region of fields saved before regions with a real one",
+    upgrade: (_db, tx) => {
+      const crops = tx.objectStore('crops');
+      const request = crops.getAll();
+      request.onsuccess = () => {
+        const saved: FarmerCrop[] = request.result;
+        upgradeCropRegions(saved).forEach((crop, i) => { if (crop !== saved[i]) crops.put(crop); });
+      };
+    }
+  },
+  {
+    version: 7,
+    description: 'Give cases an ISO creation time alongside their display timestamp',
+    upgrade: (_db, tx) => {
+      const cursorRequest = tx.objectStore('cases').openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        const stored: StoredCase = cursor.value;
+        const upgraded = upgradeCaseCreatedAt(stored);
+        if (upgraded !== stored) cursor.update(upgraded);
+        cursor.continue();
+      };
+    }
+  }
+];
+
+const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+const promisify = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB not supported'));
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = (e) => {
+      const tx = req.transaction!;
+      MIGRATIONS
+        .filter(m => m.version > e.oldVersion)
+        .forEach(m => m.upgrade(req.result, tx));
+    };
+    req.onsuccess = () => {
+      const db = req.result;
+      // Another tab upgraded the schema; let it proceed and reopen lazily
+      db.onversionchange = () => { db.close(); dbPromise = null; };
+      resolve(db);
+    };
+    req.onerror = () => reject(req.error);
+    req.onblocked = () => console.error("Storage Upgrade Blocked: close other AgriSynch tabs");
+  });
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+// Last state that reached disk, used to skip unchanged slices and media
+let persisted: PersistedState | null = null;
+
+export const loadState = async (): Promise<PersistedState | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES, 'readonly');
+  const meta = tx.objectStore('meta');
+  const weather = tx.objectStore('weather');
+  const [language, user, settings, lastSyncTime, snapshot, history, weatherMeta, crops, insights, cases, media] = await Promise.all([
+    promisify(meta.get('language')),
+    promisify(meta.get('user')),
+    promisify(meta.get('settings')),
+    promisify(meta.get('lastSyncTime')),
+    promisify(weather.get('snapshot')),
+    promisify(weather.get('history')),
+    promisify(weather.get('meta')),
+    promisify(tx.objectStore('crops').getAll()),
+    promisify(tx.objectStore('insights').getAll()),
+    promisify(tx.objectStore('cases').getAll()),
+    promisify(tx.objectStore('media').getAll())
+  ]);
+  if (!settings) return null;
+
+  const images = new Map((media as StoredMedia[]).map(m => [m.id, m.dataUrl]));
+  const diagnosticHistory = (cases as (StoredCase & { order: number })[])
+    .sort((a, b) => a.order - b.order)
+    .map(({ mediaId, order, thread, ...c }) => ({
+      ...c,
+      imageUrl: mediaId ? images.get(mediaId) : undefined,
+      thread: thread?.map(({ mediaId: messageMedia, ...m }) => ({ ...m, imageUrl: messageMedia ? images.get(messageMedia) : undefined }))
+    }));
+
+  persisted = {
+    language,
+    user: user ?? null,
+    settings,
+    lastSyncTime: lastSyncTime ?? null,
+    weatherSnapshot: snapshot ?? [],
+    weatherHistory: history ?? [],
+    weatherMeta: weatherMeta ?? null,
+    crops,
+    cachedInsights: insights,
+    diagnosticHistory
+  };
+  return persisted;
+};
+
+// Writes only the slices whose references changed since the last commit, in one transaction
+const writeState = async (state: PersistedState) => {
+  const db = await openDatabase();
+  const tx = db.transaction(STORES, 'readwrite');
+  const prev = persisted;
+  const changed = <K extends keyof PersistedState>(key: K) => !prev || prev[key] !== state[key];
+
+  putAll(tx, {
+    language: changed('language') ? state.language : undefined,
+    user: changed('user') ? state.user : undefined,
+    settings: changed('settings') ? state.settings : undefined,
+    lastSyncTime: changed('lastSyncTime') ? state.lastSyncTime : undefined,
+    weatherSnapshot: changed('weatherSnapshot') ? state.weatherSnapshot : undefined,
+    weatherHistory: changed('weatherHistory') ? state.weatherHistory : undefined,
+    weatherMeta: changed('weatherMeta') ? state.weatherMeta : undefined,
+    crops: changed('crops') ? state.crops : undefined,
+    cachedInsights: changed('cachedInsights') ? state.cachedInsights : undefined,
+    diagnosticHistory: changed('diagnosticHistory') ? state.diagnosticHistory : undefined
+  });
+
+  if (changed('diagnosticHistory')) {
+    const media = tx.objectStore('media');
+    const before = new Map((prev?.diagnosticHistory || []).flatMap(caseMedia));
+    const after = new Set<string>();
+    state.diagnosticHistory.forEach(c => caseMedia(c).forEach(([id, dataUrl]) => {
+      after.add(id);
+      if (before.get(id) !== dataUrl) media.put({ id, dataUrl, createdAt: c.createdAt || new Date().toISOString() } as StoredMedia);
+    }));
+    before.forEach((_, id) => { if (!after.has(id)) media.delete(id); });
+  }
+
+  try {
+    await transactionDone(tx);
+    persisted = state;
+  } catch (e) {
+    // Nothing from this save landed; force a full rewrite next time
+    persisted = null;
+    throw e;
+  }
+};
+
+let pending: PersistedState | null = null;
+let timer: ReturnType<typeof setTimeout> | null = null;
+
+export const flushState = async () => {
+  if (timer) clearTimeout(timer);
+  timer = null;
+  const next = pending;
+  pending = null;
+  if (!next) return;
+  try {
+    await writeState(next);
+  } catch (e) {
+    console.error("Storage Write Failure:", e);
+  }
+};
+
+// Coalesces bursts of state changes into one write
+export const saveState = ({ isOnline, ...state }: AppState) => {
+  pending = state;
+  if (timer) clearTimeout(timer);
+  timer = setTimeout(flushState, SAVE_DEBOUNCE_MS);
+};
+
+// Outbox entries are written immediately (not debounced) so a queued request survives a crash
+export const putOutboxEntry = async (entry: PendingDiagnostic) => {
+  const db = await openDatabase();
+  const tx = db.transaction('outbox', 'readwrite');
+  tx.objectStore('outbox').put(entry);
+  await transactionDone(tx);
+};
+
+export const getOutboxEntries = async (): Promise<PendingDiagnostic[]> => {
+  const db = await openDatabase();
+  const entries: PendingDiagnostic[] = await promisify(db.transaction('outbox', 'readonly').objectStore('outbox').getAll());
+  return entries.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+};
+
+export const deleteOutboxEntry = async (caseId: string) => {
+  const db = await openDatabase();
+  const tx = db.transaction('outbox', 'readwrite');
+  tx.objectStore('outbox').delete(caseId);
+  await transactionDone(tx);
+};
+
+// Case fields a settled request can change; photos and the thread are stored apart from the case
+export type CaseOutcome = Partial<Pick<DiagnosticCase, 'diagnosis' | 'structured' | 'status' | 'provisional' | 'failure'>>;
+
+// Records a queued request's outcome on its stored case and removes the entry in one transaction,
+// so a crash can neither lose the answer nor leave the request to be sent again
+export const settleOutboxEntry = async (caseId: string, outcome: CaseOutcome) => {
+  const db = await openDatabase();
+  const tx = db.transaction(['cases', 'outbox'], 'readwrite');
+  const cases = tx.objectStore('cases');
+  const stored = await promisify<StoredCase | undefined>(cases.get(caseId));
+  if (stored) cases.put({ ...stored, ...outcome });
+  tx.objectStore('outbox').delete(caseId);
+  await transactionDone(tx);
+};
+
+export const getMeta = async <T>(key: string): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return promisify<T | undefined>(db.transaction('meta').objectStore('meta').get(key));
+};
+
+// Read-modify-write of one meta key in a single transaction, so concurrent callers can't lose updates
+export const updateMeta = async <T>(key: string, update: (current: T | undefined) => T): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction('meta', 'readwrite');
+  const store = tx.objectStore('meta');
+  const next = update(await promisify<T | undefined>(store.get(key)));
+  store.put(next, key);
+  await transactionDone(tx);
+  return next;
+};
+
+// Marks the entry as just used, so it is the last to be evicted
+export const getCachedResponse = async (key: string): Promise<CachedResponse | undefined> => {
+  const db = await openDatabase();
+  const tx = db.transaction('responseCache', 'readwrite');
+  const store = tx.objectStore('responseCache');
+  const entry: CachedResponse | undefined = await promisify(store.get(key));
+  if (entry) store.put({ ...entry, lastUsedAt: Date.now() });
+  await transactionDone(tx);
+  return entry;
+};
+
+// Stores the entry, then drops the least recently used entries of its kind beyond maxBytes
+export const putCachedResponse = async (entry: CachedResponse, maxBytes: number) => {
+  const db = await openDatabase();
+  const tx = db.transaction('responseCache', 'readwrite');
+  const store = tx.objectStore('responseCache');
+  store.put(entry);
+  const range = IDBKeyRange.bound([entry.kind, -Infinity], [entry.kind, Infinity]);
+  let total = 0;
+  const cursorReq = store.index('kindLastUsed').openCursor(range, 'prev');
+  cursorReq.onsuccess = () => {
+    const cursor = cursorReq.result;
+    if (!cursor) return;
+    total += (cursor.value as CachedResponse).size;
+    if (total > maxBytes) cursor.delete();
+    cursor.continue();
+  };
+  await transactionDone(tx);
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { loadSymptomKey } from './SymptomKey';
+import SYMPTOM_KEY_BUNDLE from '../data/symptomKey.json';
+
+const text = (en: string) => ({ en, hi: en, mr: en });
+
+const question = { id: 'part-leaf', feature: 'part', text: text('Leaves?') };
+
+const candidate = (overrides: object = {}) => ({
+  id: 'rice-blast',
+  crop: 'rice',
+  stages: ['vegetative'],
+  pestAlert: 'Leaf folder',
+  traits: ['part-leaf'],
+  urgency: 'within-week',
+  name: text('Blast'),
+  cause: text('Fungus'),
+  interventions: [{ type: 'chemical', action: text('Spray'), dosage: '1 g/l' }],
+  prevention: [text('Rotate')],
+  ...overrides
+});
+
+describe('loadSymptomKey', () => {
+  it('accepts the bundled key', () => {
+    const { key, errors } = loadSymptomKey(SYMPTOM_KEY_BUNDLE);
+    expect(errors).toEqual([]);
+    expect(key.candidates).toHaveLength(SYMPTOM_KEY_BUNDLE.candidates.length);
+  });
+
+  it('reads nothing from a bundle that is not an object', () => {
+    expect(loadSymptomKey('symptoms')).toEqual({ key: { version: 0, questions: [], candidates: [] }, errors: [] });
+  });
+
+  it('drops bad entries one by one and says why', () => {
+    const { key, errors } = loadSymptomKey({ version: 2, questions: [question, { id: 'q', feature: 'smell', text: text('?') }], candidates: [
+      candidate(),
+      candidate({ id: undefined }),
+      candidate({ id: 'wheat-x', crop: 'barley' }),
+      candidate({ id: 'no-stages', stages: [] }),
+      candidate({ id: 'odd-trait', traits: ['smell-sour'] }),
+      candidate({ id: 'untranslated', name: { en: 'Blast', hi: 'Blast' } }),
+      candidate({ id: 'bad-iv', interventions: [{ type: 'prayer', action: text('Hope') }] })
+    ] });
+    expect(key.version).toBe(2);
+    expect(key.questions.map(q => q.id)).toEqual(['part-leaf']);
+    expect(key.candidates.map(c => c.id)).toEqual(['rice-blast']);
+    expect(errors).toEqual([
+      'question[1]: invalid',
+      'candidate[1]: missing id',
+      'candidate[2] "wheat-x": unknown crop "barley"',
+      'candidate[3] "no-stages": bad stages',
+      'candidate[4] "odd-trait": unknown trait',
+      'candidate[5] "untranslated": missing translation',
+      'candidate[6] "bad-iv": bad interventions'
+    ]);
+  });
+});
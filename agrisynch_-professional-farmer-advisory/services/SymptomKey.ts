@@ -0,0 +1,133 @@
+
+import {
+  CropType, GrowthStage, Language, LocalizedText, SymptomKey, SymptomCandidate, SymptomQuestion,
+  SymptomFeature, SymptomAnswer, StructuredDiagnosis, DiagnosisConfidence
+} from '../types';
+import { CONFIDENCE_LEVELS, URGENCY_LEVELS, INTERVENTION_TYPES } from './DiagnosisSchema';
+import { asRecord, isFiniteNumber, isNonEmptyString, isOneOf, isSubsetOf } from './Guards';
+import SYMPTOM_KEY_BUNDLE from '../data/symptomKey.json';
+
+const FEATURES: SymptomFeature[] = ['part', 'colour', 'pattern'];
+// Show up to this many possibilities once the questions stop narrowing things down
+const MAX_SHORTLIST = 3;
+
+const isLocalized = (v: unknown): v is LocalizedText =>
+  Object.values(Language).every(lang => isNonEmptyString(asRecord(v)[lang]));
+
+const isQuestion = (q: unknown): q is SymptomQuestion => {
+  const question = asRecord(q);
+  return typeof question.id === 'string' && isOneOf(question.feature, FEATURES) && isLocalized(question.text);
+};
+
+const isIntervention = (iv: unknown) => {
+  const intervention = asRecord(iv);
+  return isOneOf(intervention.type, INTERVENTION_TYPES) && isLocalized(intervention.action);
+};
+
+// Per-entry validation in the style of loadRules: bad entries are dropped and reported
+export const loadSymptomKey = (raw: unknown): { key: SymptomKey, errors: string[] } => {
+  const bundle = asRecord(raw);
+  const errors: string[] = [];
+  const questions: SymptomQuestion[] = [];
+  const candidates: SymptomCandidate[] = [];
+
+  (Array.isArray(bundle.questions) ? bundle.questions : []).forEach((q: unknown, i: number) => {
+    if (isQuestion(q)) questions.push(q);
+    else errors.push(`question[${i}]: invalid`);
+  });
+  const traits = questions.map(q => q.id);
+
+  (Array.isArray(bundle.candidates) ? bundle.candidates : []).forEach((entry: unknown, i: number) => {
+    const c = asRecord(entry);
+    const where = `candidate[${i}]${typeof c.id === 'string' ? ` "${c.id}"` : ''}`;
+    const problem =
+      typeof c.id !== 'string' ? 'missing id' :
+      !isOneOf(c.crop, Object.values(CropType)) ? `unknown crop "${String(c.crop)}"` :
+      !isSubsetOf(c.stages, Object.values(GrowthStage)) || !c.stages.length ? 'bad stages' :
+      !isSubsetOf(c.traits, traits) ? 'unknown trait' :
+      !isOneOf(c.urgency, URGENCY_LEVELS) ? 'bad urgency' :
+      !isLocalized(c.name) || !isLocalized(c.cause) ? 'missing translation' :
+      !Array.isArray(c.interventions) || !c.interventions.length || !c.interventions.every(isIntervention) ? 'bad interventions' :
+      !Array.isArray(c.prevention) || !c.prevention.every(isLocalized) ? 'bad prevention' :
+      null;
+    if (problem) errors.push(`${where}: ${problem}`);
+    else candidates.push(c as unknown as SymptomCandidate);
+  });
+
+  return { key: { version: isFiniteNumber(bundle.version) ? bundle.version : 0, questions, candidates }, errors };
+};
+
+const bundled = loadSymptomKey(SYMPTOM_KEY_BUNDLE);
+if (bundled.errors.length) console.error("Symptom Key Errors:", bundled.errors);
+
+export const BUNDLED_SYMPTOM_KEY: SymptomKey = bundled.key;
+
+// Candidates for the crop at its current stage; the whole crop list if nothing matches the stage
+export const candidatesFor = (key: SymptomKey, crop: CropType, stage: GrowthStage): SymptomCandidate[] => {
+  const forCrop = key.candidates.filter(c => c.crop === crop);
+  const forStage = forCrop.filter(c => c.stages.includes(stage));
+  return forStage.length ? forStage : forCrop;
+};
+
+// Each definite answer keeps only candidates that agree; an answer that would rule out everything is ignored
+export const applyAnswers = (candidates: SymptomCandidate[], answers: SymptomAnswer[]): SymptomCandidate[] =>
+  answers.reduce((remaining, { questionId, answer }) => {
+    if (answer === 'unsure') return remaining;
+    const kept = remaining.filter(c => c.traits.includes(questionId) === (answer === 'yes'));
+    return kept.length ? kept : remaining;
+  }, candidates);
+
+/**
+ * Next question: the unasked trait that splits the remaining candidates most evenly.
+ * Questions follow the key's order (plant part, then colour, then pattern) on ties.
+ * Null when one candidate is left or no question can tell the rest apart.
+ */
+export const nextQuestion = (key: SymptomKey, remaining: SymptomCandidate[], answers: SymptomAnswer[]): SymptomQuestion | null => {
+  if (remaining.length <= 1) return null;
+  const asked = new Set(answers.map(a => a.questionId));
+  let best: SymptomQuestion | null = null;
+  let bestScore = 0;
+  key.questions.forEach(q => {
+    if (asked.has(q.id)) return;
+    const yes = remaining.filter(c => c.traits.includes(q.id)).length;
+    const score = Math.min(yes, remaining.length - yes);
+    if (score > bestScore) {
+      best = q;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+export const shortlist = (remaining: SymptomCandidate[]) => remaining.slice(0, MAX_SHORTLIST);
+
+// Fewer survivors after more definite answers means a tighter match
+const confidenceFor = (remaining: SymptomCandidate[], answers: SymptomAnswer[]): DiagnosisConfidence => {
+  const definite = answers.filter(a => a.answer !== 'unsure').length;
+  if (remaining.length === 1 && definite >= 3) return CONFIDENCE_LEVELS[2];
+  if (remaining.length === 1) return CONFIDENCE_LEVELS[1];
+  return CONFIDENCE_LEVELS[0];
+};
+
+export const provisionalDiagnosis = (candidate: SymptomCandidate, remaining: SymptomCandidate[], answers: SymptomAnswer[], language: Language): StructuredDiagnosis => ({
+  suspectedProblem: candidate.name[language],
+  confidence: confidenceFor(remaining, answers),
+  cause: candidate.cause[language],
+  interventions: candidate.interventions.map(i => ({
+    type: i.type,
+    action: i.action[language],
+    ...(i.dosage ? { dosage: i.dosage } : {})
+  })),
+  prevention: candidate.prevention.map(p => p[language]),
+  urgency: candidate.urgency
+});
+
+// English Q&A transcript: the case description, and what the AI sees when asked to confirm
+export const describeAnswers = (key: SymptomKey, answers: SymptomAnswer[]): string =>
+  answers
+    .map(a => {
+      const q = key.questions.find(q => q.id === a.questionId);
+      return q ? `${q.text[Language.ENGLISH]} ${a.answer === 'unsure' ? 'Not sure' : a.answer === 'yes' ? 'Yes' : 'No'}` : '';
+    })
+    .filter(Boolean)
+    .join('\n');
@@ -0,0 +1,52 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CropType, Language } from '../types';
+import { loadVoiceGrammar, matchVoiceCommand } from './VoiceCommands';
+import GRAMMAR_JSON from '../data/voiceCommands.json';
+
+const phrases = (phrase: string) => Object.fromEntries(Object.values(Language).map(lang => [lang, [phrase]]));
+
+describe('loadVoiceGrammar', () => {
+  it('accepts the bundled grammar', () => {
+    const { rules, errors } = loadVoiceGrammar(GRAMMAR_JSON);
+    expect(errors).toEqual([]);
+    expect(rules).toHaveLength(GRAMMAR_JSON.rules.length);
+  });
+
+  it('drops malformed rules and says why', () => {
+    const { rules, errors } = loadVoiceGrammar({ rules: [
+      { id: 'good', action: 'QUERY', target: 'weather', phrases: phrases('weather') },
+      'not a rule',
+      { id: 'bad-view', action: 'NAVIGATE', target: 'market', phrases: phrases('market') },
+      { id: 'bad-slot', action: 'ADD_CROP', slots: ['colour'], phrases: phrases('add') },
+      { id: 'no-hindi', action: 'ADD_CROP', phrases: { en: ['add'], mr: ['jod'] } },
+      { id: 'no-reply', action: 'NAVIGATE', target: 'home', phrases: phrases('home') }
+    ] });
+    expect(rules.map(r => r.rule.id)).toEqual(['good']);
+    expect(errors).toEqual([
+      'rule[1]: missing id',
+      'rule[2] "bad-view": unknown view "market"',
+      'rule[3] "bad-slot": unknown slot',
+      'rule[4] "no-hindi": missing phrases',
+      'rule[5] "no-reply": missing reply translation'
+    ]);
+  });
+
+  it('treats a bundle without lists as empty', () => {
+    const grammar = loadVoiceGrammar({ rules: 'none', stopwords: { en: 'the' }, slots: { crops: { rice: 'dhan' } } });
+    expect(grammar.rules).toEqual([]);
+    expect(grammar.stopwords.size).toBe(0);
+  });
+});
+
+describe('sowing dates', () => {
+  afterEach(() => vi.useRealTimers());
+
+  // Just after local midnight, when the UTC date can still be the day before
+  it('count back from the local calendar day', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2024, 7, 10, 1, 0));
+    expect(matchVoiceCommand('add wheat field sown yesterday', Language.ENGLISH)).toMatchObject({
+      action: 'ADD_CROP', crop: { type: CropType.WHEAT, sowingDate: '2024-08-09' }
+    });
+  });
+});
@@ -0,0 +1,305 @@
+
+import {
+  AIResult, AssistantIntent, AssistantQuery, AssistantView, CropDraft, CropType, Language, SoilType, VoiceCommandRule, VoiceCommandSlot
+} from '../types';
+import { ASSISTANT_QUERIES, ASSISTANT_VIEWS, processCommandIntent } from './AIService';
+import { addDays, todayISO } from './Dates';
+import { asRecord, isNonEmptyString, isOneOf, isRecord, isStringList, isSubsetOf } from './Guards';
+import GRAMMAR_JSON from '../data/voiceCommands.json';
+
+// Share of the meaningful words a phrase must account for; below it the utterance is an open question
+const MIN_COVERAGE = 0.5;
+// Leftover words a rule with a `field` slot may take as the field's name ("my east field")
+const MAX_FIELD_WORDS = 3;
+
+const VOICE_SLOTS: VoiceCommandSlot[] = ['field', 'crop', 'soil', 'date', 'amount'];
+const VOICE_ACTIONS: VoiceCommandRule['action'][] = ['NAVIGATE', 'QUERY', 'ADD_CROP', 'LOG_IRRIGATION'];
+
+export const SPEECH_LOCALES: Record<Language, string> = {
+  [Language.ENGLISH]: 'en-IN',
+  [Language.HINDI]: 'hi-IN',
+  [Language.MARATHI]: 'mr-IN'
+};
+
+interface PatternToken {
+  alternatives: { word: string, prefix: boolean }[];
+  optional: boolean;
+}
+
+interface CompiledRule {
+  rule: VoiceCommandRule;
+  patterns: PatternToken[][];
+}
+
+/**
+ * Romanised Hindi and Marathi are spelled many ways ("baarish"/"barish", "mausam"/"mousam"
+ * aside); fold the commonest variations so one grammar entry covers them.
+ */
+const foldLatin = (token: string) =>
+  /^[a-z0-9]+$/.test(token)
+    ? token.replace(/aa/g, 'a').replace(/ee/g, 'i').replace(/oo/g, 'u').replace(/ph/g, 'f').replace(/w/g, 'v').replace(/z/g, 'j')
+    : token;
+
+// Lowercase, strip punctuation (including the danda), use ASCII digits, and drop nukta / chandrabindu variation in Devanagari
+export const normalizeUtterance = (text: string): string[] =>
+  text
+    .normalize('NFD')
+    .replace(/़/g, '')
+    .replace(/ँ/g, 'ं')
+    .normalize('NFC')
+    .replace(/[०-९]/g, d => String(d.charCodeAt(0) - 0x0966))
+    .toLowerCase()
+    .split(/[^\p{L}\p{M}\p{N}]+/u)
+    .filter(Boolean)
+    .map(foldLatin);
+
+const compileToken = (raw: string): PatternToken => {
+  const optional = raw.startsWith('[') && raw.endsWith(']');
+  const body = optional ? raw.slice(1, -1) : raw;
+  return {
+    optional,
+    alternatives: body.split('|').map(alt => {
+      const prefix = alt.endsWith('*');
+      return { word: normalizeUtterance(prefix ? alt.slice(0, -1) : alt)[0] || '', prefix };
+    })
+  };
+};
+
+const compilePattern = (phrase: string) => phrase.trim().split(/\s+/).map(compileToken);
+
+// A vocabulary list is one token with every entry as an alternative; anything but a word list matches nothing
+const compileVocabulary = (words: unknown) => compileToken(isStringList(words) ? words.join('|') : '');
+
+const hasPhrases = (phrases: unknown, languages: Language[]) => {
+  const byLanguage = asRecord(phrases);
+  return languages.every(lang => {
+    const list = byLanguage[lang];
+    return isStringList(list) && list.length > 0 && list.every(isNonEmptyString);
+  });
+};
+
+// Per-entry validation in the style of loadRules: bad rules are dropped and reported
+export const loadVoiceGrammar = (raw: unknown) => {
+  const errors: string[] = [];
+  const rules: CompiledRule[] = [];
+  const languages = Object.values(Language);
+  const bundle = asRecord(raw);
+
+  (Array.isArray(bundle.rules) ? bundle.rules : []).forEach((entry: unknown, i: number) => {
+    const r = asRecord(entry);
+    const reply = asRecord(r.reply);
+    const where = `rule[${i}]${typeof r.id === 'string' ? ` "${r.id}"` : ''}`;
+    const problem =
+      typeof r.id !== 'string' ? 'missing id' :
+      r.action === 'NAVIGATE' && !isOneOf(r.target, ASSISTANT_VIEWS) ? `unknown view "${r.target}"` :
+      r.action === 'QUERY' && !isOneOf(r.target, ASSISTANT_QUERIES) ? `unknown query "${r.target}"` :
+      !isOneOf(r.action, VOICE_ACTIONS) ? `unknown action "${r.action}"` :
+      r.slots !== undefined && !isSubsetOf(r.slots, VOICE_SLOTS) ? 'unknown slot' :
+      !hasPhrases(r.phrases, languages) ? 'missing phrases' :
+      r.action === 'NAVIGATE' && !languages.every(lang => typeof reply[lang] === 'string') ? 'missing reply translation' :
+      null;
+    if (problem) errors.push(`${where}: ${problem}`);
+    else {
+      const rule = r as unknown as VoiceCommandRule;
+      rules.push({ rule, patterns: languages.flatMap(lang => rule.phrases[lang].map(compilePattern)) });
+    }
+  });
+
+  const stopwordLists = asRecord(bundle.stopwords);
+  const stopwords = new Set<string>(languages.flatMap(lang => {
+    const list = stopwordLists[lang];
+    return isStringList(list) ? list.flatMap(normalizeUtterance) : [];
+  }));
+  const slots = asRecord(bundle.slots);
+  const crops = asRecord(slots.crops);
+  const soils = asRecord(slots.soils);
+  const confirm = asRecord(bundle.confirm);
+  const vocabulary = {
+    crops: Object.values(CropType).map(type => ({ type, token: compileVocabulary(crops[type]) })),
+    soils: Object.values(SoilType).map(type => ({ type, token: compileVocabulary(soils[type]) })),
+    dates: Object.entries(isRecord(slots.dates) ? slots.dates : {}).map(([offset, words]) => ({ offset: Number(offset), token: compileVocabulary(words) })),
+    soilWords: compileVocabulary(slots.soilWords),
+    dayWords: compileVocabulary(slots.dayWords),
+    agoWords: compileVocabulary(slots.agoWords),
+    amountUnits: compileVocabulary(slots.amountUnits),
+    fillers: compileVocabulary(slots.fillers),
+    yes: compileVocabulary(confirm.yes),
+    no: compileVocabulary(confirm.no)
+  };
+  return { rules, stopwords, vocabulary, errors };
+};
+
+const grammar = loadVoiceGrammar(GRAMMAR_JSON);
+if (grammar.errors.length) console.error("Voice Grammar Errors:", grammar.errors);
+
+const ANSWERS = GRAMMAR_JSON.answers;
+
+const tokenMatches = (token: PatternToken, word: string) =>
+  token.alternatives.some(a => a.word && (a.prefix ? word.startsWith(a.word) : word === a.word));
+
+// Indices of the most utterance words the pattern can claim, matching its tokens in order; null when a required token is missing
+const matchFrom = (pattern: PatternToken[], words: string[], pi = 0, wi = 0): number[] | null => {
+  if (pi === pattern.length) return [];
+  const token = pattern[pi];
+  let best = token.optional ? matchFrom(pattern, words, pi + 1, wi) : null;
+  for (let i = wi; i < words.length; i++) {
+    if (!tokenMatches(token, words[i])) continue;
+    const rest = matchFrom(pattern, words, pi + 1, i + 1);
+    if (rest && (!best || rest.length + 1 > best.length)) best = [i, ...rest];
+  }
+  return best;
+};
+
+// The crop a single spoken word names ("gehu", "कापूस"), used for slots and for finding fields by crop
+export const cropTypeOf = (word: string): CropType | undefined =>
+  grammar.vocabulary.crops.find(c => tokenMatches(c.token, word))?.type;
+
+const isoDaysFromToday = (offset: number) => addDays(todayISO(), offset);
+
+interface ExtractedSlots {
+  crop: CropDraft;
+  amountMm?: number;
+  // Utterance indices each slot consumed
+  used: Record<Exclude<VoiceCommandSlot, 'field'>, number[]>;
+  fillers: number[];
+}
+
+/**
+ * Pulls crop, soil, sowing date ("yesterday", "3 din pahle") and irrigation amount ("25 mm")
+ * out of the utterance wherever they appear. Whether a rule may use them is decided later.
+ */
+const extractSlots = (words: string[]): ExtractedSlots => {
+  const { vocabulary } = grammar;
+  const slots: ExtractedSlots = { crop: {}, used: { crop: [], soil: [], date: [], amount: [] }, fillers: [] };
+
+  words.forEach((word, i) => {
+    const crop = cropTypeOf(word);
+    const soil = vocabulary.soils.find(s => tokenMatches(s.token, word));
+    const date = vocabulary.dates.find(d => tokenMatches(d.token, word));
+    const number = /^\d+(\.\d+)?$/.test(word) ? Number(word) : NaN;
+    if (crop) {
+      slots.crop.type ??= crop;
+      slots.used.crop.push(i);
+    } else if (soil) {
+      slots.crop.soilType ??= soil.type;
+      slots.used.soil.push(i);
+    } else if (tokenMatches(vocabulary.soilWords, word)) {
+      slots.used.soil.push(i);
+    } else if (date) {
+      slots.crop.sowingDate ??= isoDaysFromToday(date.offset);
+      slots.used.date.push(i);
+    } else if (!isNaN(number) && words[i + 1] && tokenMatches(vocabulary.dayWords, words[i + 1]) && words[i + 2] && tokenMatches(vocabulary.agoWords, words[i + 2])) {
+      slots.crop.sowingDate ??= isoDaysFromToday(-number);
+      slots.used.date.push(i, i + 1, i + 2);
+    } else if (!isNaN(number) && words[i + 1] && tokenMatches(vocabulary.amountUnits, words[i + 1])) {
+      slots.amountMm ??= number;
+      slots.used.amount.push(i, i + 1);
+    } else if (/^\d+mm$/.test(word)) {
+      slots.amountMm ??= Number(word.slice(0, -2));
+      slots.used.amount.push(i);
+    } else if (tokenMatches(vocabulary.fillers, word)) {
+      slots.fillers.push(i);
+    }
+  });
+  return slots;
+};
+
+// Words a rule accounts for: its phrase, the slots it accepts, and up to MAX_FIELD_WORDS leftovers as a field name
+const coverRule = (rule: VoiceCommandRule, phraseIndices: number[], words: string[], slots: ExtractedSlots) => {
+  const accepted = rule.slots || [];
+  const covered = new Set(phraseIndices);
+  const valueSlots = accepted.filter((s): s is Exclude<VoiceCommandSlot, 'field'> => s !== 'field');
+  valueSlots.forEach(slot => slots.used[slot].forEach(i => covered.add(i)));
+  if (valueSlots.length) slots.fillers.forEach(i => covered.add(i));
+
+  // Slot words the rule doesn't take stay available to the field name ("my wheat")
+  const leftover = words.map((_, i) => i).filter(i => !covered.has(i));
+  let field: string | undefined;
+  if (accepted.includes('field') && leftover.length && leftover.length <= MAX_FIELD_WORDS) {
+    leftover.forEach(i => covered.add(i));
+    field = leftover.map(i => words[i]).join(' ');
+  }
+  return { coverage: covered.size / words.length, field };
+};
+
+/**
+ * Matches the utterance against every language's phrases, so Devanagari, romanised and
+ * English commands all work whatever the app language. Replies are in `language`.
+ * Null means an open question for the cloud assistant.
+ */
+export const matchVoiceCommand = (text: string, language: Language): AssistantIntent | null => {
+  const words = normalizeUtterance(text).filter(w => !grammar.stopwords.has(w));
+  if (!words.length) return null;
+
+  const slots = extractSlots(words);
+  let best: { rule: VoiceCommandRule, coverage: number, field?: string } | null = null;
+  grammar.rules.forEach(({ rule, patterns }) => {
+    patterns.forEach(pattern => {
+      const matched = matchFrom(pattern, words);
+      if (!matched) return;
+      const { coverage, field } = coverRule(rule, matched, words, slots);
+      if (coverage >= MIN_COVERAGE && (!best || coverage > best.coverage)) best = { rule, coverage, field };
+    });
+  });
+  if (!best) return null;
+
+  const { rule, field } = best as { rule: VoiceCommandRule, field?: string };
+  switch (rule.action) {
+    case 'NAVIGATE': return { action: 'NAVIGATE', target: rule.target as AssistantView, message: rule.reply?.[language] };
+    case 'QUERY': return { action: 'QUERY', target: rule.target as AssistantQuery, field };
+    case 'ADD_CROP': return { action: 'ADD_CROP', crop: slots.crop };
+    case 'LOG_IRRIGATION': return { action: 'LOG_IRRIGATION', field, amountMm: slots.amountMm };
+  }
+};
+
+// Answer to "shall I save this?": true for yes, false for no, null when it was neither
+export const matchConfirmation = (text: string): boolean | null => {
+  const words = normalizeUtterance(text);
+  if (words.some(w => tokenMatches(grammar.vocabulary.no, w))) return false;
+  if (words.some(w => tokenMatches(grammar.vocabulary.yes, w))) return true;
+  return null;
+};
+
+/**
+ * Local grammar first; only open questions go to the cloud, and offline they get a
+ * localized "can't answer that" instead.
+ */
+export const interpretCommand = async (text: string, language: Language, signal?: AbortSignal): Promise<AIResult<AssistantIntent>> => {
+  const local = matchVoiceCommand(text, language);
+  if (local) return { ok: true, value: local };
+  if (!navigator.onLine) return { ok: true, value: { action: 'SPEAK', message: ANSWERS.offlineQuestion[language] } };
+  return processCommandIntent(text, signal);
+};
+
+export const isOnDeviceRecognitionAvailable = () =>
+  'SpeechRecognition' in window || 'webkitSpeechRecognition' in window;
+
+/**
+ * The browser's own recogniser, for commands while offline (Chrome on Android recognises
+ * downloaded languages on the device). `stop()` resolves with the final transcript.
+ */
+export const startOnDeviceRecognition = (language: Language) => {
+  // Callers check isOnDeviceRecognitionAvailable first
+  const Recognition = (window.SpeechRecognition || window.webkitSpeechRecognition)!;
+  const recognition = new Recognition();
+  recognition.lang = SPEECH_LOCALES[language];
+  recognition.interimResults = false;
+  recognition.maxAlternatives = 1;
+
+  let transcript = '';
+  const done = new Promise<string | null>(resolve => {
+    recognition.onresult = e => {
+      transcript = Array.from(e.results).map(r => r[0].transcript).join(' ');
+    };
+    recognition.onerror = e => {
+      if (e.error !== 'no-speech' && e.error !== 'aborted') console.error("Speech Recognition Failure:", e.error);
+    };
+    recognition.onend = () => resolve(transcript.trim() || null);
+  });
+  recognition.start();
+
+  return {
+    stop: () => { recognition.stop(); return done; },
+    cancel: () => recognition.abort()
+  };
+};
@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { imdProvider, migrateWeatherSnapshot, parseLegacyDate } from './WeatherService';
+import { REGIONS } from './RegionService';
+
+describe('parseLegacyDate', () => {
+  it('reads Indian-locale dates day first', () => {
+    expect(parseLegacyDate('05/11/2024')).toBe('2024-11-05');
+    expect(parseLegacyDate('5/1/2024')).toBe('2024-01-05');
+    expect(parseLegacyDate('२३/०८/२०२४')).toBe('2024-08-23');
+  });
+
+  it('keeps ISO dates and rejects impossible or unreadable ones', () => {
+    expect(parseLegacyDate('2024-06-01')).toBe('2024-06-01');
+    expect(parseLegacyDate('31/02/2024')).toBeNull();
+    expect(parseLegacyDate('13/13/2024')).toBeNull();
+    expect(parseLegacyDate('yesterday')).toBeNull();
+    expect(parseLegacyDate(undefined)).toBeNull();
+  });
+});
+
+describe('migrateWeatherSnapshot', () => {
+  it('upgrades legacy days and drops rows it cannot read', () => {
+    const days = migrateWeatherSnapshot([
+      { date: '23/08/2024', temp: 31, condition: 'rainy', precipChance: 80 },
+      { date: 'not a date', temp: 30, condition: 'sunny', precipChance: 0 },
+      { date: '24/08/2024', temp: 'hot', condition: 'sunny', precipChance: 0 },
+      { date: '25/08/2024', temp: 29, condition: 'hail', precipChance: 0 },
+      null
+    ]);
+    expect(days).toEqual([{
+      date: '2024-08-23', tempMin: 31, tempMax: 31, condition: 'rainy', precipChance: 80,
+      humidity: 50, windSpeed: 0, rainMm: 0, hourly: []
+    }]);
+  });
+
+  it('passes current-shape days through and tolerates a missing snapshot', () => {
+    const current = { date: '2024-08-23', tempMin: 24, tempMax: 31, condition: 'cloudy', precipChance: 10, humidity: 70, windSpeed: 8, rainMm: 0, hourly: [] };
+    expect(migrateWeatherSnapshot([current])).toEqual([current]);
+    expect(migrateWeatherSnapshot(undefined)).toEqual([]);
+  });
+});
+
+describe('imdProvider', () => {
+  const lucknow = REGIONS.find(r => r.imdDistrictId === 'lucknow')!;
+  const day = { date: '2024-07-01', min_temp: '26.4', max_temp: '33.6', weather: 'Thunderstorm with rain', rainfall_probability: '80', rh_morning: '90', rh_evening: '70', wind_speed: '12', rainfall_mm: '24.5' };
+  const respond = (body: unknown) => vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify(body))));
+
+  beforeEach(() => vi.stubEnv('IMD_FORECAST_URL', 'http://imd.test/forecast'));
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it('reads the string-typed feed into forecast days', async () => {
+    respond({ issued_at: '2024-07-01T05:30:00+05:30', district: 'Lucknow', forecast: [day] });
+    const forecast = await imdProvider.fetchForecast({ lat: 26.85, lng: 80.95, region: lucknow });
+    expect(fetch).toHaveBeenCalledWith('http://imd.test/forecast?district=lucknow');
+    expect(forecast).toMatchObject({ source: 'imd', issuedAt: '2024-07-01T00:00:00.000Z', locationName: 'Lucknow' });
+    expect(forecast.days[0]).toMatchObject({ date: '2024-07-01', tempMin: 26, tempMax: 34, precipChance: 80, humidity: 80, windSpeed: 12, rainMm: 24.5 });
+  });
+
+  it('rejects a reply without a forecast list or issue time', async () => {
+    respond({ issued_at: '2024-07-01T05:30:00+05:30' });
+    await expect(imdProvider.fetchForecast({ lat: 26.85, lng: 80.95, region: lucknow })).rejects.toThrow('no forecast list');
+    respond({ forecast: [day] });
+    await expect(imdProvider.fetchForecast({ lat: 26.85, lng: 80.95, region: lucknow })).rejects.toThrow('no issue time');
+    respond(null);
+    await expect(imdProvider.fetchForecast({ lat: 26.85, lng: 80.95, region: lucknow })).rejects.toThrow('no forecast list');
+  });
+});
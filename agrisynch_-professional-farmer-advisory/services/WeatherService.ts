@@ -0,0 +1,375 @@
+
+import { Region, WeatherDay, HourlyWeather, WeatherForecast, WeatherSourceId, FarmerCrop } from '../types';
+import { getOfflineRegion, detectCurrentLocation, getRegionCentroid, REGIONS } from './RegionService';
+import { addDays, daysBetween, toISODate, todayISO } from './Dates';
+import WEATHER_FIXTURE from '../data/weatherFixture.json';
+
+const OPEN_METEO_URL = 'https://api.open-meteo.com/v1/forecast';
+const FORECAST_DAYS = 4;
+// Open-Meteo's past_days limit; also bounds how far back a single sync backfills
+const MAX_HISTORY_BACKFILL_DAYS = 92;
+// Long enough for a sugarcane season
+const MAX_HISTORY_DAYS = 400;
+const CONDITIONS: WeatherDay['condition'][] = ['sunny', 'cloudy', 'rainy', 'storm'];
+
+export interface ForecastLocation {
+  lat: number;
+  lng: number;
+  region: Region | null;
+}
+
+export interface WeatherProvider {
+  id: WeatherSourceId;
+  fetchForecast: (location: ForecastLocation) => Promise<WeatherForecast>;
+  // Observed (or reanalysis) daily weather for the last `pastDays` days, where the source offers it
+  fetchHistory?: (location: ForecastLocation, pastDays: number) => Promise<WeatherDay[]>;
+}
+
+// WMO weather interpretation codes -> coarse app condition
+const fromWmoCode = (code: number): WeatherDay['condition'] => {
+  if (code >= 95) return 'storm';
+  if ((code >= 51 && code <= 67) || (code >= 80 && code <= 82)) return 'rainy';
+  if (code <= 1) return 'sunny';
+  return 'cloudy';
+};
+
+// IMD free-text sky descriptions -> coarse app condition
+const fromImdText = (text: string): WeatherDay['condition'] => {
+  const s = text.toLowerCase();
+  if (s.includes('thunder') || s.includes('storm') || s.includes('squall')) return 'storm';
+  if (s.includes('rain') || s.includes('shower') || s.includes('drizzle')) return 'rainy';
+  if (s.includes('clear') || s.includes('sunny') || s.includes('mainly dry')) return 'sunny';
+  return 'cloudy';
+};
+
+// Three-hourly diurnal curve (min near dawn, max mid-afternoon) for sources without hourly data
+const synthesizeHourly = (day: Omit<WeatherDay, 'hourly'>): HourlyWeather[] =>
+  [0, 3, 6, 9, 12, 15, 18, 21].map(h => {
+    const warmth = (1 + Math.sin(((h - 9) / 24) * 2 * Math.PI)) / 2;
+    return {
+      time: `${day.date}T${String(h).padStart(2, '0')}:00`,
+      temp: Math.round(day.tempMin + (day.tempMax - day.tempMin) * warmth),
+      humidity: Math.min(100, Math.round(day.humidity * (1.3 - 0.6 * warmth))),
+      windSpeed: Math.round(day.windSpeed * (0.6 + 0.8 * warmth)),
+      rainMm: Math.round((day.rainMm / 8) * 10) / 10
+    };
+  });
+
+// First calm, dry daylight slice suitable for spraying (drift and wash-off risk both low)
+export const findSprayWindow = (day?: WeatherDay): string | null => {
+  const slot = day?.hourly.find(h => {
+    const hour = Number(h.time.slice(11, 13));
+    return hour >= 6 && hour <= 18 && h.windSpeed < 10 && h.rainMm === 0 && h.temp < 32;
+  });
+  return slot ? slot.time.slice(11, 16) : null;
+};
+
+/**
+ * Open-Meteo daily + hourly forecast. The API has no issuance timestamp, so the model run
+ * is approximated by the fetch time.
+ */
+export const openMeteoProvider: WeatherProvider = {
+  id: 'open-meteo',
+  fetchForecast: async ({ lat, lng, region }) => {
+    const params = new URLSearchParams({
+      latitude: lat.toFixed(3),
+      longitude: lng.toFixed(3),
+      daily: 'weather_code,temperature_2m_max,temperature_2m_min,precipitation_probability_max,precipitation_sum,relative_humidity_2m_mean,wind_speed_10m_max,wind_gusts_10m_max,sunshine_duration',
+      hourly: 'temperature_2m,relative_humidity_2m,wind_speed_10m,precipitation',
+      wind_speed_unit: 'kmh',
+      timezone: 'auto',
+      forecast_days: String(FORECAST_DAYS)
+    });
+    const res = await fetch(`${OPEN_METEO_URL}?${params}`);
+    if (!res.ok) throw new Error(`Open-Meteo request failed (${res.status})`);
+    const json = await res.json();
+    const daily = json?.daily;
+    const hourly = json?.hourly;
+    if (!daily || !Array.isArray(daily.time)) throw new Error('Open-Meteo response has no daily block');
+
+    const hourlyFor = (date: string): HourlyWeather[] => !Array.isArray(hourly?.time) ? [] :
+      hourly.time.flatMap((time: string, i: number) => time.startsWith(date) ? [{
+        time,
+        temp: hourly.temperature_2m[i],
+        humidity: hourly.relative_humidity_2m[i],
+        windSpeed: hourly.wind_speed_10m[i],
+        rainMm: hourly.precipitation[i]
+      }] : []);
+
+    return {
+      source: 'open-meteo',
+      issuedAt: new Date().toISOString(),
+      locationName: region?.name || `${lat.toFixed(2)}, ${lng.toFixed(2)}`,
+      days: daily.time.map((date: string, i: number) => ({
+        date,
+        tempMin: Math.round(daily.temperature_2m_min[i]),
+        tempMax: Math.round(daily.temperature_2m_max[i]),
+        condition: fromWmoCode(daily.weather_code[i]),
+        precipChance: daily.precipitation_probability_max[i] ?? 0,
+        humidity: Math.round(daily.relative_humidity_2m_mean[i]),
+        windSpeed: Math.round(daily.wind_speed_10m_max[i]),
+        windGust: Math.round(daily.wind_gusts_10m_max[i]),
+        rainMm: daily.precipitation_sum[i] ?? 0,
+        sunshineHours: Math.round((daily.sunshine_duration[i] / 3600) * 10) / 10,
+        hourly: hourlyFor(date)
+      }))
+    };
+  },
+  fetchHistory: async ({ lat, lng }, pastDays) => {
+    const params = new URLSearchParams({
+      latitude: lat.toFixed(3),
+      longitude: lng.toFixed(3),
+      daily: 'weather_code,temperature_2m_max,temperature_2m_min,precipitation_sum,relative_humidity_2m_mean,wind_speed_10m_max',
+      wind_speed_unit: 'kmh',
+      timezone: 'auto',
+      past_days: String(Math.min(pastDays, MAX_HISTORY_BACKFILL_DAYS)),
+      forecast_days: '1'
+    });
+    const res = await fetch(`${OPEN_METEO_URL}?${params}`);
+    if (!res.ok) throw new Error(`Open-Meteo history request failed (${res.status})`);
+    const daily = (await res.json())?.daily;
+    if (!daily || !Array.isArray(daily.time)) throw new Error('Open-Meteo history has no daily block');
+
+    return daily.time.map((date: string, i: number) => ({
+      date,
+      tempMin: Math.round(daily.temperature_2m_min[i]),
+      tempMax: Math.round(daily.temperature_2m_max[i]),
+      condition: fromWmoCode(daily.weather_code[i]),
+      precipChance: daily.precipitation_sum[i] > 0 ? 100 : 0,
+      humidity: Math.round(daily.relative_humidity_2m_mean[i]),
+      windSpeed: Math.round(daily.wind_speed_10m_max[i]),
+      rainMm: daily.precipitation_sum[i] ?? 0,
+      hourly: []
+    }));
+  }
+};
+
+// One forecast day from the IMD feed; numbers arrive as strings
+interface ImdForecastDay {
+  date: string;
+  min_temp: string | number;
+  max_temp: string | number;
+  weather?: string;
+  rainfall_probability: string | number;
+  rh_morning: string | number;
+  rh_evening: string | number;
+  wind_speed: string | number;
+  rainfall_mm: string | number;
+}
+
+interface ImdForecastResponse {
+  issued_at: string;
+  district?: string;
+  forecast: ImdForecastDay[];
+}
+
+/**
+ * IMD district-wise forecast, served as JSON by the agromet proxy configured in
+ * IMD_FORECAST_URL. Numeric fields arrive as strings in this feed, humidity is reported
+ * as morning/evening readings and there is no hourly or sunshine data.
+ */
+export const imdProvider: WeatherProvider = {
+  id: 'imd',
+  fetchForecast: async ({ region }) => {
+    if (!process.env.IMD_FORECAST_URL) throw new Error('IMD_FORECAST_URL is not configured');
+    if (!region?.imdDistrictId) throw new Error('Region has no IMD district mapping');
+
+    const res = await fetch(`${process.env.IMD_FORECAST_URL}?district=${encodeURIComponent(region.imdDistrictId)}`);
+    if (!res.ok) throw new Error(`IMD request failed (${res.status})`);
+    const json: Partial<ImdForecastResponse> | null = await res.json();
+    if (!json || !Array.isArray(json.forecast)) throw new Error('IMD response has no forecast list');
+    if (typeof json.issued_at !== 'string' || isNaN(Date.parse(json.issued_at))) throw new Error('IMD response has no issue time');
+
+    return {
+      source: 'imd',
+      issuedAt: new Date(json.issued_at).toISOString(),
+      locationName: json.district || region.name,
+      days: json.forecast.slice(0, FORECAST_DAYS).map((d: ImdForecastDay) => {
+        const day = {
+          date: d.date,
+          tempMin: Math.round(Number(d.min_temp)),
+          tempMax: Math.round(Number(d.max_temp)),
+          condition: fromImdText(String(d.weather ?? '')),
+          precipChance: Number(d.rainfall_probability),
+          humidity: Math.round((Number(d.rh_morning) + Number(d.rh_evening)) / 2),
+          windSpeed: Number(d.wind_speed),
+          rainMm: Number(d.rainfall_mm)
+        };
+        return { ...day, hourly: synthesizeHourly(day) };
+      })
+    };
+  }
+};
+
+/**
+ * Bundled forecast for offline development and tests. Day offsets are resolved against
+ * today so the fixture never goes stale.
+ */
+export const fixtureProvider: WeatherProvider = {
+  id: 'fixture',
+  fetchForecast: async () => {
+    const today = todayISO();
+    const issued = new Date();
+    issued.setHours(WEATHER_FIXTURE.issuedHour, 0, 0, 0);
+    return {
+      source: 'fixture',
+      issuedAt: issued.toISOString(),
+      locationName: WEATHER_FIXTURE.locationName,
+      days: WEATHER_FIXTURE.days.map(({ dayOffset, ...d }) => {
+        const day = {
+          ...d,
+          date: addDays(today, dayOffset),
+          condition: d.condition as WeatherDay['condition']
+        };
+        return { ...day, hourly: synthesizeHourly(day) };
+      })
+    };
+  },
+  // Cycles the fixture days backwards from yesterday so thermal-time paths can be exercised offline
+  fetchHistory: async (_location, pastDays) => {
+    const today = todayISO();
+    return Array.from({ length: pastDays }, (_, i) => {
+      const { dayOffset, ...d } = WEATHER_FIXTURE.days[i % WEATHER_FIXTURE.days.length];
+      return {
+        ...d,
+        date: addDays(today, -(i + 1)),
+        condition: d.condition as WeatherDay['condition'],
+        hourly: []
+      };
+    }).reverse();
+  }
+};
+
+// Pick the forecast source for the farmer's region (IMD where a district feed exists)
+export const selectWeatherProvider = (region: Region | null): WeatherProvider => {
+  if (region?.imdDistrictId && process.env.IMD_FORECAST_URL) return imdProvider;
+  return openMeteoProvider;
+};
+
+// Throws on the first malformed day so a bad feed never replaces good data
+export const validateWeatherDays = (days: WeatherDay[], source: WeatherSourceId): WeatherDay[] => {
+  const inRange = (v: number | undefined, min: number, max: number) => Number.isFinite(v) && v! >= min && v! <= max;
+  const optionalInRange = (v: number | undefined, min: number, max: number) => v === undefined || inRange(v, min, max);
+
+  days.forEach((d, i) => {
+    const problem =
+      isNaN(Date.parse(d.date)) ? 'date' :
+      !inRange(d.tempMin, -30, 60) || !inRange(d.tempMax, -30, 60) || d.tempMin > d.tempMax ? 'temperature' :
+      !CONDITIONS.includes(d.condition) ? 'condition' :
+      !inRange(d.precipChance, 0, 100) ? 'precipChance' :
+      !inRange(d.humidity, 0, 100) ? 'humidity' :
+      !inRange(d.windSpeed, 0, 250) || !optionalInRange(d.windGust, 0, 300) ? 'wind' :
+      !inRange(d.rainMm, 0, 1000) ? 'rainMm' :
+      !optionalInRange(d.sunshineHours, 0, 24) ? 'sunshineHours' :
+      !Array.isArray(d.hourly) ? 'hourly' :
+      null;
+    if (problem) throw new Error(`Invalid ${problem} on day ${i} from ${source}`);
+  });
+  return days;
+};
+
+export const validateForecast = (forecast: WeatherForecast): WeatherForecast => {
+  if (!forecast.days.length) throw new Error(`Empty forecast from ${forecast.source}`);
+  if (isNaN(Date.parse(forecast.issuedAt))) throw new Error(`Invalid issue time from ${forecast.source}`);
+  validateWeatherDays(forecast.days, forecast.source);
+  return forecast;
+};
+
+// Merge days into history by date (newer data wins), oldest first, capped in length
+export const mergeWeatherHistory = (history: WeatherDay[], days: WeatherDay[]): WeatherDay[] => {
+  const byDate = new Map(history.map(d => [d.date, d]));
+  // Hourly slices are only useful for the forecast window; drop them to keep storage small
+  days.forEach(d => byDate.set(d.date, { ...d, hourly: [] }));
+  return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date)).slice(-MAX_HISTORY_DAYS);
+};
+
+// Forecast point: the farmer's registered region first, GPS as a fallback
+export const resolveForecastLocation = async (crops: FarmerCrop[]): Promise<ForecastLocation> => {
+  const region = REGIONS.find(r => crops.some(c => c.region === r.id));
+  if (region) return { ...getRegionCentroid(region), region };
+
+  const { lat, lng } = await detectCurrentLocation();
+  return { lat, lng, region: getOfflineRegion(lat, lng) };
+};
+
+/**
+ * Fetch and validate the forecast for the farmer's fields, and fold elapsed days into the
+ * weather history used for thermal time. Missing days back to the earliest sowing date
+ * are backfilled when the provider supports it.
+ */
+export const syncWeather = async (
+  crops: FarmerCrop[],
+  history: WeatherDay[]
+): Promise<{ forecast: WeatherForecast, history: WeatherDay[] }> => {
+  // The fixture ignores location, so skip the GPS prompt in offline development
+  const isFixture = process.env.WEATHER_PROVIDER === 'fixture';
+  const location = isFixture ? { lat: 0, lng: 0, region: null } : await resolveForecastLocation(crops);
+  const provider = isFixture ? fixtureProvider : selectWeatherProvider(location.region);
+  const forecast = validateForecast(await provider.fetchForecast(location));
+
+  const today = todayISO();
+  let merged = mergeWeatherHistory(history, forecast.days.filter(d => d.date <= today));
+
+  const earliestSowing = crops.map(c => c.sowingDate).sort()[0];
+  if (provider.fetchHistory && earliestSowing) {
+    const known = new Set(merged.map(d => d.date));
+    const neededDays = daysBetween(earliestSowing, today);
+    const pastDays = Math.min(neededDays, MAX_HISTORY_BACKFILL_DAYS);
+    const missing = Array.from({ length: pastDays }, (_, i) => addDays(today, -(i + 1)))
+      .some(date => !known.has(date));
+    if (missing) {
+      try {
+        const past = validateWeatherDays(await provider.fetchHistory(location, pastDays), provider.id);
+        merged = mergeWeatherHistory(past, merged);
+      } catch (e) {
+        // History is an enhancement; the forecast alone is still a successful sync
+        console.error("Weather History Failure:", e);
+      }
+    }
+  }
+
+  return { forecast, history: merged };
+};
+
+// Legacy snapshots stored toLocaleDateString() from Indian locales: day first, and in Marathi
+// with Devanagari digits. ISO dates pass through; anything else is unreadable.
+export const parseLegacyDate = (text: unknown): string | null => {
+  if (typeof text !== 'string') return null;
+  const ascii = text.trim().replace(/[०-९]/g, c => String(c.charCodeAt(0) - 0x0966));
+  const iso = ascii.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const dmy = ascii.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  const [year, month, day] = iso ? [iso[1], iso[2], iso[3]].map(Number) : dmy ? [dmy[3], dmy[2], dmy[1]].map(Number) : [];
+  if (!year) return null;
+  const date = new Date(year, month - 1, day);
+  // Rejects 31/02 and the like, which Date would roll into the next month
+  return date.getMonth() === month - 1 && date.getDate() === day ? toISODate(date) : null;
+};
+
+/**
+ * Upgrade snapshot days saved before min/max, humidity, wind and rainfall existed.
+ * Legacy days only carried a single `temp`, so it stands in for both extremes and the
+ * unknown fields get neutral values that trigger no alerts. Rows that can't be read are dropped.
+ */
+export const migrateWeatherSnapshot = (days: unknown): WeatherDay[] => {
+  if (!Array.isArray(days)) return [];
+  return days.flatMap((d: unknown): WeatherDay[] => {
+    if (!d || typeof d !== 'object') return [];
+    const row = d as Record<string, unknown>;
+    if ('tempMax' in row) return [row as unknown as WeatherDay];
+    const date = parseLegacyDate(row.date);
+    const { temp, condition, precipChance } = row;
+    if (!date || typeof temp !== 'number' || !Number.isFinite(temp)) return [];
+    if (!CONDITIONS.includes(condition as WeatherDay['condition'])) return [];
+    return [{
+      date,
+      tempMin: temp,
+      tempMax: temp,
+      condition: condition as WeatherDay['condition'],
+      precipChance: typeof precipChance === 'number' && Number.isFinite(precipChance) ? precipChance : 0,
+      humidity: 50,
+      windSpeed: 0,
+      rainMm: 0,
+      hourly: []
+    }];
+  });
+};
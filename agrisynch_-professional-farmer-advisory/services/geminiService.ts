@@ -1,36 +1,74 @@
-
-import { GoogleGenAI, Modality, Type } from "@google/genai";
+import { GoogleGenAI, GenerateContentResponse, Modality, Type } from "@google/genai";
+import { AIProvider, ChatTurn, diagnosisPrompt, intentPrompt, speechText, TRANSCRIPTION_PROMPT } from "./AIProvider";
+import { aiError } from "./AIRequest";
 
 // Initialize AI client
 const getAIClient = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
 
+// Mirrors StructuredDiagnosis; parseDiagnosis re-checks it since the model can still drift
+const DIAGNOSIS_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    suspectedProblem: { type: Type.STRING, description: 'Most likely disease, pest or disorder' },
+    confidence: { type: Type.STRING, enum: ['low', 'medium', 'high'] },
+    cause: { type: Type.STRING, description: 'Biological or environmental cause' },
+    interventions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          type: { type: Type.STRING, enum: ['organic', 'chemical', 'mechanical'] },
+          action: { type: Type.STRING },
+          dosage: { type: Type.STRING, description: 'Rate per litre or per acre, if applicable' }
+        },
+        required: ['type', 'action']
+      }
+    },
+    prevention: { type: Type.ARRAY, items: { type: Type.STRING } },
+    urgency: { type: Type.STRING, enum: ['immediate', 'within-week', 'monitor'] }
+  },
+  required: ['suspectedProblem', 'confidence', 'cause', 'interventions', 'prevention', 'urgency']
+};
+
+const imagePart = (dataUrl: string) => {
+  const [header, data] = dataUrl.split(',');
+  return { inlineData: { mimeType: header.match(/data:(.*?);/)?.[1] || 'image/jpeg', data } };
+};
+
+// Pro reasons through diagnoses and follow-ups; Flash keeps the assistant quick
+const EXPERT_MODEL = 'gemini-3-pro-preview';
+const FAST_MODEL = 'gemini-3-flash-preview';
+const SPEECH_MODEL = 'gemini-2.5-flash-preview-tts';
+const SPEECH_VOICE = 'Kore'; // Professional and clear persona
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY'];
+
+// A blocked prompt or answer comes back as a normal response with no text
+const checked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+    throw aiError('safety-blocked', `Gemini blocked the request (${blockReason || finishReason})`);
+  }
+  return response;
+};
+
+const toContent = (turn: ChatTurn) => ({
+  role: turn.role,
+  parts: [...(turn.imageUrl ? [imagePart(turn.imageUrl)] : []), { text: turn.text }]
+});
+
 /**
- * Diagnostic Expert: Uses Gemini 3 Pro with Thinking Mode for complex agricultural reasoning.
+ * Google Gemini adapter: Gemini 3 Pro for diagnostics and follow-ups, Gemini 3 Flash for
+ * transcription and intents, Gemini 2.5 Flash TTS for speech.
  */
-export const getDiagnosticAdvice = async (
-  cropName: string, 
-  stage: string, 
-  description: string, 
-  imageData?: string
-) => {
-  const ai = getAIClient();
-  try {
-    const prompt = `Act as a senior PhD Agricultural Pathologist. A farmer needs a detailed diagnosis.
-    Field Context:
-    - Crop: ${cropName}
-    - Growth Stage: ${stage}
-    - Symptoms Reported: ${description}
-    
-    Instruction:
-    1. Identify the most likely disease/pest.
-    2. Explain the cause (biological or environmental).
-    3. Provide a 3-step immediate intervention (Organic/Chemical/Mechanical).
-    4. List 2 long-term soil/management preventions.
-    
-    Keep language professional yet actionable.`;
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
+  diagnose: async (context, description, imageData, language, abortSignal) => {
+    const prompt = diagnosisPrompt(context, description, language);
+    const response = checked(await getAIClient().models.generateContent({
+      model: EXPERT_MODEL,
       contents: imageData ? {
         parts: [
           { inlineData: { mimeType: 'image/jpeg', data: imageData } },
@@ -38,95 +76,66 @@ export const getDiagnosticAdvice = async (
         ]
       } : prompt,
       config: {
-        thinkingConfig: { thinkingBudget: 32768 } // Maximum reasoning depth for critical diagnostics
+        thinkingConfig: { thinkingBudget: 32768 }, // Maximum reasoning depth for critical diagnostics
+        responseMimeType: 'application/json',
+        responseSchema: DIAGNOSIS_SCHEMA,
+        abortSignal
       },
-    });
-    
-    return response.text;
-  } catch (error) {
-    console.error("AI Expert Error:", error);
-    return "The Diagnostic Engine encountered an error. Please ensure your device is synchronized and try again.";
-  }
-};
+    }));
+    return JSON.parse(response.text || '');
+  },
 
-/**
- * Audio Transcription: Uses Gemini 3 Flash for fast, accurate voice-to-text conversion.
- */
-export const transcribeAudio = async (base64Audio: string) => {
-  const ai = getAIClient();
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
+  chat: async (turns, abortSignal) => {
+    const response = checked(await getAIClient().models.generateContent({
+      model: EXPERT_MODEL,
+      contents: turns.map(toContent),
+      config: { abortSignal }
+    }));
+    return response.text || '';
+  },
+
+  transcribe: async (base64Audio, abortSignal) => {
+    const response = checked(await getAIClient().models.generateContent({
+      model: FAST_MODEL,
       contents: {
         parts: [
-          { inlineData: { mimeType: 'audio/pcm;rate=16000', data: base64Audio } },
-          { text: "Transcribe the following agricultural voice note exactly. If it's in a regional language like Hindi or Marathi, translate it to English." }
+          { inlineData: { mimeType: 'audio/wav', data: base64Audio } },
+          { text: TRANSCRIPTION_PROMPT }
         ]
-      }
-    });
-    return response.text;
-  } catch (e) {
-    console.error("Transcription Failure:", e);
-    return null;
-  }
-};
+      },
+      config: { abortSignal }
+    }));
+    return response.text || '';
+  },
 
-/**
- * Voice Assistant Intent Parser: Interprets commands to navigate or answer questions.
- */
-export const processCommandIntent = async (text: string) => {
-  const ai = getAIClient();
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: `You are the AgriSynch Voice Assistant. Interpret the following user command: "${text}".
-      
-      Available views: home, crops, diagnostics, library, settings, add, caseLog.
-      
-      Respond ONLY with a JSON object in this format:
-      {
-        "action": "NAVIGATE" | "SPEAK" | "QUERY",
-        "target": "view_name",
-        "message": "confirmation or answer text"
-      }
-      
-      If the user wants to see their crops, navigate to 'crops'.
-      If they want to add a field, navigate to 'add'.
-      If they want to ask the expert, navigate to 'diagnostics'.
-      If they ask a general question about crops or soil, use 'SPEAK' and provide a short, helpful answer.`,
+  parseIntent: async (text, abortSignal) => {
+    const response = checked(await getAIClient().models.generateContent({
+      model: FAST_MODEL,
+      contents: intentPrompt(text),
       config: {
-        responseMimeType: "application/json"
+        responseMimeType: "application/json",
+        abortSignal
       }
-    });
-    
+    }));
     return JSON.parse(response.text || '{}');
-  } catch (e) {
-    console.error("Intent Processing Failure:", e);
-    return { action: 'SPEAK', message: "I'm sorry, I couldn't process that command." };
-  }
-};
+  },
 
-/**
- * Text-to-Speech: Uses Gemini 2.5 Flash TTS for accessibility.
- */
-export const generateSpeech = async (text: string): Promise<string | undefined> => {
-  const ai = getAIClient();
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text: `AgriSynch Assistant says: ${text}` }] }],
+  speechVoice: SPEECH_VOICE,
+
+  speak: async (text, abortSignal) => {
+    const response = checked(await getAIClient().models.generateContent({
+      model: SPEECH_MODEL,
+      contents: [{ parts: [{ text: speechText(text) }] }],
       config: {
         responseModalities: [Modality.AUDIO],
         speechConfig: {
           voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: 'Kore' }, // Professional and clear persona
+            prebuiltVoiceConfig: { voiceName: SPEECH_VOICE },
           },
         },
+        abortSignal
       },
-    });
+    }));
     return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-  } catch (e) {
-    console.error("Speech Engine Failure:", e);
-    return undefined;
   }
 };
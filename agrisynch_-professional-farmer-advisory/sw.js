@@ -1,5 +1,7 @@
 
-const CACHE_NAME = 'agrisynch-core-v10';
+const CACHE_NAME = 'agrisynch-core-v12';
+// Offline map tiles live in their own cache, kept across app updates
+const TILE_CACHE = 'agrisynch-tiles';
 const STATIC_ASSETS = [
   './',
   './index.html',
@@ -20,7 +22,7 @@ self.addEventListener('install', (event) => {
 self.addEventListener('activate', (event) => {
   event.waitUntil(
     caches.keys().then((keys) => {
-      return Promise.all(keys.filter(k => k !== CACHE_NAME).map(k => caches.delete(k)));
+      return Promise.all(keys.filter(k => k !== CACHE_NAME && k !== TILE_CACHE).map(k => caches.delete(k)));
     })
   );
 });
@@ -54,3 +56,101 @@ self.addEventListener('fetch', (event) => {
     })
   );
 });
+
+// Background sync for diagnostics queued offline. The Gemini client lives in the page bundle,
+// so the worker wakes an open window to send them; with none open, failing lets the browser retry later.
+self.addEventListener('sync', (event) => {
+  if (event.tag !== 'diagnostic-outbox') return;
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      if (clients.length === 0) throw new Error('No open window to flush the outbox');
+      clients.forEach(client => client.postMessage({ type: 'flush-outbox' }));
+    })
+  );
+});
+
+// Notifications may carry an app route (`data.hash`, e.g. '#/cases/123') to open on tap
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const hash = event.notification.data?.hash || '';
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      if (clients.length > 0) {
+        if (hash) clients[0].postMessage({ type: 'open-route', hash });
+        return clients[0].focus();
+      }
+      return self.clients.openWindow(`./${hash}`);
+    })
+  );
+});
+
+// Offline map downloads. The page sends the tile URLs, most useful first, and a byte budget for
+// the whole tile cache; each tile's size is stored alongside it so usage can be totalled offline.
+const TILE_BYTES_HEADER = 'x-agrisynch-bytes';
+const TILE_FETCHES = 4;
+
+const tileUsage = async () => {
+  const cache = await caches.open(TILE_CACHE);
+  const requests = await cache.keys();
+  const responses = await Promise.all(requests.map(r => cache.match(r)));
+  const bytes = responses.reduce((sum, res) => sum + Number(res?.headers.get(TILE_BYTES_HEADER) || 0), 0);
+  return { bytes, count: requests.length };
+};
+
+// Tiles kept by an earlier download that this plan leaves out (a removed field, another tile
+// server) are dropped first, so their share of the budget goes to the tiles wanted now
+const evictUnplanned = async (cache, urls) => {
+  const planned = new Set(urls);
+  const stale = (await cache.keys()).filter(request => !planned.has(request.url));
+  await Promise.all(stale.map(request => cache.delete(request)));
+  return stale.length;
+};
+
+const cacheTiles = async (urls, budgetBytes, port) => {
+  const cache = await caches.open(TILE_CACHE);
+  const evicted = await evictUnplanned(cache, urls);
+  const progress = { done: 0, failed: 0, total: urls.length, bytes: (await tileUsage()).bytes };
+  let next = 0;
+  let stoppedByBudget = false;
+
+  const worker = async () => {
+    while (next < urls.length && !stoppedByBudget) {
+      const url = urls[next++];
+      try {
+        if (!(await cache.match(url))) {
+          const res = await fetch(url, { mode: 'cors' });
+          if (!res.ok) throw new Error(`Tile ${url} returned ${res.status}`);
+          const blob = await res.blob();
+          if (progress.bytes + blob.size > budgetBytes) {
+            stoppedByBudget = true;
+            break;
+          }
+          progress.bytes += blob.size;
+          const headers = new Headers({ 'content-type': res.headers.get('content-type') || blob.type });
+          headers.set(TILE_BYTES_HEADER, String(blob.size));
+          await cache.put(url, new Response(blob, { headers }));
+        }
+        progress.done++;
+      } catch (e) {
+        progress.failed++;
+      }
+      port.postMessage({ type: 'progress', ...progress });
+    }
+  };
+
+  await Promise.all(Array.from({ length: TILE_FETCHES }, worker));
+  port.postMessage({ type: 'done', ...progress, evicted, stoppedByBudget });
+};
+
+self.addEventListener('message', (event) => {
+  const port = event.ports[0];
+  const { type, urls, budgetBytes } = event.data || {};
+  if (!port) return;
+  const reply = (work) => event.waitUntil(
+    work.catch((e) => port.postMessage({ type: 'error', message: String(e?.message || e) }))
+  );
+
+  if (type === 'cache-tiles') reply(cacheTiles(urls || [], budgetBytes || 0, port));
+  if (type === 'tile-usage') reply(tileUsage().then(usage => port.postMessage(usage)));
+  if (type === 'clear-tiles') reply(caches.delete(TILE_CACHE).then(() => port.postMessage({ bytes: 0, count: 0 })));
+});
@@ -23,6 +23,27 @@ export enum SoilType {
   SANDY = 'sandy'
 }
 
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+// A GPS reading with its reported accuracy radius
+export interface LocationFix extends GeoPoint {
+  accuracyM: number;
+}
+
+// A pest or disease sighting shown on the map
+export interface PestReport {
+  id: string;
+  location: GeoPoint;
+  problem: string;
+  cropType: CropType;
+  reportedAt: string;
+  // The farmer's own diagnosed case, or a sighting shared by other farmers
+  source: 'own-case' | 'community';
+}
+
 export interface GeoBounds {
   minLat: number;
   maxLat: number;
@@ -30,6 +51,19 @@ export interface GeoBounds {
   maxLng: number;
 }
 
+// GeoJSON geometries; positions are [lng, lat] and each ring repeats its first position at the end
+export interface PolygonGeometry {
+  type: 'Polygon';
+  coordinates: number[][][];
+}
+
+export interface MultiPolygonGeometry {
+  type: 'MultiPolygon';
+  coordinates: number[][][][];
+}
+
+export type RegionGeometry = PolygonGeometry | MultiPolygonGeometry;
+
 export interface Region {
   id: string;
   name: string;
@@ -37,7 +71,19 @@ export interface Region {
   marathiName: string;
   state: string;
   defaultSoil: SoilType;
+  geometry: RegionGeometry;
+  // Derived from the geometry when the region bundle is loaded
   bounds: GeoBounds;
+  imdDistrictId?: string;
+  // Wider region whose advisory overlays also apply here (a zone inside a plain)
+  parentId?: string;
+}
+
+// Where a point falls: inside a region, or the nearest one and how far away its boundary is
+export interface RegionMatch {
+  region: Region;
+  inside: boolean;
+  distanceKm: number;
 }
 
 export interface UserSettings {
@@ -83,14 +129,46 @@ export enum InsightPriority {
   NORMAL = 'normal'
 }
 
+export interface HourlyWeather {
+  time: string;
+  temp: number;
+  humidity: number;
+  windSpeed: number;
+  rainMm: number;
+}
+
 export interface WeatherDay {
   date: string;
-  temp: number;
+  tempMin: number;
+  tempMax: number;
   condition: 'sunny' | 'rainy' | 'cloudy' | 'storm';
   precipChance: number;
+  humidity: number;
+  windSpeed: number;
+  windGust?: number;
+  rainMm: number;
+  sunshineHours?: number;
+  hourly: HourlyWeather[];
+}
+
+export type WeatherSourceId = 'open-meteo' | 'imd' | 'fixture';
+
+export interface WeatherForecast {
+  source: WeatherSourceId;
+  issuedAt: string;
+  locationName: string;
+  days: WeatherDay[];
+}
+
+export interface WeatherMeta {
+  source: WeatherSourceId;
+  issuedAt: string;
+  fetchedAt: string;
+  locationName: string;
 }
 
 export interface OfflineInsight {
+  ruleId?: string;
   cropId: string;
   cropNickname: string;
   title: string;
@@ -100,15 +178,257 @@ export interface OfflineInsight {
   category: 'Weather' | 'Soil' | 'Pest' | 'Fertilizer';
 }
 
+export type InsightCategory = OfflineInsight['category'];
+
+export type WeatherMetric = 'tempMin' | 'tempMax' | 'precipChance' | 'humidity' | 'windSpeed' | 'windGust' | 'rainMm';
+
+export type ComparisonOp = 'gt' | 'gte' | 'lt' | 'lte' | 'eq';
+
+// Holds when the metric satisfies the comparison on any (default) or all days of the window
+export interface WeatherRuleCondition {
+  days: [number, number];
+  metric: WeatherMetric | 'condition';
+  op?: ComparisonOp;
+  value?: number;
+  in?: WeatherDay['condition'][];
+  match?: 'any' | 'all';
+}
+
+export interface SoilRuleCondition {
+  types?: SoilType[];
+  waterRetention?: SoilProfile['waterRetention'][];
+  drainageKeyword?: string;
+}
+
+// Every present field must hold; `weatherAny` needs at least one of its entries to hold
+export interface RuleConditions {
+  cropTypes?: CropType[];
+  stages?: GrowthStage[];
+  regions?: string[];
+  soil?: SoilRuleCondition;
+  weather?: WeatherRuleCondition[];
+  weatherAny?: WeatherRuleCondition[];
+  sprayWindowDay?: number;
+  irrigationDueWithinDays?: number;
+}
+
+export interface RuleMessage {
+  title: string;
+  description: string;
+}
+
+export interface InsightRule {
+  id: string;
+  category: InsightCategory;
+  priority: InsightPriority;
+  actionDay: number;
+  when: RuleConditions;
+  messages: Record<Language, RuleMessage>;
+}
+
+export type DiagnosticStatus = 'pending' | 'complete';
+
+export type DiagnosisConfidence = 'low' | 'medium' | 'high';
+export type DiagnosisUrgency = 'immediate' | 'within-week' | 'monitor';
+export type InterventionType = 'organic' | 'chemical' | 'mechanical';
+
+export interface DiagnosisIntervention {
+  type: InterventionType;
+  action: string;
+  dosage?: string;
+}
+
+export interface StructuredDiagnosis {
+  suspectedProblem: string;
+  confidence: DiagnosisConfidence;
+  cause: string;
+  interventions: DiagnosisIntervention[];
+  prevention: string[];
+  urgency: DiagnosisUrgency;
+}
+
 export interface DiagnosticCase {
   id: string;
+  // Display text in the device's locale; not parseable back into a date
   timestamp: string;
+  // ISO time the case was opened. Absent only on old cases the migration could not date
+  createdAt?: string;
+  cropId?: string;
   cropNickname: string;
   description: string;
+  // Plain-text rendering, used for read-aloud and for cases saved before structured output
   diagnosis: string;
+  structured?: StructuredDiagnosis;
+  imageUrl?: string;
+  // Absent on cases saved before the outbox existed; treat as complete
+  status?: DiagnosticStatus;
+  // Field context the diagnosis was made with, resent on follow-ups
+  context?: DiagnosticContext;
+  thread?: CaseMessage[];
+  resolution?: CaseResolution;
+  // Offline symptom-key result awaiting confirmation by the AI expert
+  provisional?: boolean;
+  // Why a queued request was given up on; cleared when a diagnosis arrives
+  failure?: AIErrorKind;
+}
+
+export type LocalizedText = Record<Language, string>;
+export type SymptomFeature = 'part' | 'colour' | 'pattern';
+
+// One yes/no question in the offline symptom key; its id doubles as the trait it tests
+export interface SymptomQuestion {
+  id: string;
+  feature: SymptomFeature;
+  text: LocalizedText;
+}
+
+export interface SymptomCandidate {
+  id: string;
+  crop: CropType;
+  stages: GrowthStage[];
+  // The AdvisoryRule.pestAlert this entry expands on
+  pestAlert: string;
+  traits: string[];
+  urgency: DiagnosisUrgency;
+  name: LocalizedText;
+  cause: LocalizedText;
+  interventions: { type: InterventionType; action: LocalizedText; dosage?: string }[];
+  prevention: LocalizedText[];
+}
+
+export interface SymptomKey {
+  version: number;
+  questions: SymptomQuestion[];
+  candidates: SymptomCandidate[];
+}
+
+export type SymptomAnswerValue = 'yes' | 'no' | 'unsure';
+
+export interface SymptomAnswer {
+  questionId: string;
+  answer: SymptomAnswerValue;
+}
+
+// Field facts sent alongside the symptoms; everything but crop and stage is optional
+export interface DiagnosticContext {
+  cropName: string;
+  stage: string;
+  soil?: string;
+  region?: string;
+  recentWeather?: string[];
+  priorCases?: string[];
+}
+
+export interface CaseMessage {
+  id: string;
+  role: 'farmer' | 'expert';
+  text: string;
   imageUrl?: string;
+  timestamp: string;
+  // Farmer message written offline that the expert hasn't seen yet
+  pending?: boolean;
+  // Still pending after a send that failed while online; kept until the farmer retries or reconnects
+  failed?: boolean;
+}
+
+export interface CaseResolution {
+  resolvedAt: string;
+  treatment: string;
+}
+
+// A diagnostic request captured offline, self-contained so it can be sent without app state
+export interface PendingDiagnostic {
+  caseId: string;
+  cropNickname: string;
+  context: DiagnosticContext;
+  description: string;
+  imageData?: string;
+  // Language the diagnosis is written in; absent on entries queued before diagnoses were localized
+  language?: Language;
+  queuedAt: string;
+  attempts: number;
+}
+
+export type CachedResponseKind = 'speech' | 'text';
+
+// A stored AI answer, addressed by a hash of everything that went into it
+export interface CachedResponse {
+  key: string;
+  kind: CachedResponseKind;
+  value: unknown;
+  // Approximate bytes, for the per-kind size limit
+  size: number;
+  createdAt: string;
+  lastUsedAt: number;
+}
+
+export type AIProviderId = 'gemini' | 'openai-compatible' | 'fixture';
+
+// Why an AI call produced no answer, so the UI can say something specific
+export type AIErrorKind = 'offline' | 'timeout' | 'cancelled' | 'quota' | 'safety-blocked' | 'invalid-response' | 'unavailable';
+
+// `value` is set when ok, `error` otherwise
+export interface AIResult<T> {
+  ok: boolean;
+  value?: T;
+  error?: AIErrorKind;
+}
+
+// Every screen of the app; `detail`, `case` and editing in `add` need an id from the route
+export type AppView = 'home' | 'crops' | 'library' | 'diagnostics' | 'settings' | 'add' | 'detail' | 'privacy' | 'caseLog' | 'case';
+
+/**
+ * A parsed location hash. `cropId` is the field shown (detail), edited (add) or preselected
+ * (diagnostics); `caseId` is the case shown (case) or scrolled to (caseLog).
+ */
+export interface Route {
+  view: AppView;
+  cropId?: string;
+  caseId?: string;
+}
+
+export type AssistantAction = 'NAVIGATE' | 'SPEAK' | 'QUERY' | 'ADD_CROP' | 'LOG_IRRIGATION';
+
+// Screens the assistant can open
+export type AssistantView = 'home' | 'crops' | 'diagnostics' | 'library' | 'settings' | 'add' | 'caseLog';
+
+// Questions the app answers from its own data
+export type AssistantQuery = 'weather' | 'insights' | 'todayTasks' | 'cropStage';
+
+// What was said about a new field; missing slots are filled from defaults or the form
+export interface CropDraft {
+  type?: CropType;
+  soilType?: SoilType;
+  sowingDate?: string;
+  nickname?: string;
 }
 
+// `field` is the farmer's own words for one of their fields ("east field", "plot 2"), resolved against the crop list
+export type AssistantIntent =
+  | { action: 'NAVIGATE'; target: AssistantView; message?: string }
+  | { action: 'SPEAK'; message: string }
+  | { action: 'QUERY'; target: AssistantQuery; field?: string; message?: string }
+  | { action: 'ADD_CROP'; crop: CropDraft; message?: string }
+  | { action: 'LOG_IRRIGATION'; field?: string; amountMm?: number; message?: string };
+
+// Slots a grammar rule accepts beyond its own phrase words
+export type VoiceCommandSlot = 'field' | 'crop' | 'soil' | 'date' | 'amount';
+
+// One phrase pattern: space-separated tokens; "a|b" alternatives, "[a]" optional, "a*" prefix
+export interface VoiceCommandRule {
+  id: string;
+  action: 'NAVIGATE' | 'QUERY' | 'ADD_CROP' | 'LOG_IRRIGATION';
+  target?: AssistantView | AssistantQuery;
+  phrases: Record<Language, string[]>;
+  slots?: VoiceCommandSlot[];
+  reply?: LocalizedText;
+}
+
+// Data changes the assistant proposes; nothing is written until the farmer confirms
+export type AssistantWrite =
+  | { kind: 'addCrop'; crop: FarmerCrop }
+  | { kind: 'logIrrigation'; cropId: string; amountMm: number };
+
 export interface AdvisoryRule {
   stage: GrowthStage;
   fertilizer: string;
@@ -117,20 +437,158 @@ export interface AdvisoryRule {
   tips: string[];
 }
 
+// Region-specific changes to a crop's stage advisory; fields given replace the national ones
+export interface AdvisoryOverride {
+  fertilizer?: string;
+  pestAlert?: string;
+  irrigation?: string;
+  tips?: string[];
+  // Appended to the tips instead of replacing them
+  extraTips?: string[];
+}
+
+export interface RegionAdvisoryOverlay {
+  region: string;
+  crop: CropType;
+  stages: Partial<Record<GrowthStage, AdvisoryOverride>>;
+}
+
+// A stage advisory with region overlays applied; `sources` lists the regions that changed it, most specific first
+export interface ResolvedAdvisory extends AdvisoryRule {
+  sources: Region[];
+}
+
+export type StageThresholds = [number, number, number, number];
+
+export interface ThermalTimeModel {
+  baseTemp: number;
+  stageGdd: StageThresholds;
+}
+
+// FAO-56 style crop water use: coefficient per stage, mature root depth and allowable depletion
+export interface CropWaterUse {
+  kc: Record<GrowthStage, number>;
+  rootDepthM: number;
+  depletionFraction: number;
+}
+
+// Nutrient amounts as N, P2O5 and K2O
+export interface NutrientAmounts {
+  n: number;
+  p: number;
+  k: number;
+}
+
 export interface CropDataset {
   name: string;
   hindiName: string;
   marathiName: string;
+  stageDays: StageThresholds;
+  thermal?: ThermalTimeModel;
+  waterUse: CropWaterUse;
+  nutrientTarget: NutrientAmounts;
+  nutrientSplit: Partial<Record<GrowthStage, NutrientAmounts>>;
   advisories: Record<GrowthStage, AdvisoryRule>;
 }
 
+export interface StageTimelineEntry {
+  stage: GrowthStage;
+  startDate: string;
+  status: 'done' | 'current' | 'upcoming';
+}
+
+export interface StageProgress {
+  stage: GrowthStage;
+  progress: number;
+  nextStage: GrowthStage | null;
+  nextStageDate: string | null;
+  method: 'thermal' | 'calendar';
+  accumulatedGdd?: number;
+}
+
+export interface IrrigationEvent {
+  date: string;
+  amountMm: number;
+}
+
+// A dated job on a field, such as a treatment from a diagnosis
+export interface FieldTask {
+  id: string;
+  title: string;
+  detail?: string;
+  dueDate: string;
+  // The diagnostic case the task came from
+  caseId?: string;
+  done?: boolean;
+}
+
+export interface IrrigationSchedule {
+  depletionMm: number;
+  totalAvailableMm: number;
+  readilyAvailableMm: number;
+  todayEtcMm: number;
+  daysUntilIrrigation: number;
+  recommendedMm: number;
+}
+
+export type AreaUnit = 'acre' | 'hectare' | 'guntha' | 'bigha';
+
+export interface FieldArea {
+  value: number;
+  unit: AreaUnit;
+}
+
+// Available soil nutrients from a soil health card, kg/ha
+export interface SoilTest {
+  n?: number;
+  p?: number;
+  k?: number;
+}
+
+export type FertilizerProductId = 'urea' | 'dap' | 'ssp' | 'mop' | 'npk-10-26-26' | 'npk-12-32-16';
+
+export interface FertilizerProduct {
+  id: FertilizerProductId;
+  name: string;
+  content: NutrientAmounts;
+  bagKg: number;
+}
+
+export interface ProductQuantity {
+  product: FertilizerProductId;
+  kg: number;
+  bags?: number;
+}
+
+export interface FertilizerStageDose {
+  stage: GrowthStage;
+  nutrients: NutrientAmounts;
+  products: ProductQuantity[];
+}
+
+export interface FertilizerPlan {
+  areaHa: number;
+  target: NutrientAmounts;
+  stages: FertilizerStageDose[];
+  totals: ProductQuantity[];
+}
+
 export interface FarmerCrop {
   id: string;
   type: CropType;
   sowingDate: string;
   soilType: SoilType;
   region: string;
+  // GPS fix taken when the field was registered
+  location?: GeoPoint;
+  // Field corners in order, walked or drawn; the ring closes back to the first
+  boundary?: GeoPoint[];
   nickname: string;
+  irrigationLog?: IrrigationEvent[];
+  tasks?: FieldTask[];
+  area?: FieldArea;
+  soilTest?: SoilTest;
+  archived?: boolean;
 }
 
 export interface AppState {
@@ -138,6 +596,8 @@ export interface AppState {
   user: UserProfile | null;
   crops: FarmerCrop[];
   weatherSnapshot: WeatherDay[];
+  weatherMeta: WeatherMeta | null;
+  weatherHistory: WeatherDay[];
   isOnline: boolean;
   lastSyncTime: string | null;
   cachedInsights: OfflineInsight[];
@@ -12,7 +12,16 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.WEATHER_PROVIDER': JSON.stringify(env.WEATHER_PROVIDER),
+        'process.env.IMD_FORECAST_URL': JSON.stringify(env.IMD_FORECAST_URL),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
+        'process.env.AI_BASE_URL': JSON.stringify(env.AI_BASE_URL),
+        'process.env.AI_API_KEY': JSON.stringify(env.AI_API_KEY),
+        'process.env.AI_MODEL': JSON.stringify(env.AI_MODEL),
+        'process.env.MAP_TILE_URL': JSON.stringify(env.MAP_TILE_URL),
+        'process.env.MAP_TILE_BUDGET_MB': JSON.stringify(env.MAP_TILE_BUDGET_MB),
+        'process.env.PEST_FEED_URL': JSON.stringify(env.PEST_FEED_URL)
       },
       resolve: {
         alias: {